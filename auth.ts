@@ -3,6 +3,8 @@ import { createAuth0Client, Auth0Client } from '@auth0/auth0-spa-js';
 // Retrieve credentials from environment variables
 const domain = import.meta.env.VITE_AUTH0_DOMAIN;
 const clientId = import.meta.env.VITE_AUTH0_CLIENT_ID;
+// Optional API identifier, needed for access tokens the backend can verify
+const audience = import.meta.env.VITE_AUTH0_AUDIENCE;
 
 // Throw an error if the environment variables are not set
 if (!domain || !clientId) {
@@ -15,7 +17,8 @@ const auth0ClientPromise: Promise<Auth0Client> = createAuth0Client({
   domain: domain,
   clientId: clientId,
   authorizationParams: {
-    redirect_uri: window.location.origin
+    redirect_uri: window.location.origin,
+    ...(audience ? { audience } : {})
   }
 });
 
@@ -63,4 +66,14 @@ export const isAuthenticated = async (): Promise<boolean> => {
 export const getUser = async (): Promise<any | undefined> => {
   const auth0 = await auth0ClientPromise;
   return await auth0.getUser();
-};
\ No newline at end of file
+};
+
+/**
+ * Retrieves an access token for calling the game backend.
+ * @returns {Promise<string | undefined>} A promise that resolves to the access token, or undefined if the user is not logged in.
+ */
+export const getAccessToken = async (): Promise<string | undefined> => {
+  const auth0 = await auth0ClientPromise;
+  if (!(await auth0.isAuthenticated())) return undefined;
+  return await auth0.getTokenSilently();
+};
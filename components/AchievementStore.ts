@@ -0,0 +1,36 @@
+import { AchievementProgress, AchievementProgressStore } from './Achievements';
+
+const KEY_PREFIX = 'dura-achievements:';
+
+/**
+ * Achievement Store
+ * Keeps each player's unlocked achievements and lifetime stats in localStorage
+ */
+export class AchievementStore implements AchievementProgressStore {
+  private storage: Storage;
+
+  constructor(storage: Storage = window.localStorage) {
+    this.storage = storage;
+  }
+
+  load(playerId: string): AchievementProgress {
+    try {
+      const raw = this.storage.getItem(KEY_PREFIX + playerId);
+      if (raw) {
+        const progress = JSON.parse(raw);
+        return { unlocked: progress.unlocked || {}, lifetime: progress.lifetime || {} };
+      }
+    } catch (error) {
+      console.warn('Could not load achievements:', error);
+    }
+    return { unlocked: {}, lifetime: {} };
+  }
+
+  save(playerId: string, progress: AchievementProgress): void {
+    try {
+      this.storage.setItem(KEY_PREFIX + playerId, JSON.stringify(progress));
+    } catch (error) {
+      console.warn('Could not save achievements:', error);
+    }
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Achievements
+ * Declarative unlock rules over game stats, authored as JSON (see
+ * public/achievements/). Each rule names a stat and the value it must reach;
+ * the engine keeps the stats up to date from game events and unlocks each
+ * achievement once per player.
+ */
+
+export const ACHIEVEMENT_CONFIG_VERSION = 1;
+
+// Session stats start from zero on every login, lifetime stats are persisted
+export type AchievementStat =
+  | 'points'              // Current score
+  | 'cleanDistance'       // Meters on road since last leaving it
+  | 'correctStreak'       // Correct answers in a row
+  | 'totalDistance'       // Lifetime meters on road
+  | 'totalCorrectAnswers' // Lifetime correct answers
+  | 'totalMissions'       // Lifetime missions completed
+  | 'missionsUnderPar';   // Lifetime missions completed under par
+
+export const ACHIEVEMENT_STATS: AchievementStat[] = [
+  'points', 'cleanDistance', 'correctStreak',
+  'totalDistance', 'totalCorrectAnswers', 'totalMissions', 'missionsUnderPar',
+];
+export const LIFETIME_STATS: AchievementStat[] = ['totalDistance', 'totalCorrectAnswers', 'totalMissions', 'missionsUnderPar'];
+
+export interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  stat: AchievementStat;
+  atLeast: number;
+  hidden?: boolean; // Shown as ??? in the trophy case until unlocked
+}
+
+export interface AchievementConfig {
+  version: typeof ACHIEVEMENT_CONFIG_VERSION;
+  achievements: Achievement[];
+}
+
+export type AchievementEvent =
+  | { type: 'drive'; distanceOnRoad: number; offRoad: boolean; points: number }
+  | { type: 'question'; correct: boolean }
+  | { type: 'mission'; completed: boolean; underPar: boolean };
+
+// What is persisted per player
+export interface AchievementProgress {
+  unlocked: Record<string, number>; // Achievement id -> unlock time (epoch ms)
+  lifetime: Partial<Record<AchievementStat, number>>;
+}
+
+export interface AchievementProgressStore {
+  load(playerId: string): AchievementProgress;
+  save(playerId: string, progress: AchievementProgress): void;
+}
+
+export class AchievementEngine {
+  private achievements: Achievement[] = [];
+  private store: AchievementProgressStore;
+  private playerId: string | null = null;
+  private stats: Record<AchievementStat, number> = AchievementEngine.emptyStats();
+  private unlocked: Record<string, number> = {};
+
+  constructor(store: AchievementProgressStore) {
+    this.store = store;
+  }
+
+  private static emptyStats(): Record<AchievementStat, number> {
+    return Object.fromEntries(ACHIEVEMENT_STATS.map(stat => [stat, 0])) as Record<AchievementStat, number>;
+  }
+
+  setAchievements(achievements: Achievement[]): void {
+    this.achievements = achievements;
+  }
+
+  getAchievements(): Achievement[] {
+    return this.achievements;
+  }
+
+  // Start a session for a player: session stats reset, lifetime stats and unlocks are restored
+  loadPlayer(playerId: string): void {
+    const progress = this.store.load(playerId);
+    this.playerId = playerId;
+    this.unlocked = { ...progress.unlocked };
+    this.stats = { ...AchievementEngine.emptyStats(), ...progress.lifetime };
+  }
+
+  save(): void {
+    if (!this.playerId) return;
+
+    const lifetime: Partial<Record<AchievementStat, number>> = {};
+    LIFETIME_STATS.forEach(stat => { lifetime[stat] = this.stats[stat]; });
+    this.store.save(this.playerId, { unlocked: this.unlocked, lifetime });
+  }
+
+  // Update stats from a game event, returns achievements unlocked by it
+  handle(event: AchievementEvent): Achievement[] {
+    if (!this.playerId) return [];
+
+    switch (event.type) {
+      case 'drive':
+        this.stats.points = event.points;
+        this.stats.totalDistance += event.distanceOnRoad;
+        this.stats.cleanDistance = event.offRoad ? 0 : this.stats.cleanDistance + event.distanceOnRoad;
+        break;
+      case 'question':
+        this.stats.correctStreak = event.correct ? this.stats.correctStreak + 1 : 0;
+        if (event.correct) this.stats.totalCorrectAnswers++;
+        break;
+      case 'mission':
+        if (event.completed) this.stats.totalMissions++;
+        if (event.completed && event.underPar) this.stats.missionsUnderPar++;
+        break;
+    }
+
+    const unlockedNow = this.achievements.filter(achievement =>
+      this.unlocked[achievement.id] === undefined && this.stats[achievement.stat] >= achievement.atLeast
+    );
+    unlockedNow.forEach(achievement => { this.unlocked[achievement.id] = Date.now(); });
+
+    // Driving updates every frame, those are saved with the session instead
+    if (unlockedNow.length > 0 || event.type !== 'drive') this.save();
+    return unlockedNow;
+  }
+
+  getStat(stat: AchievementStat): number {
+    return this.stats[stat];
+  }
+
+  // Unlock time of an achievement, undefined while locked
+  getUnlockedAt(id: string): number | undefined {
+    return this.unlocked[id];
+  }
+
+  getProgress(achievement: Achievement): number {
+    return Math.min(1, this.stats[achievement.stat] / achievement.atLeast);
+  }
+}
+
+// Check raw JSON against the achievement config schema, returns a list of problems
+export function validateAchievementConfig(data: any): string[] {
+  const problems: string[] = [];
+  if (!data || typeof data !== 'object') return ['config must be a JSON object'];
+  if (data.version !== ACHIEVEMENT_CONFIG_VERSION) problems.push(`version must be ${ACHIEVEMENT_CONFIG_VERSION}`);
+  if (!Array.isArray(data.achievements)) return [...problems, 'achievements must be an array'];
+
+  const ids = new Set<string>();
+  data.achievements.forEach((achievement: any, index: number) => {
+    if (!achievement || typeof achievement.id !== 'string' || achievement.id === '') {
+      problems.push(`achievements[${index}].id must be a non-empty string`);
+    } else if (ids.has(achievement.id)) {
+      problems.push(`achievements[${index}].id "${achievement.id}" is used twice`);
+    } else {
+      ids.add(achievement.id);
+    }
+    if (typeof achievement?.name !== 'string') problems.push(`achievements[${index}].name must be a string`);
+    if (typeof achievement?.description !== 'string') problems.push(`achievements[${index}].description must be a string`);
+    if (!ACHIEVEMENT_STATS.includes(achievement?.stat)) {
+      problems.push(`achievements[${index}].stat must be one of ${ACHIEVEMENT_STATS.join(', ')}`);
+    }
+    if (!Number.isFinite(achievement?.atLeast) || achievement.atLeast <= 0) {
+      problems.push(`achievements[${index}].atLeast must be a positive number`);
+    }
+  });
+
+  return problems;
+}
+
+export async function loadAchievementConfig(url: string): Promise<AchievementConfig> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Achievement download failed: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  const problems = validateAchievementConfig(data);
+  if (problems.length > 0) {
+    throw new Error(`Invalid achievements ${url}: ${problems.join('; ')}`);
+  }
+  return data as AchievementConfig;
+}
@@ -0,0 +1,143 @@
+/**
+ * Audio Engine
+ * Owns the Web Audio context and the mixer: every sound plays through one of
+ * the channels below, each with its own volume and mute, into a master gain.
+ * Browsers only allow audio after the player interacts with the page, so the
+ * context is resumed on the first key press, click or touch.
+ */
+
+export type AudioChannel = 'engine' | 'sfx' | 'music';
+export const AUDIO_CHANNELS: AudioChannel[] = ['engine', 'sfx', 'music'];
+
+export interface ChannelState {
+  volume: number; // 0..1
+  muted: boolean;
+}
+
+export type MixerState = Record<AudioChannel, ChannelState> & { muted: boolean };
+
+export const DEFAULT_MIXER: MixerState = {
+  engine: { volume: 0.5, muted: false },
+  sfx: { volume: 0.8, muted: false },
+  music: { volume: 0.5, muted: false },
+  muted: false,
+};
+
+const MIXER_KEY = 'dura-audio-mixer';
+
+// Saved mixer, falling back to the defaults for anything missing
+export function loadMixerState(storage: Storage = window.localStorage): MixerState {
+  const mixer: MixerState = JSON.parse(JSON.stringify(DEFAULT_MIXER));
+  try {
+    const saved = JSON.parse(storage.getItem(MIXER_KEY) || '{}');
+    AUDIO_CHANNELS.forEach(channel => {
+      const state = saved[channel];
+      if (typeof state?.volume === 'number' && state.volume >= 0 && state.volume <= 1) mixer[channel].volume = state.volume;
+      if (typeof state?.muted === 'boolean') mixer[channel].muted = state.muted;
+    });
+    if (typeof saved.muted === 'boolean') mixer.muted = saved.muted;
+  } catch (error) {
+    console.warn('Could not load audio mixer:', error);
+  }
+  return mixer;
+}
+
+export function saveMixerState(mixer: MixerState, storage: Storage = window.localStorage): void {
+  try {
+    storage.setItem(MIXER_KEY, JSON.stringify(mixer));
+  } catch (error) {
+    console.warn('Could not save audio mixer:', error);
+  }
+}
+
+// Fade gain changes over this many seconds to avoid clicks
+const GAIN_RAMP = 0.05;
+
+export class AudioEngine {
+  private context: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private channels: Partial<Record<AudioChannel, GainNode>> = {};
+  private mixer: MixerState;
+  private masterVolume: number = 1;
+
+  constructor(mixer: MixerState = DEFAULT_MIXER) {
+    this.mixer = mixer;
+
+    const unlock = () => {
+      this.resume();
+      window.removeEventListener('keydown', unlock);
+      window.removeEventListener('pointerdown', unlock);
+    };
+    window.addEventListener('keydown', unlock);
+    window.addEventListener('pointerdown', unlock);
+  }
+
+  // The context, once the browser allows audio; sounds are skipped before that
+  getContext(): AudioContext | null {
+    return this.context && this.context.state === 'running' ? this.context : null;
+  }
+
+  // Input node of a mixer channel, null until audio is unlocked
+  getChannel(channel: AudioChannel): AudioNode | null {
+    return this.getContext() ? this.channels[channel] || null : null;
+  }
+
+  resume(): void {
+    if (!this.context) {
+      if (typeof AudioContext === 'undefined') return;
+      this.createGraph(new AudioContext());
+    }
+    this.context?.resume().catch(error => console.warn('Could not start audio:', error));
+  }
+
+  // Overall volume from the settings menu (0..1)
+  setMasterVolume(volume: number): void {
+    this.masterVolume = volume;
+    this.applyGains();
+  }
+
+  getMixer(): MixerState {
+    return this.mixer;
+  }
+
+  setMixer(mixer: MixerState): void {
+    this.mixer = mixer;
+    this.applyGains();
+  }
+
+  setChannelVolume(channel: AudioChannel, volume: number): void {
+    this.setMixer({ ...this.mixer, [channel]: { ...this.mixer[channel], volume: Math.min(1, Math.max(0, Math.round(volume * 100) / 100)) } });
+  }
+
+  setChannelMuted(channel: AudioChannel, muted: boolean): void {
+    this.setMixer({ ...this.mixer, [channel]: { ...this.mixer[channel], muted } });
+  }
+
+  setMuted(muted: boolean): void {
+    this.setMixer({ ...this.mixer, muted });
+  }
+
+  private createGraph(context: AudioContext): void {
+    const master = context.createGain();
+    master.connect(context.destination);
+    AUDIO_CHANNELS.forEach(channel => {
+      const gain = context.createGain();
+      gain.connect(master);
+      this.channels[channel] = gain;
+    });
+    this.context = context;
+    this.master = master;
+    this.applyGains();
+  }
+
+  private applyGains(): void {
+    if (!this.context || !this.master) return;
+
+    const now = this.context.currentTime;
+    this.master.gain.setTargetAtTime(this.mixer.muted ? 0 : this.masterVolume, now, GAIN_RAMP);
+    AUDIO_CHANNELS.forEach(channel => {
+      const state = this.mixer[channel];
+      this.channels[channel]?.gain.setTargetAtTime(state.muted ? 0 : state.volume, now, GAIN_RAMP);
+    });
+  }
+}
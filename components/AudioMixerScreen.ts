@@ -0,0 +1,124 @@
+import { AudioEngine, AudioChannel, AUDIO_CHANNELS, DEFAULT_MIXER, saveMixerState } from './AudioEngine';
+
+const CHANNEL_LABELS: Record<AudioChannel, string> = {
+  engine: 'ENGINE',
+  sfx: 'EFFECTS',
+  music: 'MUSIC',
+};
+const VOLUME_STEP = 0.1;
+
+/**
+ * Game Boy style sound mixer: volume and mute for each channel plus a mute
+ * for everything. The overall volume lives in the settings menu.
+ */
+export class AudioMixerScreen {
+  private screen: HTMLElement;
+  private list: HTMLElement | null;
+  private audio: AudioEngine;
+
+  constructor(audio: AudioEngine) {
+    this.audio = audio;
+    this.screen = this.createScreen();
+    this.list = this.screen.querySelector('#mixer-list');
+  }
+
+  private createScreen(): HTMLElement {
+    const screen = document.createElement('div');
+    screen.id = 'audio-mixer';
+    screen.className = 'gameboy-screen';
+    screen.style.cssText = `
+      position: fixed;
+      inset: 0;
+      background-color: rgba(0, 0, 0, 0.9);
+      display: none;
+      justify-content: center;
+      align-items: center;
+      z-index: 1500;
+      font-family: 'Press Start 2P', monospace;
+    `;
+    screen.innerHTML = `
+      <div class="gameboy-dialog" style="background: #ffffff; padding: 20px; border: 4px solid #000000; text-align: center; width: 90%; max-width: 440px; box-shadow: 8px 8px 0px #000000;">
+        <h2 style="font-size: 12px; margin: 0 0 16px;">SOUND</h2>
+        <div id="mixer-list" style="display: grid; gap: 8px; font-size: 8px; text-align: left;"></div>
+        <div style="display: flex; justify-content: center; gap: 10px; margin-top: 16px;">
+          <button id="mixer-mute-all" class="gameboy-button"></button>
+          <button id="mixer-reset" class="gameboy-button">DEFAULTS</button>
+          <button id="mixer-close" class="gameboy-button">BACK</button>
+        </div>
+      </div>
+    `;
+    document.body.appendChild(screen);
+
+    screen.querySelector('#mixer-mute-all')?.addEventListener('click', () => {
+      this.audio.setMuted(!this.audio.getMixer().muted);
+      this.changed();
+    });
+    screen.querySelector('#mixer-reset')?.addEventListener('click', () => {
+      this.audio.setMixer(JSON.parse(JSON.stringify(DEFAULT_MIXER)));
+      this.changed();
+    });
+    screen.querySelector('#mixer-close')?.addEventListener('click', () => this.hide());
+    return screen;
+  }
+
+  show(): void {
+    // Opening the mixer is a click, which is enough to unlock audio
+    this.audio.resume();
+    this.render();
+    this.screen.style.display = 'flex';
+  }
+
+  hide(): void {
+    this.screen.style.display = 'none';
+  }
+
+  private changed(): void {
+    saveMixerState(this.audio.getMixer());
+    this.render();
+  }
+
+  private render(): void {
+    if (!this.list) return;
+    this.list.innerHTML = '';
+    const mixer = this.audio.getMixer();
+
+    AUDIO_CHANNELS.forEach(channel => {
+      const state = mixer[channel];
+      const row = document.createElement('div');
+      row.style.cssText = 'display: flex; align-items: center; justify-content: space-between; gap: 8px;';
+
+      const label = document.createElement('span');
+      label.textContent = CHANNEL_LABELS[channel];
+      row.appendChild(label);
+
+      const controls = document.createElement('span');
+      controls.style.cssText = 'display: flex; align-items: center; gap: 6px;';
+      const value = document.createElement('span');
+      value.style.cssText = 'min-width: 48px; text-align: center;';
+      value.textContent = `${Math.round(state.volume * 100)}%`;
+      controls.append(
+        this.createButton('<', () => this.audio.setChannelVolume(channel, state.volume - VOLUME_STEP)),
+        value,
+        this.createButton('>', () => this.audio.setChannelVolume(channel, state.volume + VOLUME_STEP)),
+        this.createButton(state.muted ? 'OFF' : 'ON', () => this.audio.setChannelMuted(channel, !state.muted))
+      );
+      row.appendChild(controls);
+      this.list?.appendChild(row);
+    });
+
+    const muteAll = this.screen.querySelector('#mixer-mute-all');
+    if (muteAll) muteAll.textContent = mixer.muted ? 'UNMUTE' : 'MUTE ALL';
+  }
+
+  private createButton(text: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className = 'gameboy-button';
+    button.style.cssText = 'font-size: 6px; padding: 6px 8px; min-width: 32px;';
+    button.textContent = text;
+    button.addEventListener('click', () => {
+      onClick();
+      this.changed();
+    });
+    return button;
+  }
+}
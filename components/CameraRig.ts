@@ -0,0 +1,151 @@
+import { CONFIG } from '../config';
+import { LatLng, moveAlongHeading } from './RoadGeometry';
+
+/**
+ * Camera Rig
+ * Works out where the map camera should look each frame. The chase camera
+ * swings round behind the car on a damped spring instead of copying its
+ * heading, every mode pulls back as the car speeds up, and the view is
+ * centred a little ahead of the car in the direction of travel.
+ */
+
+export type CameraMode = 'chase' | 'topDown' | 'orbit' | 'freeLook';
+export const CAMERA_MODES: CameraMode[] = ['chase', 'topDown', 'orbit', 'freeLook'];
+
+export interface CameraTarget {
+  lat: number;
+  lng: number;
+  heading: number; // Degrees
+  speed: number;   // Meters per second, negative in reverse
+}
+
+// Arguments for google.maps.Map.moveCamera
+export interface CameraPose {
+  center: LatLng;
+  heading: number;
+  tilt: number;
+  zoom: number;
+}
+
+// Longest step the springs take, so a stalled tab does not fling the camera
+const MAX_STEP = 0.1;
+const MAX_TILT = 80;
+// Degrees of heading and tilt per pixel dragged in free look
+const DRAG_SENSITIVITY = 0.3;
+
+// Signed shortest turn from one heading to another, -180..180
+export function headingDifference(from: number, to: number): number {
+  return ((to - from) % 360 + 540) % 360 - 180;
+}
+
+export class CameraRig {
+  private mode: CameraMode = 'chase';
+  private baseTilt: number;
+  private baseZoom: number;
+
+  // Spring state
+  private heading: number | null = null;
+  private headingVelocity = 0;
+  private zoomOut = 0;
+  private lookAhead = 0;
+
+  private orbitAngle = 0;
+  private freeLookHeading = 0;
+  private freeLookTilt: number;
+  private dragStart: { x: number; y: number; heading: number; tilt: number } | null = null;
+  // Heading of the last pose, which way is up on screen
+  private poseHeading = 0;
+
+  constructor(tilt: number = CONFIG.CAMERA.TILT, zoom: number = CONFIG.CAMERA.ZOOM) {
+    this.baseTilt = tilt;
+    this.baseZoom = zoom;
+    this.freeLookTilt = tilt;
+  }
+
+  setBaseView(tilt: number, zoom: number): void {
+    this.baseTilt = tilt;
+    this.baseZoom = zoom;
+  }
+
+  getMode(): CameraMode {
+    return this.mode;
+  }
+
+  // Compass direction the camera looked in at the last update
+  getHeading(): number {
+    return this.poseHeading;
+  }
+
+  setMode(mode: CameraMode): void {
+    if (mode === this.mode) return;
+    this.mode = mode;
+    this.orbitAngle = 0;
+    this.freeLookHeading = 0;
+    this.freeLookTilt = this.baseTilt;
+    this.dragStart = null;
+  }
+
+  // Free look: dragging turns the camera around the car and changes its tilt
+  startDrag(x: number, y: number): void {
+    if (this.mode !== 'freeLook') return;
+    this.dragStart = { x, y, heading: this.freeLookHeading, tilt: this.freeLookTilt };
+  }
+
+  drag(x: number, y: number): void {
+    if (!this.dragStart) return;
+    this.freeLookHeading = this.dragStart.heading - (x - this.dragStart.x) * DRAG_SENSITIVITY;
+    this.freeLookTilt = Math.min(MAX_TILT, Math.max(0, this.dragStart.tilt + (y - this.dragStart.y) * DRAG_SENSITIVITY));
+  }
+
+  endDrag(): void {
+    this.dragStart = null;
+  }
+
+  update(target: CameraTarget, deltaTime: number): CameraPose {
+    const pose = this.computePose(target, deltaTime);
+    this.poseHeading = pose.heading;
+    return pose;
+  }
+
+  private computePose(target: CameraTarget, deltaTime: number): CameraPose {
+    const step = Math.min(deltaTime, MAX_STEP);
+    const speed = Math.abs(target.speed);
+    const { SPRING_STIFFNESS, SPEED_ZOOM_OUT, SPEED_ZOOM_MAX, LOOK_AHEAD_TIME, MAX_LOOK_AHEAD, ORBIT_SPEED } = CONFIG.CAMERA;
+
+    this.followHeading(target.heading, step, SPRING_STIFFNESS);
+    // Zoom and look-ahead ease towards their targets on the same time scale
+    const easing = 1 - Math.exp(-step * Math.sqrt(SPRING_STIFFNESS));
+    this.zoomOut += (Math.min(1, speed / SPEED_ZOOM_MAX) * SPEED_ZOOM_OUT - this.zoomOut) * easing;
+    this.lookAhead += (Math.min(MAX_LOOK_AHEAD, speed * LOOK_AHEAD_TIME) - this.lookAhead) * easing;
+
+    // Look ahead along the way the car is moving, which is backwards in reverse
+    const travelHeading = target.speed < 0 ? target.heading + 180 : target.heading;
+    const center = moveAlongHeading(target, this.lookAhead, travelHeading);
+    const zoom = this.baseZoom - this.zoomOut;
+    const heading = this.heading ?? target.heading;
+
+    switch (this.mode) {
+      case 'topDown':
+        return { center, heading: 0, tilt: 0, zoom };
+      case 'orbit':
+        this.orbitAngle = (this.orbitAngle + ORBIT_SPEED * step) % 360;
+        return { center: { lat: target.lat, lng: target.lng }, heading: heading + this.orbitAngle, tilt: this.baseTilt, zoom };
+      case 'freeLook':
+        return { center: { lat: target.lat, lng: target.lng }, heading: heading + this.freeLookHeading, tilt: this.freeLookTilt, zoom };
+      default:
+        return { center, heading, tilt: this.baseTilt, zoom };
+    }
+  }
+
+  // Critically damped spring towards the car heading, taking the short way round
+  private followHeading(targetHeading: number, step: number, stiffness: number): void {
+    if (this.heading === null) {
+      this.heading = targetHeading;
+      return;
+    }
+    const offset = headingDifference(this.heading, targetHeading);
+    const acceleration = stiffness * offset - 2 * Math.sqrt(stiffness) * this.headingVelocity;
+    this.headingVelocity += acceleration * step;
+    this.heading = (this.heading + this.headingVelocity * step + 360) % 360;
+  }
+}
@@ -2,8 +2,10 @@ import * as THREE from "three";
 
 export class Car extends THREE.Group {
   private wheels: THREE.Group[] = [];
+  private frontWheels: THREE.Group[] = [];
   private wheelRotationSpeed: number = 0;
   private dustParticles: THREE.Mesh[] = [];
+  private bodyMaterial: THREE.MeshStandardMaterial;
 
   constructor() {
     super();
@@ -16,6 +18,7 @@ export class Car extends THREE.Group {
       color: 0xff4444,
       flatShading: true,
     });
+    this.bodyMaterial = bodyMaterial;
 
     const detailMaterial = new THREE.MeshStandardMaterial({
       color: 0x333333, // A dark grey for details
@@ -62,7 +65,7 @@ export class Car extends THREE.Group {
       { x: 1.1, y: -1.2, z: 0 }   // Rear right
     ];
 
-    wheelPositions.forEach(pos => {
+    wheelPositions.forEach((pos, index) => {
       // Create wheel group to hold tire and rim
       const wheelGroup = new THREE.Group();
       
@@ -101,6 +104,12 @@ export class Car extends THREE.Group {
       wheelGroup.position.set(pos.x, pos.y, pos.z - 0.4); // Move wheels inward
       this.add(wheelGroup);
       this.wheels.push(wheelGroup); // Store reference for animation
+      
+      // Front wheels steer: apply the steering yaw (Z) outside the rolling spin (X)
+      if (index < 2) {
+        wheelGroup.rotation.order = 'ZXY';
+        this.frontWheels.push(wheelGroup);
+      }
     });
   }
 
@@ -156,6 +165,25 @@ export class Car extends THREE.Group {
     }
   }
 
+  // Repaint the body, e.g. to tell other players' cars apart
+  public setBodyColor(color: number): void {
+    this.bodyMaterial.color.setHex(color);
+  }
+
+  // Make the whole car see-through (used for ghost cars)
+  public setOpacity(opacity: number): void {
+    this.traverse(object => {
+      if (object instanceof THREE.Mesh && !this.dustParticles.includes(object)) {
+        // Clone so shared materials of other cars are not affected
+        const material = (object.material as THREE.Material).clone();
+        material.transparent = opacity < 1;
+        material.opacity = opacity;
+        material.depthWrite = opacity >= 1;
+        object.material = material;
+      }
+    });
+  }
+
   // The rotation logic is the same and works perfectly with this new model
   public updateHeading(headingDegrees: number): void {
     const headingRadians = -((headingDegrees * Math.PI) / 180);
@@ -165,15 +193,24 @@ export class Car extends THREE.Group {
   // Update wheel rotation speed based on car speed
   public updateWheelRotation(speed: number): void {
     // Calculate rotation speed based on car speed
-    // Speed is in meters per second, convert to wheel rotations per second
+    // Speed is in meters per second (negative in reverse), convert to wheel rotations per second
     const wheelCircumference = 2 * Math.PI * 0.4; // Wheel radius is 0.4
     const rotationsPerSecond = speed / wheelCircumference;
     this.wheelRotationSpeed = rotationsPerSecond * 2 * Math.PI; // Convert to radians per second
   }
 
+  // Turn the front wheels to the steering angle (positive = right)
+  public updateSteering(steeringAngleDegrees: number): void {
+    const steeringRadians = -((steeringAngleDegrees * Math.PI) / 180);
+    this.frontWheels.forEach(wheel => {
+      wheel.rotation.z = steeringRadians;
+    });
+  }
+
   // Animate wheel spinning (call this every frame)
   public animateWheels(deltaTime: number): void {
-    if (this.wheelRotationSpeed > 0) {
+    // Negative rotation speed spins the wheels backwards when reversing
+    if (this.wheelRotationSpeed !== 0) {
       this.wheels.forEach(wheel => {
         // Rotate around X-axis (forward direction) - wheels roll forward like real wheels
         wheel.rotation.x += this.wheelRotationSpeed * deltaTime;
@@ -191,7 +228,7 @@ export class Car extends THREE.Group {
 
   private animateDustParticles(deltaTime: number): void {
     this.dustParticles.forEach((particle) => {
-      if (this.wheelRotationSpeed > 0.5) {
+      if (Math.abs(this.wheelRotationSpeed) > 0.5) {
         particle.visible = true;
         
         particle.position.y -= 2 * deltaTime;
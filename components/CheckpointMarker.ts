@@ -0,0 +1,49 @@
+import * as THREE from "three";
+
+export class CheckpointMarker extends THREE.Group {
+  private ring: THREE.Mesh;
+  private beam: THREE.Mesh;
+  private elapsed: number = 0;
+
+  constructor() {
+    super();
+
+    // Glowing ring on the ground showing the checkpoint radius
+    const ringMaterial = new THREE.MeshStandardMaterial({
+      color: 0xffd700,
+      emissive: 0xffd700,
+      emissiveIntensity: 2,
+      flatShading: true,
+    });
+    this.ring = new THREE.Mesh(new THREE.TorusGeometry(1, 0.08, 6, 32), ringMaterial);
+    this.add(this.ring);
+
+    // Translucent beam so the checkpoint is visible from a distance
+    const beamMaterial = new THREE.MeshBasicMaterial({
+      color: 0xffd700,
+      transparent: true,
+      opacity: 0.35,
+      depthWrite: false,
+    });
+    this.beam = new THREE.Mesh(new THREE.CylinderGeometry(0.6, 0.6, 30, 12, 1, true), beamMaterial);
+    // Cylinders are built along Y, stand it up along Z (the scene's up axis)
+    this.beam.rotation.x = Math.PI / 2;
+    this.beam.position.z = 15;
+    this.add(this.beam);
+
+    this.visible = false;
+  }
+
+  // Size the ring to the checkpoint radius in meters
+  setRadius(radius: number): void {
+    this.ring.scale.set(radius, radius, radius);
+  }
+
+  // Pulse the ring and beam (call this every frame)
+  animate(deltaTime: number): void {
+    this.elapsed += deltaTime;
+    this.ring.rotation.z += deltaTime;
+    const pulse = 1 + Math.sin(this.elapsed * 4) * 0.1;
+    this.beam.scale.set(pulse, 1, pulse);
+  }
+}
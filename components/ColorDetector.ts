@@ -1,28 +1,55 @@
-import { RealRoadDetector } from './RealRoadDetector';
+import { RGB, RoadProvider, RoadProviderError } from './RoadProvider';
+import { DetectorHealth } from './DetectorHealth';
+import { LanePosition, measureLanePosition } from './LanePosition';
+
+// Whether a map color is "gray" (road-like): all channels similar and
+// neither too dark nor too light
+export function isRoadColor(color: RGB): boolean {
+  const { r, g, b } = color;
+  
+  // Check if it's a gray color (all RGB values are similar)
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const difference = max - min;
+  
+  // If the difference is small, it's likely gray
+  const isGray = difference < 30;
+  
+  // Also check if it's in the gray range (not too dark or too light)
+  const isInGrayRange = r > 80 && r < 200 && g > 80 && g < 200 && b > 80 && b < 200;
+  
+  return isGray && isInGrayRange;
+}
 
 export class ColorDetector {
   private map: google.maps.Map;
-  private roadDetector: RealRoadDetector;
-  private fallbackMode: boolean = false;
+  private roadDetector: RoadProvider;
+  // The provider's own, or one tracking the errors its lookups throw
+  private health: DetectorHealth;
+  private tracksHealth: boolean;
+  private pendingCheck: Promise<void> | null = null;
+  private latestAnswer: boolean | null = null;
   
-  constructor(map: google.maps.Map, apiKey: string) {
+  constructor(map: google.maps.Map, roadDetector: RoadProvider) {
     this.map = map;
-    this.roadDetector = new RealRoadDetector(map, apiKey);
+    this.roadDetector = roadDetector;
+    this.health = roadDetector.health ?? new DetectorHealth();
+    this.tracksHealth = !roadDetector.health;
   }
   
   // Get the color at a specific lat/lng position
-  getColorAtPosition(lat: number, lng: number): { r: number; g: number; b: number } | null {
+  getColorAtPosition(lat: number, lng: number): RGB | null {
     try {
-      // For now, we'll use a simplified approach based on coordinates
-      // In a real implementation, you'd sample the actual map pixels
-      return this.estimateRoadColor(lat, lng);
+      // Map tile pixels when the provider samples them, otherwise a
+      // simplified approach based on coordinates
+      return this.roadDetector.getColorAt?.(lat, lng) ?? this.estimateRoadColor(lat, lng);
     } catch (error) {
       console.error('Error getting color:', error);
       return null;
     }
   }
   
-  private estimateRoadColor(lat: number, lng: number): { r: number; g: number; b: number } {
+  private estimateRoadColor(lat: number, lng: number): RGB {
     // This is a simplified heuristic to simulate road detection
     // In reality, you'd use Google Maps Roads API or pixel sampling
     
@@ -51,36 +78,62 @@ export class ColorDetector {
   }
   
   // Check if a color is "gray" (road-like)
-  isGrayColor(color: { r: number; g: number; b: number }): boolean {
-    const { r, g, b } = color;
-    
-    // Check if it's a gray color (all RGB values are similar)
-    const max = Math.max(r, g, b);
-    const min = Math.min(r, g, b);
-    const difference = max - min;
-    
-    // If the difference is small, it's likely gray
-    const isGray = difference < 30;
-    
-    // Also check if it's in the gray range (not too dark or too light)
-    const isInGrayRange = r > 80 && r < 200 && g > 80 && g < 200 && b > 80 && b < 200;
-    
-    return isGray && isInGrayRange;
+  isGrayColor(color: RGB): boolean {
+    return isRoadColor(color);
   }
   
-  // Real road detection using Google Maps Roads API
-  async isOnRoad(lat: number, lng: number): Promise<boolean> {
+  // Real road detection using the configured road provider, simulated
+  // roads while it fails until a retry or recovery probe succeeds
+  async isOnRoad(lat: number, lng: number): Promise<boolean | null> {
+    // Providers with their own health decide themselves when to retry
+    if (this.tracksHealth && !this.health.allowRequest()) {
+      return this.fallbackRoadDetection(lat, lng);
+    }
+    
     try {
-      // Use real road detection
-      return await this.roadDetector.isOnRoad(lat, lng);
+      const isOnRoad = await this.roadDetector.isOnRoad(lat, lng);
+      if (this.tracksHealth) this.health.recordSuccess();
+      return isOnRoad;
     } catch (error) {
       console.warn('Real road detection failed, falling back to simulation:', error);
-      this.fallbackMode = true;
-      // Fallback to simulated detection
+      if (this.tracksHealth) this.health.recordFailure(RoadProviderError.from(error));
       return this.fallbackRoadDetection(lat, lng);
     }
   }
   
+  // Synchronous check for per-frame scoring, null until the first answer.
+  // Providers without their own version get one lookup at a time and the
+  // latest answer, so results are never applied out of order.
+  isOnRoadNow(lat: number, lng: number, heading: number, speed: number): boolean | null {
+    if (this.roadDetector.isOnRoadNow) {
+      const answer = this.roadDetector.isOnRoadNow(lat, lng, heading, speed);
+      // Nothing cached for this spot while lookups fail
+      if (answer === null && this.isInFallbackMode()) return this.fallbackRoadDetection(lat, lng);
+      return answer;
+    }
+    
+    if (!this.pendingCheck) {
+      this.pendingCheck = this.isOnRoad(lat, lng)
+        .then(isOnRoad => {
+          if (isOnRoad !== null) this.latestAnswer = isOnRoad;
+        })
+        .finally(() => {
+          this.pendingCheck = null;
+        });
+    }
+    return this.latestAnswer;
+  }
+  
+  // Lane and side of the road, null without road geometry (or simulated roads)
+  getLanePosition(lat: number, lng: number, heading: number, speed: number): LanePosition | null {
+    if (this.isInFallbackMode()) return null;
+    const segment = this.roadDetector.getRoadSegment?.(lat, lng);
+    if (!segment) return null;
+    
+    // In reverse the car drives away from where it is facing
+    return measureLanePosition({ lat, lng }, speed < 0 ? heading + 180 : heading, segment);
+  }
+  
   // Fallback road detection (simulated) when API fails
   private fallbackRoadDetection(lat: number, lng: number): boolean {
     const zoom = this.map.getZoom() || 18;
@@ -101,9 +154,19 @@ export class ColorDetector {
     return isMainRoad || isSmallRoad;
   }
   
-  // Check if we're in fallback mode
+  // Check if we're in fallback mode, i.e. road lookups are failing
   isInFallbackMode(): boolean {
-    return this.fallbackMode;
+    return !this.health.isReliable();
+  }
+  
+  // Provider name, or the failure keeping detection unreliable
+  getStatus(): string {
+    return this.health.describe(this.roadDetector.name);
+  }
+  
+  // Name of the road provider answering isOnRoad
+  getProviderName(): string {
+    return this.roadDetector.name;
   }
   
   // Get cache statistics
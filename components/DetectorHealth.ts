@@ -0,0 +1,99 @@
+import { CONFIG } from '../config';
+import { EventBus, GameEventMap, gameEvents } from './GameEvents';
+import { RoadFailureKind, RoadProviderError } from './RoadProvider';
+
+/**
+ * Detector Health
+ * Circuit breaker for road lookups. A failure pauses requests and lets a
+ * single retry through after RETRY_DELAY, doubling up to MAX_RETRIES times.
+ * After that, or straight away when the key is rejected, detection is down
+ * and one probe every HEALTH_PROBE_INTERVAL checks whether it is back.
+ * Until a request succeeds again detection counts as unreliable, which
+ * suspends off-road penalties (see the RoadDetectionChanged event).
+ */
+
+// healthy: requests flow, retrying: a transient failure, down: waiting for a probe
+export type DetectorHealthState = 'healthy' | 'retrying' | 'down';
+
+// Short cause for the HUD
+const FAILURE_LABELS: Record<RoadFailureKind, string> = {
+  auth: 'Key rejected',
+  quota: 'Quota exceeded',
+  network: 'Offline',
+  timeout: 'Timed out',
+  server: 'Server error',
+};
+
+export class DetectorHealth {
+  private state: DetectorHealthState = 'healthy';
+  private lastError: RoadProviderError | null = null;
+  private failures = 0;
+  private nextAttemptAt = 0;
+  private probing = false;
+  private events: EventBus<GameEventMap>;
+
+  constructor(events: EventBus<GameEventMap> = gameEvents) {
+    this.events = events;
+  }
+
+  // Whether a request may go out now. Outside the healthy state this claims
+  // the one retry or probe allowed, so only call it right before requesting.
+  allowRequest(): boolean {
+    if (this.state === 'healthy') return true;
+    if (this.probing || Date.now() < this.nextAttemptAt) return false;
+    this.probing = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.probing = false;
+    this.failures = 0;
+    this.lastError = null;
+    this.setState('healthy');
+  }
+
+  recordFailure(error: RoadProviderError): void {
+    this.probing = false;
+    this.failures++;
+    this.lastError = error;
+
+    // Retrying will not bring a rejected key back, only probing might
+    if (error.kind === 'auth' || this.failures > CONFIG.ROADS_API.MAX_RETRIES) {
+      this.nextAttemptAt = Date.now() + CONFIG.ROADS_API.HEALTH_PROBE_INTERVAL;
+      this.setState('down');
+    } else {
+      this.nextAttemptAt = Date.now() + CONFIG.ROADS_API.RETRY_DELAY * Math.pow(2, this.failures - 1);
+      this.setState('retrying');
+    }
+  }
+
+  getState(): DetectorHealthState {
+    return this.state;
+  }
+
+  isReliable(): boolean {
+    return this.state === 'healthy';
+  }
+
+  // The failure that made detection unreliable, null while healthy
+  getLastError(): RoadProviderError | null {
+    return this.lastError;
+  }
+
+  // HUD text for the current state, e.g. "Retrying: Timed out"
+  describe(providerName: string): string {
+    if (this.state === 'healthy' || !this.lastError) return providerName;
+    const cause = FAILURE_LABELS[this.lastError.kind];
+    return this.state === 'retrying' ? `Retrying: ${cause}` : `Fallback: ${cause}`;
+  }
+
+  private setState(state: DetectorHealthState): void {
+    if (state === this.state) return;
+    this.state = state;
+    this.events.emit('RoadDetectionChanged', {
+      state,
+      reliable: state === 'healthy',
+      cause: this.lastError ? this.lastError.kind : null,
+    });
+  }
+}
@@ -0,0 +1,74 @@
+import { CONFIG } from '../config';
+import { AudioEngine } from './AudioEngine';
+
+// Seconds for pitch and volume to follow the car, smooths out frame jitter
+const SMOOTHING = 0.08;
+const IDLE_VOLUME = 0.25;
+
+/**
+ * Engine Sound
+ * Two slightly detuned square waves through a low-pass filter, the classic
+ * handheld racing game drone. Pitch rises with speed and the filter opens up
+ * on the throttle.
+ */
+export class EngineSound {
+  private audio: AudioEngine;
+  private oscillators: OscillatorNode[] = [];
+  private filter: BiquadFilterNode | null = null;
+  private gain: GainNode | null = null;
+  private running: boolean = true;
+
+  constructor(audio: AudioEngine) {
+    this.audio = audio;
+  }
+
+  // Silence the engine while the game is paused, keeping the nodes around
+  setRunning(running: boolean): void {
+    this.running = running;
+    const context = this.audio.getContext();
+    if (!running && context && this.gain) this.gain.gain.setTargetAtTime(0, context.currentTime, SMOOTHING);
+  }
+
+  // Call every frame with the car speed (m/s) and throttle (0..1)
+  update(speed: number, throttle: number): void {
+    if (!this.running || !this.start()) return;
+    const context = this.audio.getContext();
+    if (!context || !this.filter || !this.gain) return;
+
+    const { IDLE_FREQUENCY, MAX_FREQUENCY, MAX_SPEED } = CONFIG.AUDIO.ENGINE;
+    const load = Math.min(1, Math.abs(speed) / MAX_SPEED);
+    const frequency = IDLE_FREQUENCY + (MAX_FREQUENCY - IDLE_FREQUENCY) * load;
+    const now = context.currentTime;
+
+    this.oscillators.forEach((oscillator, index) => {
+      oscillator.frequency.setTargetAtTime(frequency * (index === 0 ? 1 : 1.01), now, SMOOTHING);
+    });
+    this.filter.frequency.setTargetAtTime(frequency * (4 + throttle * 8), now, SMOOTHING);
+    this.gain.gain.setTargetAtTime(IDLE_VOLUME + (1 - IDLE_VOLUME) * Math.max(load, throttle * 0.6), now, SMOOTHING);
+  }
+
+  // Build the oscillators once audio is unlocked, returns whether they exist
+  private start(): boolean {
+    if (this.gain) return true;
+    const context = this.audio.getContext();
+    const channel = this.audio.getChannel('engine');
+    if (!context || !channel) return false;
+
+    this.gain = context.createGain();
+    this.gain.gain.value = 0;
+    this.filter = context.createBiquadFilter();
+    this.filter.type = 'lowpass';
+    this.filter.connect(this.gain);
+    this.gain.connect(channel);
+
+    for (let i = 0; i < 2; i++) {
+      const oscillator = context.createOscillator();
+      oscillator.type = 'square';
+      oscillator.frequency.value = CONFIG.AUDIO.ENGINE.IDLE_FREQUENCY;
+      oscillator.connect(this.filter);
+      oscillator.start();
+      this.oscillators.push(oscillator);
+    }
+    return true;
+  }
+}
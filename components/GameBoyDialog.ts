@@ -1,3 +1,5 @@
+import { gameEvents } from './GameEvents';
+
 /**
  * Game Boy Style Dialog System
  * Provides pixelated black and white dialogs for alerts and confirmations
@@ -8,6 +10,7 @@ export class GameBoyDialog {
   
   private constructor() {
     this.setupEventListeners();
+    gameEvents.on('NotificationRequested', ({ message, duration }) => this.showNotification(message, duration));
   }
 
   public static getInstance(): GameBoyDialog {
@@ -0,0 +1,94 @@
+import { Question } from './QuestionPack';
+import { VehicleInput } from './VehiclePhysics';
+import { GameSettings } from './Settings';
+import { GameState } from './GameStateMachine';
+import { DetectorHealthState } from './DetectorHealth';
+import { RoadFailureKind } from './RoadProvider';
+import { LaneStatus } from './LanePosition';
+
+/**
+ * Game Events
+ * Typed publish/subscribe bus the game systems use to talk to each other
+ * instead of calling into one another through index.ts.
+ */
+
+export interface GameEventMap {
+  // A logged in player started or stopped driving
+  SessionStarted: { playerId: string; nickname: string; timestamp: number };
+  SessionEnded: { playerId: string; timestamp: number };
+  // Published every simulated frame after the car has moved
+  VehicleUpdated: {
+    lat: number;
+    lng: number;
+    heading: number;
+    speed: number;      // Meters per second, negative in reverse
+    input: VehicleInput;
+    isOnRoad: boolean;  // Last known road state
+    deltaTime: number;  // Seconds since the previous frame
+    timestamp: number;  // requestAnimationFrame time in milliseconds
+  };
+  RoadStateChanged: { isOnRoad: boolean; lat: number; lng: number };
+  // Published by PointSystem when the car changes lanes or sides, null off road
+  LaneStateChanged: { status: LaneStatus | null; lane: number | null; lat: number; lng: number };
+  // Published by DetectorHealth when road lookups start or stop failing
+  RoadDetectionChanged: { state: DetectorHealthState; reliable: boolean; cause: RoadFailureKind | null };
+  // Published by PointSystem after every scoring update
+  ScoreChanged: { points: number; distanceOnRoad: number; isOnRoad: boolean; speed: number; lat: number; lng: number };
+  // Ask PointSystem to add bonus points
+  PointsAwarded: { amount: number; reason: string };
+  PenaltyApplied: { amount: number; reason: 'off-road' | 'speeding' | 'wrong-side' };
+  QuestionAsked: { question: Question; reason: string };
+  QuestionAnswered: { question: Question; correct: boolean };
+  AchievementUnlocked: { id: string; name: string };
+  MissionFinished: { missionId: string; completed: boolean; underPar: boolean; points: number };
+  // Ask GameBoyDialog to show a notification
+  NotificationRequested: { message: string; duration?: number };
+  // Published at startup and whenever the player changes a setting
+  SettingsChanged: { settings: GameSettings };
+  GameStateChanged: { from: GameState; to: GameState };
+}
+
+export type GameEventType = keyof GameEventMap;
+export type GameEventHandler<T> = (payload: T) => void | Promise<void>;
+
+export class EventBus<Events extends object> {
+  private handlers: Map<keyof Events, Set<GameEventHandler<any>>> = new Map();
+
+  // Subscribe to an event, returns a function that unsubscribes again
+  on<K extends keyof Events>(type: K, handler: GameEventHandler<Events[K]>): () => void {
+    if (!this.handlers.has(type)) this.handlers.set(type, new Set());
+    this.handlers.get(type)!.add(handler);
+    return () => this.off(type, handler);
+  }
+
+  off<K extends keyof Events>(type: K, handler: GameEventHandler<Events[K]>): void {
+    this.handlers.get(type)?.delete(handler);
+  }
+
+  // Call every handler in subscription order. A failing handler is logged and
+  // does not stop the others. Resolves once async handlers have finished.
+  emit<K extends keyof Events>(type: K, payload: Events[K]): Promise<void> {
+    const pending: Promise<void>[] = [];
+
+    [...(this.handlers.get(type) || [])].forEach(handler => {
+      try {
+        const result = handler(payload);
+        if (result instanceof Promise) {
+          pending.push(result.catch(error => console.error(`${String(type)} handler failed:`, error)));
+        }
+      } catch (error) {
+        console.error(`${String(type)} handler failed:`, error);
+      }
+    });
+
+    return Promise.all(pending).then(() => undefined);
+  }
+
+  // Remove all handlers, mainly for tests
+  clear(): void {
+    this.handlers.clear();
+  }
+}
+
+// Shared bus for the whole game
+export const gameEvents = new EventBus<GameEventMap>();
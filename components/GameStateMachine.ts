@@ -0,0 +1,116 @@
+import { EventBus, GameEventMap, gameEvents } from './GameEvents';
+
+/**
+ * Game State Machine
+ * Owns the game loop: frames only run while Playing, and there is never more
+ * than one loop. Timers started through setTimer are cancelled as soon as the
+ * state changes, so a delayed callback cannot fire into a different state.
+ */
+
+export type GameState =
+  | 'Loading'
+  | 'LoggedOut'
+  | 'Playing'
+  | 'Paused'
+  | 'Question'
+  | 'MissionComplete'
+  | 'GameOver';
+
+// Allowed moves out of each state
+const TRANSITIONS: Record<GameState, GameState[]> = {
+  Loading: ['LoggedOut', 'Playing'],
+  LoggedOut: ['Playing'],
+  Playing: ['Paused', 'Question', 'MissionComplete', 'GameOver', 'LoggedOut'],
+  Paused: ['Playing', 'LoggedOut'],
+  Question: ['Playing', 'LoggedOut'],
+  MissionComplete: ['Playing', 'LoggedOut'],
+  GameOver: ['Playing', 'LoggedOut'],
+};
+
+// Called once per animation frame while Playing
+export type FrameHandler = (deltaTime: number, timestamp: number) => void;
+
+export class GameStateMachine {
+  private state: GameState = 'Loading';
+  private onFrame: FrameHandler;
+  private events: EventBus<GameEventMap>;
+  private frameId: number | null = null;
+  private lastFrameTime: number | null = null;
+  private timers: Set<ReturnType<typeof setTimeout>> = new Set();
+
+  constructor(onFrame: FrameHandler, events: EventBus<GameEventMap> = gameEvents) {
+    this.onFrame = onFrame;
+    this.events = events;
+  }
+
+  getState(): GameState {
+    return this.state;
+  }
+
+  is(...states: GameState[]): boolean {
+    return states.includes(this.state);
+  }
+
+  canTransition(to: GameState): boolean {
+    return TRANSITIONS[this.state].includes(to);
+  }
+
+  // Move to another state, returns false (and stays put) if that is not allowed
+  transition(to: GameState): boolean {
+    if (to === this.state) return true;
+    if (!this.canTransition(to)) {
+      console.warn(`Ignoring game state change ${this.state} -> ${to}`);
+      return false;
+    }
+
+    const from = this.state;
+    this.state = to;
+    this.clearTimers();
+    if (to === 'Playing') {
+      this.startLoop();
+    } else {
+      this.stopLoop();
+    }
+    this.events.emit('GameStateChanged', { from, to });
+    return true;
+  }
+
+  // setTimeout that is cancelled when the state changes
+  setTimer(callback: () => void, delay: number): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      callback();
+    }, delay);
+    this.timers.add(timer);
+  }
+
+  private clearTimers(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  private startLoop(): void {
+    if (this.frameId !== null) return;
+    // The first frame after a pause moves nothing
+    this.lastFrameTime = null;
+    this.frameId = requestAnimationFrame(this.frame);
+  }
+
+  private stopLoop(): void {
+    if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+    this.frameId = null;
+  }
+
+  private frame = (timestamp: number): void => {
+    this.frameId = null;
+    const deltaTime = this.lastFrameTime === null ? 0 : (timestamp - this.lastFrameTime) / 1000;
+    this.lastFrameTime = timestamp;
+
+    this.onFrame(deltaTime, timestamp);
+
+    // The frame handler may have left Playing (e.g. a question was asked)
+    if (this.state === 'Playing' && this.frameId === null) {
+      this.frameId = requestAnimationFrame(this.frame);
+    }
+  };
+}
@@ -0,0 +1,92 @@
+import { CONFIG } from '../config';
+import { VehicleInput } from './VehiclePhysics';
+import { InputSource } from './InputManager';
+
+// A pedal can be an analog trigger button or an axis
+export interface GamepadControl {
+  type: 'button' | 'axis';
+  index: number;
+  invert?: boolean; // Axis only: use the negative half (e.g. stick up)
+}
+
+export interface GamepadMapping {
+  steeringAxis: number;
+  invertSteering: boolean;
+  throttle: GamepadControl;
+  brake: GamepadControl;
+  deadzone: number; // Ignore stick movement below this (0..1)
+}
+
+export const CONFIGURED_GAMEPAD_MAPPING: GamepadMapping = {
+  steeringAxis: CONFIG.INPUT.GAMEPAD.STEERING_AXIS,
+  invertSteering: CONFIG.INPUT.GAMEPAD.INVERT_STEERING,
+  throttle: CONFIG.INPUT.GAMEPAD.THROTTLE,
+  brake: CONFIG.INPUT.GAMEPAD.BRAKE,
+  deadzone: CONFIG.INPUT.GAMEPAD.DEADZONE,
+};
+
+/**
+ * Gamepad Input
+ * Analog steering and pedals from the first connected gamepad
+ */
+export class GamepadInput implements InputSource {
+  readonly name = 'gamepad';
+  private mapping: GamepadMapping;
+  private gamepadIndex: number | null = null;
+
+  constructor(mapping: GamepadMapping = CONFIGURED_GAMEPAD_MAPPING) {
+    this.mapping = mapping;
+
+    window.addEventListener('gamepadconnected', (event) => {
+      if (this.gamepadIndex === null) this.gamepadIndex = event.gamepad.index;
+    });
+    window.addEventListener('gamepaddisconnected', (event) => {
+      if (event.gamepad.index === this.gamepadIndex) this.gamepadIndex = null;
+    });
+  }
+
+  setMapping(mapping: GamepadMapping): void {
+    this.mapping = mapping;
+  }
+
+  getMapping(): GamepadMapping {
+    return this.mapping;
+  }
+
+  isConnected(): boolean {
+    return this.getGamepad() !== null;
+  }
+
+  private getGamepad(): Gamepad | null {
+    if (this.gamepadIndex === null || typeof navigator.getGamepads !== 'function') return null;
+    // Gamepad objects are snapshots in some browsers, fetch a fresh one every frame
+    return navigator.getGamepads()[this.gamepadIndex] || null;
+  }
+
+  // Rescale so input starts at 0 just outside the deadzone
+  private applyDeadzone(value: number): number {
+    const magnitude = Math.abs(value);
+    if (magnitude < this.mapping.deadzone) return 0;
+    return Math.sign(value) * (magnitude - this.mapping.deadzone) / (1 - this.mapping.deadzone);
+  }
+
+  private readControl(gamepad: Gamepad, control: GamepadControl): number {
+    if (control.type === 'button') {
+      return gamepad.buttons[control.index]?.value ?? 0;
+    }
+    const value = this.applyDeadzone(gamepad.axes[control.index] ?? 0);
+    return Math.max(0, control.invert ? -value : value);
+  }
+
+  read(): VehicleInput | null {
+    const gamepad = this.getGamepad();
+    if (!gamepad) return null;
+
+    const steering = this.applyDeadzone(gamepad.axes[this.mapping.steeringAxis] ?? 0);
+    return {
+      throttle: this.readControl(gamepad, this.mapping.throttle),
+      brake: this.readControl(gamepad, this.mapping.brake),
+      steering: this.mapping.invertSteering ? -steering : steering,
+    };
+  }
+}
@@ -0,0 +1,277 @@
+import { CONFIG } from '../config';
+import { RoadProvider, RoadSegmentInfo, Intersection, MPH_TO_MPS, KMH_TO_MPS } from './RoadProvider';
+import { LatLng, distanceToSegment, toLocalMeters } from './RoadGeometry';
+
+// oneway is null when the way has no OSM tags to tell
+type RoadSegment = { a: LatLng; b: LatLng; speedLimit: number | null; lanes: number | null; oneway: boolean | null };
+
+// Tags of a way that apply to all of its segments
+type WayTags = { speedLimit: number | null; lanes: number | null; oneway: 'no' | 'forward' | 'backward' | 'unknown' };
+
+/**
+ * Offline road provider backed by a local GeoJSON road network
+ * (for example an OSM extract converted with osmtogeojson). Segments are
+ * bucketed into a uniform grid so lookups only test nearby roads.
+ */
+export class GeoJsonRoadProvider implements RoadProvider {
+  readonly name = 'Local Road Network';
+
+  private url: string;
+  private roadTolerance: number = CONFIG.ROADS_API.ROAD_TOLERANCE;
+  private cellSize: number = CONFIG.ROADS_API.GEOJSON_CELL_SIZE;
+  private grid: Map<string, RoadSegment[]> = new Map();
+  private segmentCount: number = 0;
+  // Number of segments ending at each vertex, keyed by rounded position
+  private nodeDegrees: Map<string, { position: LatLng; degree: number }> = new Map();
+  private intersectionGrid: Map<string, Intersection[]> = new Map();
+  private loadPromise: Promise<void> | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  // Fetch and index the road network (only once)
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.fetchNetwork().catch(error => {
+        // Allow a later call to retry the download
+        this.loadPromise = null;
+        throw error;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  private async fetchNetwork(): Promise<void> {
+    const response = await fetch(this.url);
+    if (!response.ok) {
+      throw new Error(`Road network download failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    this.indexFeatures(data);
+
+    if (CONFIG.ROADS_API.DEBUG_MODE) {
+      console.log(`Road network loaded from ${this.url}: ${this.segmentCount} segments in ${this.grid.size} cells`);
+    }
+  }
+
+  // Add every drivable line in a FeatureCollection to the spatial index
+  indexFeatures(data: any): void {
+    if (!data || !Array.isArray(data.features)) {
+      throw new Error('Road network is not a GeoJSON FeatureCollection');
+    }
+
+    data.features.forEach((feature: any) => {
+      const geometry = feature?.geometry;
+      if (!geometry || !this.isDrivable(feature.properties)) return;
+
+      const tags: WayTags = {
+        speedLimit: this.parseSpeedLimit(feature.properties?.maxspeed),
+        lanes: this.parseLanes(feature.properties?.lanes),
+        oneway: this.parseOneway(feature.properties),
+      };
+      if (geometry.type === 'LineString') {
+        this.indexLine(geometry.coordinates, tags);
+      } else if (geometry.type === 'MultiLineString') {
+        geometry.coordinates.forEach((line: number[][]) => this.indexLine(line, tags));
+      }
+    });
+
+    this.indexIntersections();
+  }
+
+  // Vertices where three or more segments meet are intersections
+  private indexIntersections(): void {
+    this.intersectionGrid.clear();
+    this.nodeDegrees.forEach(({ position, degree }, id) => {
+      if (degree < 3) return;
+
+      const key = `${this.toCell(position.lat)},${this.toCell(position.lng)}`;
+      const intersection = { id, lat: position.lat, lng: position.lng };
+      const bucket = this.intersectionGrid.get(key);
+      if (bucket) {
+        bucket.push(intersection);
+      } else {
+        this.intersectionGrid.set(key, [intersection]);
+      }
+    });
+  }
+
+  private countNode(position: LatLng): void {
+    const id = `${position.lat.toFixed(7)},${position.lng.toFixed(7)}`;
+    const node = this.nodeDegrees.get(id);
+    if (node) {
+      node.degree++;
+    } else {
+      this.nodeDegrees.set(id, { position, degree: 1 });
+    }
+  }
+
+  // Skip footpaths and similar ways when the extract carries OSM tags
+  private isDrivable(properties: any): boolean {
+    const highway = properties?.highway;
+    if (!highway) return true;
+    return !CONFIG.ROADS_API.GEOJSON_EXCLUDED_HIGHWAYS.includes(highway);
+  }
+
+  // OSM maxspeed tags: "25 mph", "50" (km/h by default) or "none"
+  private parseSpeedLimit(maxspeed: unknown): number | null {
+    if (typeof maxspeed === 'number') return maxspeed * KMH_TO_MPS;
+    if (typeof maxspeed !== 'string') return null;
+
+    const match = maxspeed.trim().match(/^(\d+(?:\.\d+)?)\s*(mph|km\/h|kmh)?$/i);
+    if (!match) return null;
+    const value = parseFloat(match[1]);
+    return match[2]?.toLowerCase() === 'mph' ? value * MPH_TO_MPS : value * KMH_TO_MPS;
+  }
+
+  // OSM lanes tag, the total over both directions
+  private parseLanes(lanes: unknown): number | null {
+    const count = typeof lanes === 'number' ? lanes : parseInt(String(lanes), 10);
+    return Number.isInteger(count) && count > 0 ? count : null;
+  }
+
+  // OSM oneway tag; roundabouts and motorways are one-way without it, and
+  // other highways two-way. Lines without any OSM tags could be either
+  private parseOneway(properties: any): WayTags['oneway'] {
+    const oneway = String(properties?.oneway ?? '').toLowerCase();
+    if (oneway === '-1' || oneway === 'reverse') return 'backward';
+    if (oneway === 'yes' || oneway === 'true' || oneway === '1') return 'forward';
+    if (oneway === 'no') return 'no';
+    if (properties?.junction === 'roundabout' || properties?.highway === 'motorway') return 'forward';
+    return properties?.highway ? 'no' : 'unknown';
+  }
+
+  private indexLine(coordinates: number[][], tags: WayTags): void {
+    for (let i = 1; i < coordinates.length; i++) {
+      // GeoJSON positions are [lng, lat]
+      let a = { lat: coordinates[i - 1][1], lng: coordinates[i - 1][0] };
+      let b = { lat: coordinates[i][1], lng: coordinates[i][0] };
+      // Segments of one-way roads point the way traffic may drive
+      if (tags.oneway === 'backward') [a, b] = [b, a];
+      this.insertSegment({ a, b, speedLimit: tags.speedLimit, lanes: tags.lanes, oneway: tags.oneway === 'unknown' ? null : tags.oneway !== 'no' });
+      this.countNode(a);
+      this.countNode(b);
+    }
+  }
+
+  // Register a segment in every grid cell its bounding box touches
+  private insertSegment(segment: RoadSegment): void {
+    const minRow = this.toCell(Math.min(segment.a.lat, segment.b.lat));
+    const maxRow = this.toCell(Math.max(segment.a.lat, segment.b.lat));
+    const minCol = this.toCell(Math.min(segment.a.lng, segment.b.lng));
+    const maxCol = this.toCell(Math.max(segment.a.lng, segment.b.lng));
+
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let col = minCol; col <= maxCol; col++) {
+        const key = `${row},${col}`;
+        const bucket = this.grid.get(key);
+        if (bucket) {
+          bucket.push(segment);
+        } else {
+          this.grid.set(key, [segment]);
+        }
+      }
+    }
+    this.segmentCount++;
+  }
+
+  private toCell(degrees: number): number {
+    return Math.floor(degrees / this.cellSize);
+  }
+
+  // Distance in meters to the closest indexed road, or Infinity if none is
+  // within the neighbouring grid cells
+  distanceToNearestRoad(lat: number, lng: number): number {
+    return this.findNearestSegment(lat, lng).distance;
+  }
+
+  private findNearestSegment(lat: number, lng: number): { segment: RoadSegment | null; distance: number } {
+    const row = this.toCell(lat);
+    const col = this.toCell(lng);
+    const point = { lat, lng };
+    const seen = new Set<RoadSegment>();
+    let nearest: RoadSegment | null = null;
+    let nearestDistance = Infinity;
+
+    for (let r = row - 1; r <= row + 1; r++) {
+      for (let c = col - 1; c <= col + 1; c++) {
+        const bucket = this.grid.get(`${r},${c}`);
+        if (!bucket) continue;
+
+        bucket.forEach(segment => {
+          if (seen.has(segment)) return;
+          seen.add(segment);
+          const distance = distanceToSegment(point, segment.a, segment.b);
+          if (distance < nearestDistance) {
+            nearest = segment;
+            nearestDistance = distance;
+          }
+        });
+      }
+    }
+
+    return { segment: nearest, distance: nearestDistance };
+  }
+
+  // Closest road within tolerance with its direction and lanes, null until
+  // loaded or when the road's direction is not known
+  getRoadSegment(lat: number, lng: number): RoadSegmentInfo | null {
+    const { segment, distance } = this.findNearestSegment(lat, lng);
+    if (!segment || distance > this.roadTolerance || segment.oneway === null) return null;
+    return { a: segment.a, b: segment.b, lanes: segment.lanes, oneway: segment.oneway };
+  }
+
+  // Intersections within radius meters (limited to the neighbouring cells)
+  findIntersections(lat: number, lng: number, radius: number): Intersection[] {
+    const row = this.toCell(lat);
+    const col = this.toCell(lng);
+    const point = { lat, lng };
+    const found: Intersection[] = [];
+
+    for (let r = row - 1; r <= row + 1; r++) {
+      for (let c = col - 1; c <= col + 1; c++) {
+        (this.intersectionGrid.get(`${r},${c}`) || []).forEach(intersection => {
+          const offset = toLocalMeters(point, intersection);
+          if (Math.hypot(offset.x, offset.y) <= radius) found.push(intersection);
+        });
+      }
+    }
+
+    return found;
+  }
+
+  async isOnRoad(lat: number, lng: number): Promise<boolean> {
+    await this.load();
+
+    // No per-query logging here, this runs every frame without any cache
+    return this.distanceToNearestRoad(lat, lng) <= this.roadTolerance;
+  }
+
+  // maxspeed of the closest road within tolerance, if the extract has one
+  async getSpeedLimit(lat: number, lng: number): Promise<number | null> {
+    await this.load();
+
+    const { segment, distance } = this.findNearestSegment(lat, lng);
+    if (!segment || distance > this.roadTolerance) return null;
+    return segment.speedLimit;
+  }
+
+  // Adjust road tolerance (how close you need to be to a road)
+  setRoadTolerance(tolerance: number): void {
+    this.roadTolerance = tolerance;
+  }
+
+  getRoadTolerance(): number {
+    return this.roadTolerance;
+  }
+
+  // Every lookup is answered from the local index
+  getCacheStats(): { size: number; hitRate: number } {
+    return {
+      size: this.segmentCount,
+      hitRate: this.segmentCount > 0 ? 1 : 0
+    };
+  }
+}
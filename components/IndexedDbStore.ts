@@ -0,0 +1,89 @@
+/**
+ * IndexedDB Store
+ * Minimal promise wrapper around a single IndexedDB object store
+ */
+
+export class IndexedDbStore<T> {
+  private dbName: string;
+  private storeName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName: string, storeName: string) {
+    this.dbName = dbName;
+    this.storeName = storeName;
+  }
+
+  // Whether the current environment has IndexedDB at all
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          // Out-of-line keys: auto-increment unless the caller passes one
+          request.result.createObjectStore(this.storeName, { autoIncrement: true });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<R>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = action(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  // Store a value, returns its key
+  put(value: T, key?: IDBValidKey): Promise<IDBValidKey> {
+    return this.run('readwrite', store => store.put(value, key));
+  }
+
+  get(key: IDBValidKey): Promise<T | undefined> {
+    return this.run('readonly', store => store.get(key));
+  }
+
+  // All entries with their keys, in key order
+  async entries(): Promise<{ key: IDBValidKey; value: T }[]> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const results: { key: IDBValidKey; value: T }[] = [];
+      const transaction = db.transaction(this.storeName, 'readonly');
+      const request = transaction.objectStore(this.storeName).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          results.push({ key: cursor.primaryKey, value: cursor.value });
+          cursor.continue();
+        }
+      };
+      transaction.oncomplete = () => resolve(results);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async delete(key: IDBValidKey): Promise<void> {
+    await this.run('readwrite', store => store.delete(key));
+  }
+
+  count(): Promise<number> {
+    return this.run('readonly', store => store.count());
+  }
+
+  async clear(): Promise<void> {
+    await this.run('readwrite', store => store.clear());
+  }
+}
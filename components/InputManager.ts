@@ -0,0 +1,56 @@
+import { VehicleInput, NO_INPUT } from './VehiclePhysics';
+
+/**
+ * Input Manager
+ * Combines any number of input sources (keyboard, gamepad, touch) into one
+ * analog VehicleInput for the physics.
+ */
+
+export interface InputSource {
+  readonly name: string;
+  // Current input, or null while the source has nothing to say
+  read(): VehicleInput | null;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export class InputManager {
+  private sources: InputSource[] = [];
+  private lastActive: string | null = null;
+
+  addSource(source: InputSource): void {
+    this.sources.push(source);
+  }
+
+  getSources(): InputSource[] {
+    return this.sources;
+  }
+
+  // Strongest pedal from any source, steering from whichever source steers hardest
+  read(): VehicleInput {
+    let combined: VehicleInput = NO_INPUT;
+
+    for (const source of this.sources) {
+      const input = source.read();
+      if (!input) continue;
+
+      if (input.throttle > 0 || input.brake > 0 || input.steering !== 0) this.lastActive = source.name;
+      combined = {
+        throttle: Math.max(combined.throttle, input.throttle),
+        brake: Math.max(combined.brake, input.brake),
+        steering: Math.abs(input.steering) > Math.abs(combined.steering) ? input.steering : combined.steering,
+      };
+    }
+
+    return {
+      throttle: clamp(combined.throttle, 0, 1),
+      brake: clamp(combined.brake, 0, 1),
+      steering: clamp(combined.steering, -1, 1),
+    };
+  }
+
+  // Name of the source that last produced input, e.g. for showing control hints
+  getLastActiveSource(): string | null {
+    return this.lastActive;
+  }
+}
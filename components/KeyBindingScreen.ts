@@ -0,0 +1,166 @@
+import { CONFIG } from '../config';
+import { KeyboardInput, KeyBindings, InputAction, INPUT_ACTIONS, DEFAULT_KEY_BINDINGS, saveKeyBindings } from './KeyboardInput';
+
+const ACTION_LABELS: Record<InputAction, string> = {
+  accelerate: 'GAS',
+  brake: 'BRAKE / REVERSE',
+  left: 'STEER LEFT',
+  right: 'STEER RIGHT',
+};
+const SLOTS_PER_ACTION = 2;
+// Keys the game uses outside of driving, which cannot be bound, and what they do
+const RESERVED_KEYS: Record<string, string> = {
+  [CONFIG.CAMERA.SWITCH_KEY]: 'SWITCHES THE CAMERA',
+};
+
+/**
+ * Game Boy style screen for rebinding the driving keys. Click a slot, then
+ * press the new key (Esc cancels). Choices are saved in localStorage.
+ */
+export class KeyBindingScreen {
+  private screen: HTMLElement;
+  private list: HTMLElement | null;
+  private keyboard: KeyboardInput;
+  private bindings: KeyBindings;
+  private listening: { action: InputAction; slot: number } | null = null;
+
+  constructor(keyboard: KeyboardInput) {
+    this.keyboard = keyboard;
+    this.bindings = keyboard.getBindings();
+    this.screen = this.createScreen();
+    this.list = this.screen.querySelector('#key-binding-list');
+
+    // Capture phase, so the key does not also reach the game
+    document.addEventListener('keydown', (event) => this.captureKey(event), true);
+  }
+
+  private createScreen(): HTMLElement {
+    const screen = document.createElement('div');
+    screen.id = 'key-binding-screen';
+    screen.className = 'gameboy-screen';
+    screen.style.cssText = `
+      position: fixed;
+      inset: 0;
+      background-color: rgba(0, 0, 0, 0.9);
+      display: none;
+      justify-content: center;
+      align-items: center;
+      z-index: 1500;
+      font-family: 'Press Start 2P', monospace;
+    `;
+    screen.innerHTML = `
+      <div class="gameboy-dialog" style="background: #ffffff; padding: 20px; border: 4px solid #000000; text-align: center; width: 90%; max-width: 440px; box-shadow: 8px 8px 0px #000000;">
+        <h2 style="font-size: 12px; margin: 0 0 16px;">CONTROLS</h2>
+        <div id="key-binding-list" style="display: grid; gap: 8px; font-size: 8px; text-align: left;"></div>
+        <p id="key-binding-hint" style="font-size: 6px; margin: 12px 0 0; line-height: 1.6;">CLICK A KEY TO CHANGE IT</p>
+        <div style="display: flex; justify-content: center; gap: 10px; margin-top: 16px;">
+          <button id="key-binding-reset" class="gameboy-button">DEFAULTS</button>
+          <button id="key-binding-close" class="gameboy-button">BACK</button>
+        </div>
+      </div>
+    `;
+    document.body.appendChild(screen);
+
+    screen.querySelector('#key-binding-reset')?.addEventListener('click', () => {
+      this.apply({ ...DEFAULT_KEY_BINDINGS });
+    });
+    screen.querySelector('#key-binding-close')?.addEventListener('click', () => this.hide());
+    return screen;
+  }
+
+  show(): void {
+    this.bindings = this.keyboard.getBindings();
+    this.keyboard.setEnabled(false);
+    this.render();
+    this.screen.style.display = 'flex';
+  }
+
+  hide(): void {
+    this.listening = null;
+    this.keyboard.setEnabled(true);
+    this.screen.style.display = 'none';
+  }
+
+  private render(): void {
+    if (!this.list) return;
+    this.list.innerHTML = '';
+
+    INPUT_ACTIONS.forEach(action => {
+      const row = document.createElement('div');
+      row.style.cssText = 'display: flex; align-items: center; justify-content: space-between; gap: 8px;';
+
+      const label = document.createElement('span');
+      label.textContent = ACTION_LABELS[action];
+      row.appendChild(label);
+
+      const slots = document.createElement('span');
+      slots.style.cssText = 'display: flex; gap: 6px;';
+      for (let slot = 0; slot < SLOTS_PER_ACTION; slot++) {
+        const button = document.createElement('button');
+        button.className = 'gameboy-button';
+        button.style.cssText = 'font-size: 6px; padding: 6px 8px; min-width: 72px;';
+        const waiting = this.listening?.action === action && this.listening.slot === slot;
+        button.textContent = waiting ? '...' : this.formatKey(this.bindings[action][slot]);
+        button.addEventListener('click', () => {
+          this.listening = { action, slot };
+          this.setHint('PRESS A KEY, ESC TO CANCEL');
+          this.render();
+        });
+        slots.appendChild(button);
+      }
+      row.appendChild(slots);
+      this.list?.appendChild(row);
+    });
+  }
+
+  private captureKey(event: KeyboardEvent): void {
+    if (!this.listening) return;
+    event.preventDefault();
+    event.stopPropagation();
+
+    const key = event.key.toLowerCase();
+    const { action, slot } = this.listening;
+    this.listening = null;
+
+    if (key === 'escape') {
+      this.setHint('CLICK A KEY TO CHANGE IT');
+      this.render();
+      return;
+    }
+    if (RESERVED_KEYS[key]) {
+      this.setHint(`${this.formatKey(key)} ${RESERVED_KEYS[key]}, PICK ANOTHER`);
+      this.render();
+      return;
+    }
+
+    // A key can only drive one action, take it away from wherever it was
+    const bindings: KeyBindings = { ...this.bindings };
+    INPUT_ACTIONS.forEach(other => {
+      bindings[other] = bindings[other].filter(bound => bound !== key);
+    });
+    const keys = [...bindings[action]];
+    keys.splice(Math.min(slot, keys.length), slot < keys.length ? 1 : 0, key);
+    bindings[action] = keys.slice(0, SLOTS_PER_ACTION);
+
+    this.apply(bindings);
+    this.setHint(`${ACTION_LABELS[action]} = ${this.formatKey(key)}`);
+  }
+
+  private apply(bindings: KeyBindings): void {
+    this.bindings = bindings;
+    this.keyboard.setBindings(bindings);
+    saveKeyBindings(bindings);
+    this.render();
+  }
+
+  private setHint(text: string): void {
+    const hint = this.screen.querySelector('#key-binding-hint');
+    if (hint) hint.textContent = text;
+  }
+
+  private formatKey(key: string | undefined): string {
+    if (!key) return '-';
+    if (key === ' ') return 'SPACE';
+    return key.replace(/^arrow/, '').toUpperCase();
+  }
+}
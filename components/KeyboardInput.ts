@@ -0,0 +1,101 @@
+import { VehicleInput } from './VehiclePhysics';
+import { InputSource } from './InputManager';
+
+export type InputAction = 'accelerate' | 'brake' | 'left' | 'right';
+export const INPUT_ACTIONS: InputAction[] = ['accelerate', 'brake', 'left', 'right'];
+
+// Keys are KeyboardEvent.key values in lower case
+export type KeyBindings = Record<InputAction, string[]>;
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  accelerate: ['arrowup', 'w'],
+  brake: ['arrowdown', 's'],
+  left: ['arrowleft', 'a'],
+  right: ['arrowright', 'd'],
+};
+
+const BINDINGS_KEY = 'dura-key-bindings';
+
+// Saved bindings, falling back to the defaults for anything missing
+export function loadKeyBindings(storage: Storage = window.localStorage): KeyBindings {
+  try {
+    const saved = JSON.parse(storage.getItem(BINDINGS_KEY) || '{}');
+    const bindings = { ...DEFAULT_KEY_BINDINGS };
+    INPUT_ACTIONS.forEach(action => {
+      if (Array.isArray(saved[action]) && saved[action].every((key: unknown) => typeof key === 'string')) {
+        bindings[action] = saved[action];
+      }
+    });
+    return bindings;
+  } catch (error) {
+    console.warn('Could not load key bindings:', error);
+    return { ...DEFAULT_KEY_BINDINGS };
+  }
+}
+
+export function saveKeyBindings(bindings: KeyBindings, storage: Storage = window.localStorage): void {
+  try {
+    storage.setItem(BINDINGS_KEY, JSON.stringify(bindings));
+  } catch (error) {
+    console.warn('Could not save key bindings:', error);
+  }
+}
+
+/**
+ * Keyboard Input
+ * Digital throttle, brake and steering from rebindable keys
+ */
+export class KeyboardInput implements InputSource {
+  readonly name = 'keyboard';
+  private bindings: KeyBindings;
+  private keysPressed: Set<string> = new Set();
+  private enabled: boolean = true;
+
+  constructor(bindings: KeyBindings = DEFAULT_KEY_BINDINGS, target: Document = document) {
+    this.bindings = bindings;
+
+    target.addEventListener('keydown', (event) => {
+      if (!this.enabled) return;
+      const key = event.key.toLowerCase();
+      // Keep bound keys from scrolling the page
+      if (this.isBound(key)) event.preventDefault();
+      this.keysPressed.add(key);
+    });
+    target.addEventListener('keyup', (event) => {
+      this.keysPressed.delete(event.key.toLowerCase());
+    });
+    // Keys released while the window is in the background never send keyup
+    window.addEventListener('blur', () => this.keysPressed.clear());
+  }
+
+  getBindings(): KeyBindings {
+    return this.bindings;
+  }
+
+  setBindings(bindings: KeyBindings): void {
+    this.bindings = bindings;
+    this.keysPressed.clear();
+  }
+
+  // Turn off while another screen (e.g. key rebinding) captures the keyboard
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    if (!enabled) this.keysPressed.clear();
+  }
+
+  private isBound(key: string): boolean {
+    return INPUT_ACTIONS.some(action => this.bindings[action].includes(key));
+  }
+
+  private isPressed(action: InputAction): boolean {
+    return this.bindings[action].some(key => this.keysPressed.has(key));
+  }
+
+  read(): VehicleInput {
+    return {
+      throttle: this.isPressed('accelerate') ? 1 : 0,
+      brake: this.isPressed('brake') ? 1 : 0,
+      steering: (this.isPressed('right') ? 1 : 0) - (this.isPressed('left') ? 1 : 0),
+    };
+  }
+}
@@ -0,0 +1,65 @@
+import { CONFIG } from '../config';
+import { RoadSegmentInfo } from './RoadProvider';
+import { LatLng, toLocalMeters } from './RoadGeometry';
+
+/**
+ * Lane Position
+ * Where the car is across the road: its offset from the centreline of the
+ * nearest segment, which lane that puts it in and whether it is on the
+ * correct side. Two-way roads split their lanes between both directions
+ * at the centreline; on one-way roads the centreline is the middle of the
+ * road and every lane runs in the permitted direction.
+ */
+
+// inLane: between the lines of a lane on the correct side,
+// straddling: on a lane line or over the edge of the road,
+// wrongSide: across the centre line or against a one-way street
+export type LaneStatus = 'inLane' | 'straddling' | 'wrongSide';
+
+export interface LanePosition {
+  offset: number; // Meters from the centreline, positive towards the side traffic keeps to
+  lane: number; // 1 is the lane next to the centre line (leftmost on one-way roads in the US)
+  lanes: number; // Lanes in the direction of travel
+  status: LaneStatus;
+}
+
+// travelHeading is the compass direction the car moves in, which is
+// opposite to where it faces when reversing
+export function measureLanePosition(point: LatLng, travelHeading: number, segment: RoadSegmentInfo): LanePosition | null {
+  const end = toLocalMeters(segment.a, segment.b);
+  const length = Math.hypot(end.x, end.y);
+  if (length === 0) return null;
+
+  const { DRIVE_ON, WIDTH, DEFAULT_COUNT, LINE_MARGIN } = CONFIG.LANES;
+  const headingRad = travelHeading * Math.PI / 180;
+  let direction = { x: end.x / length, y: end.y / length };
+  const along = direction.x * Math.sin(headingRad) + direction.y * Math.cos(headingRad);
+
+  // Measure two-way roads in the direction the car drives
+  if (!segment.oneway && along < 0) direction = { x: -direction.x, y: -direction.y };
+
+  const position = toLocalMeters(segment.a, point);
+  const toRight = position.x * direction.y - position.y * direction.x;
+  const offset = DRIVE_ON === 'right' ? toRight : -toRight;
+
+  const totalLanes = segment.lanes ?? DEFAULT_COUNT;
+  const lanes = segment.oneway ? Math.max(1, totalLanes) : Math.max(1, Math.floor(totalLanes / 2));
+  // Distance from the inner edge of the car's lanes: the centre line, or the
+  // left edge of a one-way road where traffic keeps right
+  const fromInnerEdge = segment.oneway ? offset + lanes * WIDTH / 2 : offset;
+  const lane = Math.min(lanes, Math.max(1, Math.floor(fromInnerEdge / WIDTH) + 1));
+
+  let status: LaneStatus = 'inLane';
+  if (segment.oneway ? along < 0 : fromInnerEdge < -LINE_MARGIN) {
+    status = 'wrongSide';
+  } else {
+    // Lines between the lanes, plus the inner and outer edges
+    const nearestLine = Math.min(lanes, Math.max(0, Math.round(fromInnerEdge / WIDTH)));
+    const outsideLanes = fromInnerEdge < 0 || fromInnerEdge > lanes * WIDTH;
+    if (outsideLanes || Math.abs(fromInnerEdge - nearestLine * WIDTH) <= LINE_MARGIN) {
+      status = 'straddling';
+    }
+  }
+
+  return { offset, lane, lanes, status };
+}
@@ -0,0 +1,149 @@
+import { PlayerStore, LeaderboardPeriod, LEADERBOARD_PERIODS, getAccuracy } from './PlayerStore';
+
+type LeaderboardView = LeaderboardPeriod | 'history';
+
+const VIEW_LABELS: Record<LeaderboardView, string> = {
+  'daily': 'TODAY',
+  'weekly': 'WEEK',
+  'all-time': 'ALL',
+  'history': 'MINE',
+};
+
+/**
+ * Game Boy style leaderboard screen with daily, weekly and all-time rankings
+ * plus the player's own recent sessions
+ */
+export class LeaderboardScreen {
+  private screen: HTMLElement;
+  private table: HTMLElement | null;
+  private tabs: Map<LeaderboardView, HTMLButtonElement> = new Map();
+  private store: PlayerStore;
+  private size: number;
+  private playerId: string = 'anonymous';
+  private view: LeaderboardView = 'daily';
+
+  constructor(store: PlayerStore, size: number) {
+    this.store = store;
+    this.size = size;
+    this.screen = this.createScreen();
+    this.table = this.screen.querySelector('#leaderboard-table');
+  }
+
+  private createScreen(): HTMLElement {
+    const screen = document.createElement('div');
+    screen.id = 'leaderboard-screen';
+    screen.className = 'gameboy-screen';
+    screen.style.cssText = `
+      position: fixed;
+      inset: 0;
+      background-color: rgba(0, 0, 0, 0.9);
+      display: none;
+      justify-content: center;
+      align-items: center;
+      z-index: 1500;
+      font-family: 'Press Start 2P', monospace;
+    `;
+    screen.innerHTML = `
+      <div class="gameboy-dialog" style="background: #ffffff; padding: 20px; border: 4px solid #000000; text-align: center; width: 90%; max-width: 520px; box-shadow: 8px 8px 0px #000000;">
+        <h2 style="font-size: 12px; margin: 0 0 16px;">LEADERBOARD</h2>
+        <div id="leaderboard-tabs" style="display: flex; justify-content: center; gap: 6px; margin-bottom: 12px;"></div>
+        <div id="leaderboard-table" style="font-size: 8px; line-height: 1.8; text-align: left; min-height: 120px;"></div>
+        <button id="leaderboard-close" class="gameboy-button" style="margin-top: 16px;">BACK</button>
+      </div>
+    `;
+    document.body.appendChild(screen);
+
+    const tabs = screen.querySelector('#leaderboard-tabs');
+    [...LEADERBOARD_PERIODS, 'history' as const].forEach(view => {
+      const tab = document.createElement('button');
+      tab.className = 'gameboy-button';
+      tab.style.cssText = 'font-size: 6px; padding: 6px 8px;';
+      tab.textContent = VIEW_LABELS[view];
+      tab.addEventListener('click', () => this.showView(view));
+      tabs?.appendChild(tab);
+      this.tabs.set(view, tab);
+    });
+
+    screen.querySelector('#leaderboard-close')?.addEventListener('click', () => this.hide());
+    return screen;
+  }
+
+  // Open the screen, highlighting the given player's rows
+  show(playerId: string): void {
+    this.playerId = playerId;
+    this.screen.style.display = 'flex';
+    this.showView(this.view);
+  }
+
+  hide(): void {
+    this.screen.style.display = 'none';
+  }
+
+  private async showView(view: LeaderboardView): Promise<void> {
+    this.view = view;
+    this.tabs.forEach((tab, tabView) => {
+      // Selected tab is drawn inverted
+      tab.style.background = tabView === view ? '#000000' : '#ffffff';
+      tab.style.color = tabView === view ? '#ffffff' : '#000000';
+    });
+    if (!this.table) return;
+    this.table.textContent = 'LOADING...';
+
+    try {
+      const rows = view === 'history' ? await this.historyRows() : await this.rankingRows(view);
+      // Another tab may have been picked while loading
+      if (this.view !== view) return;
+      this.table.innerHTML = rows.length > 0 ? this.renderTable(rows) : 'NO SCORES YET!';
+    } catch (error) {
+      console.warn('Could not load leaderboard:', error);
+      if (this.view === view) this.table.textContent = 'LEADERBOARD OFFLINE';
+    }
+  }
+
+  private async rankingRows(period: LeaderboardPeriod): Promise<string[][]> {
+    const entries = await this.store.getLeaderboard(period, this.size);
+    return entries.map(entry => [
+      `${entry.playerId === this.playerId ? '>' : ''}${entry.rank}`,
+      entry.nickname.toUpperCase().slice(0, 10),
+      entry.score.toLocaleString(),
+      `${Math.round(entry.distance)}M`,
+      this.formatAccuracy(entry.accuracy),
+    ]);
+  }
+
+  private async historyRows(): Promise<string[][]> {
+    const history = await this.store.getHistory(this.playerId, this.size);
+    return history.map(result => [
+      new Date(result.endedAt).toLocaleDateString(undefined, { month: '2-digit', day: '2-digit' }),
+      `${Math.round(result.duration / 60)}MIN`,
+      result.score.toLocaleString(),
+      `${Math.round(result.distance)}M`,
+      this.formatAccuracy(getAccuracy(result)),
+    ]);
+  }
+
+  private formatAccuracy(accuracy: number | null): string {
+    return accuracy === null ? '-' : `${Math.round(accuracy * 100)}%`;
+  }
+
+  private renderTable(rows: string[][]): string {
+    const header = this.view === 'history'
+      ? ['DATE', 'TIME', 'SCORE', 'DIST', 'QUIZ']
+      : ['#', 'DRIVER', 'SCORE', 'DIST', 'QUIZ'];
+    const cell = (text: string, tag: string) => `<${tag} style="padding: 2px 4px;">${this.escape(text)}</${tag}>`;
+
+    return `
+      <table style="width: 100%; border-collapse: collapse;">
+        <tr style="border-bottom: 2px solid #000000;">${header.map(text => cell(text, 'th')).join('')}</tr>
+        ${rows.map(row => `<tr>${row.map(text => cell(text, 'td')).join('')}</tr>`).join('')}
+      </table>
+    `;
+  }
+
+  // Nicknames come from other players, never insert them as HTML
+  private escape(text: string): string {
+    const span = document.createElement('span');
+    span.textContent = text;
+    return span.innerHTML;
+  }
+}
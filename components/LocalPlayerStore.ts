@@ -0,0 +1,66 @@
+import { PlayerStore, PlayerProfile, SessionResult, LeaderboardPeriod, LeaderboardEntry, periodStart, rankSessions } from './PlayerStore';
+
+const PROFILES_KEY = 'dura-profiles';
+const SESSIONS_KEY = 'dura-sessions';
+const MAX_SESSIONS = 500; // Oldest results are dropped beyond this
+
+/**
+ * Local Player Store
+ * Keeps profiles and session results in localStorage, so the leaderboard
+ * only covers players who drove in this browser.
+ */
+export class LocalPlayerStore implements PlayerStore {
+  readonly name = 'Local';
+  private storage: Storage;
+
+  constructor(storage: Storage = window.localStorage) {
+    this.storage = storage;
+  }
+
+  private read<T>(key: string, fallback: T): T {
+    try {
+      const raw = this.storage.getItem(key);
+      return raw ? JSON.parse(raw) as T : fallback;
+    } catch (error) {
+      console.warn(`Could not read ${key}:`, error);
+      return fallback;
+    }
+  }
+
+  private write(key: string, value: unknown): void {
+    try {
+      this.storage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+      console.warn(`Could not save ${key}:`, error);
+    }
+  }
+
+  async getProfile(playerId: string): Promise<PlayerProfile | null> {
+    const profiles = this.read<Record<string, PlayerProfile>>(PROFILES_KEY, {});
+    return profiles[playerId] || null;
+  }
+
+  async saveProfile(profile: PlayerProfile): Promise<void> {
+    const profiles = this.read<Record<string, PlayerProfile>>(PROFILES_KEY, {});
+    profiles[profile.playerId] = profile;
+    this.write(PROFILES_KEY, profiles);
+  }
+
+  async saveSession(result: SessionResult): Promise<void> {
+    const sessions = this.read<SessionResult[]>(SESSIONS_KEY, [])
+      .filter(session => session.sessionId !== result.sessionId);
+    sessions.push(result);
+    this.write(SESSIONS_KEY, sessions.slice(-MAX_SESSIONS));
+  }
+
+  async getHistory(playerId: string, limit: number): Promise<SessionResult[]> {
+    return this.read<SessionResult[]>(SESSIONS_KEY, [])
+      .filter(session => session.playerId === playerId)
+      .sort((a, b) => b.endedAt - a.endedAt)
+      .slice(0, limit);
+  }
+
+  async getLeaderboard(period: LeaderboardPeriod, limit: number): Promise<LeaderboardEntry[]> {
+    return rankSessions(this.read<SessionResult[]>(SESSIONS_KEY, []), periodStart(period), limit);
+  }
+}
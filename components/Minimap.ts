@@ -0,0 +1,218 @@
+import { CONFIG } from '../config';
+import { Checkpoint } from './Mission';
+import { LatLng, toLocalMeters } from './RoadGeometry';
+
+const ON_ROAD_COLOR = '#2e9e44';
+const OFF_ROAD_COLOR = '#d63030';
+const COLLAPSED_KEY = 'dura-minimap-collapsed';
+
+// Grey map without labels or points of interest so the trace stands out
+const MINIMAP_STYLES: google.maps.MapTypeStyle[] = [
+  { stylers: [{ saturation: -100 }] },
+  { elementType: 'labels', stylers: [{ visibility: 'off' }] },
+  { featureType: 'poi', stylers: [{ visibility: 'off' }] },
+  { featureType: 'transit', stylers: [{ visibility: 'off' }] },
+  { featureType: 'road', elementType: 'geometry', stylers: [{ color: '#ffffff' }] },
+  { featureType: 'landscape', stylers: [{ color: '#c8c8c8' }] },
+];
+
+interface TraceSegment {
+  isOnRoad: boolean;
+  line: google.maps.Polyline;
+}
+
+/**
+ * Minimap
+ * North-up overview in the corner with the car, the path driven this session
+ * (green on the road, red off it) and the mission checkpoints. The panel can
+ * be collapsed; that choice is remembered.
+ */
+export class Minimap {
+  private panel: HTMLElement;
+  private mapElement: HTMLElement;
+  private toggleButton: HTMLElement | null;
+  private map: google.maps.Map;
+  private carMarker: google.maps.Marker;
+  private segments: TraceSegment[] = [];
+  private tracePoints = 0;
+  private lastTracePoint: LatLng | null = null;
+  private checkpointCircles: google.maps.Circle[] = [];
+  private checkpoints: Checkpoint[] | null = null;
+  private checkpointIndex = -1;
+  private collapsed: boolean;
+
+  constructor(center: LatLng) {
+    this.panel = this.createPanel();
+    this.mapElement = this.panel.querySelector('#minimap-map') as HTMLElement;
+    this.toggleButton = this.panel.querySelector('#minimap-toggle');
+    this.toggleButton?.addEventListener('click', () => this.setCollapsed(!this.collapsed));
+
+    this.map = new google.maps.Map(this.mapElement, {
+      center,
+      zoom: CONFIG.MINIMAP.ZOOM,
+      heading: 0,
+      tilt: 0,
+      disableDefaultUI: true,
+      gestureHandling: 'none',
+      keyboardShortcuts: false,
+      clickableIcons: false,
+      styles: MINIMAP_STYLES,
+    });
+    this.carMarker = new google.maps.Marker({
+      map: this.map,
+      position: center,
+      clickable: false,
+      zIndex: 2,
+      icon: {
+        path: google.maps.SymbolPath.FORWARD_CLOSED_ARROW,
+        scale: 5,
+        fillColor: '#000000',
+        fillOpacity: 1,
+        strokeColor: '#ffffff',
+        strokeWeight: 2,
+        rotation: 0,
+      },
+    });
+
+    this.collapsed = this.loadCollapsed();
+    this.setCollapsed(this.collapsed);
+  }
+
+  private createPanel(): HTMLElement {
+    const panel = document.createElement('div');
+    panel.id = 'minimap';
+    panel.style.cssText = `
+      position: fixed;
+      top: 90px;
+      left: 20px;
+      background: #ffffff;
+      color: #000000;
+      padding: 8px;
+      border: 4px solid #000000;
+      border-radius: 0;
+      font-family: 'Press Start 2P', monospace;
+      font-size: 8px;
+      z-index: 1000;
+      box-shadow: 6px 6px 0px #000000;
+      image-rendering: pixelated;
+    `;
+    panel.innerHTML = `
+      <div style="display: flex; justify-content: space-between; align-items: center; gap: 8px;">
+        <span>MAP</span>
+        <button id="minimap-toggle" class="gameboy-button" style="font-size: 6px; padding: 4px 6px;">-</button>
+      </div>
+      <div id="minimap-map" style="width: 180px; height: 180px; margin-top: 8px; border: 3px solid #000000;"></div>
+    `;
+    document.body.appendChild(panel);
+    return panel;
+  }
+
+  setCollapsed(collapsed: boolean): void {
+    this.collapsed = collapsed;
+    this.mapElement.style.display = collapsed ? 'none' : 'block';
+    if (this.toggleButton) this.toggleButton.textContent = collapsed ? '+' : '-';
+    try {
+      window.localStorage.setItem(COLLAPSED_KEY, collapsed ? '1' : '0');
+    } catch (error) {
+      console.warn('Could not save minimap state:', error);
+    }
+  }
+
+  private loadCollapsed(): boolean {
+    try {
+      return window.localStorage.getItem(COLLAPSED_KEY) === '1';
+    } catch {
+      return false;
+    }
+  }
+
+  // Keep the car in the middle, pointing where it drives
+  updateCar(position: LatLng, heading: number): void {
+    this.carMarker.setPosition(position);
+    const icon = this.carMarker.getIcon() as google.maps.Symbol;
+    if (icon.rotation !== heading) this.carMarker.setIcon({ ...icon, rotation: heading });
+    if (!this.collapsed) this.map.setCenter(position);
+  }
+
+  // Extend the trace with a scored position, starting a new colour when the road status changes
+  addTracePoint(position: LatLng, isOnRoad: boolean): void {
+    if (this.lastTracePoint) {
+      const offset = toLocalMeters(this.lastTracePoint, position);
+      if (Math.hypot(offset.x, offset.y) < CONFIG.MINIMAP.TRACE_SPACING) return;
+    }
+
+    let segment = this.segments[this.segments.length - 1];
+    if (!segment || segment.isOnRoad !== isOnRoad) {
+      const line = new google.maps.Polyline({
+        map: this.map,
+        clickable: false,
+        strokeColor: isOnRoad ? ON_ROAD_COLOR : OFF_ROAD_COLOR,
+        strokeOpacity: 1,
+        strokeWeight: 4,
+        zIndex: 1,
+      });
+      // Join the new colour onto the end of the previous one
+      if (this.lastTracePoint) {
+        line.getPath().push(new google.maps.LatLng(this.lastTracePoint));
+        this.tracePoints++;
+      }
+      segment = { isOnRoad, line };
+      this.segments.push(segment);
+    }
+
+    segment.line.getPath().push(new google.maps.LatLng(position));
+    this.lastTracePoint = position;
+    this.tracePoints++;
+    this.trimTrace();
+  }
+
+  // Drop the oldest points once the trace gets long
+  private trimTrace(): void {
+    while (this.tracePoints > CONFIG.MINIMAP.MAX_TRACE_POINTS && this.segments.length > 0) {
+      const path = this.segments[0].line.getPath();
+      path.removeAt(0);
+      this.tracePoints--;
+      if (path.getLength() < 2) {
+        this.segments[0].line.setMap(null);
+        this.tracePoints -= path.getLength();
+        this.segments.shift();
+      }
+    }
+  }
+
+  clearTrace(): void {
+    this.segments.forEach(segment => segment.line.setMap(null));
+    this.segments = [];
+    this.tracePoints = 0;
+    this.lastTracePoint = null;
+  }
+
+  // Show the mission checkpoints, the current one filled in; null hides them
+  setCheckpoints(checkpoints: Checkpoint[] | null, currentIndex: number = 0): void {
+    if (checkpoints === this.checkpoints && currentIndex === this.checkpointIndex) return;
+
+    if (checkpoints !== this.checkpoints) {
+      this.checkpointCircles.forEach(circle => circle.setMap(null));
+      this.checkpointCircles = (checkpoints || []).map(checkpoint => new google.maps.Circle({
+        map: this.map,
+        center: { lat: checkpoint.lat, lng: checkpoint.lng },
+        radius: checkpoint.radius,
+        clickable: false,
+        strokeColor: '#000000',
+        strokeWeight: 2,
+        zIndex: 0,
+      }));
+    }
+
+    this.checkpoints = checkpoints;
+    this.checkpointIndex = currentIndex;
+    this.checkpointCircles.forEach((circle, index) => {
+      circle.setOptions({
+        fillColor: '#000000',
+        // Reached checkpoints fade out, the next one stands out
+        fillOpacity: index === currentIndex ? 0.6 : index < currentIndex ? 0 : 0.15,
+        strokeOpacity: index < currentIndex ? 0.3 : 1,
+      });
+    });
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Missions
+ * Driving lessons authored as JSON: start somewhere, reach an ordered list of
+ * checkpoints within a time limit.
+ */
+
+export const MISSION_FORMAT_VERSION = 1;
+
+export interface Checkpoint {
+  lat: number;
+  lng: number;
+  radius: number; // Meters
+  name?: string;
+}
+
+export interface MissionScoring {
+  checkpointPoints: number;  // Awarded per checkpoint reached
+  completionBonus: number;   // Awarded for finishing
+  par?: number;              // Target time in seconds
+  timeBonusPerSecond: number; // For every second under par
+}
+
+export interface Mission {
+  version: typeof MISSION_FORMAT_VERSION;
+  id: string;
+  name: string;
+  description?: string;
+  start: { lat: number; lng: number; heading: number };
+  checkpoints: Checkpoint[];
+  timeLimit: number; // Seconds
+  scoring: MissionScoring;
+}
+
+const DEFAULT_SCORING: MissionScoring = {
+  checkpointPoints: 100,
+  completionBonus: 500,
+  timeBonusPerSecond: 5,
+};
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Check raw JSON against the mission schema, returns a list of problems
+export function validateMission(data: any): string[] {
+  const problems: string[] = [];
+  if (!data || typeof data !== 'object') return ['mission must be a JSON object'];
+
+  if (data.version !== MISSION_FORMAT_VERSION) problems.push(`version must be ${MISSION_FORMAT_VERSION}`);
+  if (typeof data.id !== 'string' || data.id === '') problems.push('id must be a non-empty string');
+  if (typeof data.name !== 'string' || data.name === '') problems.push('name must be a non-empty string');
+  if (!data.start || !isFiniteNumber(data.start.lat) || !isFiniteNumber(data.start.lng)) {
+    problems.push('start needs lat and lng');
+  }
+  if (!isFiniteNumber(data.timeLimit) || data.timeLimit <= 0) problems.push('timeLimit must be a positive number of seconds');
+
+  if (!Array.isArray(data.checkpoints) || data.checkpoints.length === 0) {
+    problems.push('checkpoints must be a non-empty array');
+  } else {
+    data.checkpoints.forEach((checkpoint: any, index: number) => {
+      const valid = checkpoint && isFiniteNumber(checkpoint.lat) && isFiniteNumber(checkpoint.lng) &&
+        isFiniteNumber(checkpoint.radius) && checkpoint.radius > 0;
+      if (!valid) problems.push(`checkpoints[${index}] needs lat, lng and a positive radius`);
+    });
+  }
+
+  if (data.scoring !== undefined) {
+    ['checkpointPoints', 'completionBonus', 'par', 'timeBonusPerSecond'].forEach(field => {
+      if (data.scoring[field] !== undefined && !isFiniteNumber(data.scoring[field])) {
+        problems.push(`scoring.${field} must be a number`);
+      }
+    });
+  }
+
+  return problems;
+}
+
+export async function loadMissions(urls: string[]): Promise<Mission[]> {
+  const results = await Promise.all(urls.map(async url => {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      const problems = validateMission(data);
+      if (problems.length > 0) {
+        throw new Error(problems.join('; '));
+      }
+      return {
+        ...data,
+        start: { heading: 0, ...data.start },
+        scoring: { ...DEFAULT_SCORING, ...data.scoring },
+      } as Mission;
+    } catch (error) {
+      console.error(`Could not load mission ${url}:`, error);
+      return null;
+    }
+  }));
+
+  return results.filter((mission): mission is Mission => mission !== null);
+}
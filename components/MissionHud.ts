@@ -0,0 +1,120 @@
+import { Mission } from './Mission';
+
+/**
+ * Game Boy style mission HUD: direction arrow to the next checkpoint, time
+ * left and progress, plus a mission select list
+ */
+export class MissionHud {
+  private panel: HTMLElement;
+  private arrow: HTMLElement | null;
+  private info: HTMLElement | null;
+  private menu: HTMLElement;
+  private onSelect: (mission: Mission) => void;
+
+  constructor(onSelect: (mission: Mission) => void) {
+    this.onSelect = onSelect;
+    this.panel = this.createPanel();
+    this.arrow = this.panel.querySelector('#mission-arrow');
+    this.info = this.panel.querySelector('#mission-info');
+    this.menu = this.createMenu();
+  }
+
+  private createPanel(): HTMLElement {
+    const panel = document.createElement('div');
+    panel.id = 'mission-hud';
+    panel.style.cssText = `
+      position: fixed;
+      top: 20px;
+      left: 50%;
+      transform: translateX(-50%);
+      background: #ffffff;
+      color: #000000;
+      padding: 10px 16px;
+      border: 4px solid #000000;
+      border-radius: 0;
+      font-family: 'Press Start 2P', monospace;
+      font-size: 8px;
+      z-index: 1000;
+      box-shadow: 6px 6px 0px #000000;
+      image-rendering: pixelated;
+      display: none;
+      align-items: center;
+      gap: 12px;
+      line-height: 1.6;
+      text-transform: uppercase;
+    `;
+    panel.innerHTML = `
+      <div id="mission-arrow" style="font-size: 20px; width: 24px; text-align: center; transition: transform 0.1s linear;">▲</div>
+      <div id="mission-info"></div>
+    `;
+    document.body.appendChild(panel);
+    return panel;
+  }
+
+  private createMenu(): HTMLElement {
+    const menu = document.createElement('div');
+    menu.id = 'mission-menu';
+    menu.className = 'gameboy-screen';
+    menu.style.cssText = `
+      position: fixed;
+      inset: 0;
+      background-color: rgba(0, 0, 0, 0.9);
+      display: none;
+      justify-content: center;
+      align-items: center;
+      z-index: 1500;
+      font-family: 'Press Start 2P', monospace;
+    `;
+    menu.innerHTML = `
+      <div class="gameboy-dialog" style="background: #ffffff; padding: 20px; border: 4px solid #000000; text-align: center; width: 90%; max-width: 420px; box-shadow: 8px 8px 0px #000000;">
+        <h2 style="font-size: 12px; margin: 0 0 16px;">MISSIONS</h2>
+        <div id="mission-list" style="display: grid; gap: 10px;"></div>
+        <button id="mission-menu-close" class="gameboy-button" style="margin-top: 16px;">BACK</button>
+      </div>
+    `;
+    document.body.appendChild(menu);
+    menu.querySelector('#mission-menu-close')?.addEventListener('click', () => this.hideMenu());
+    return menu;
+  }
+
+  // Show the mission select list
+  showMenu(missions: Mission[]): void {
+    const list = this.menu.querySelector('#mission-list');
+    if (!list) return;
+
+    list.innerHTML = '';
+    if (missions.length === 0) {
+      list.textContent = 'NO MISSIONS AVAILABLE';
+    }
+    missions.forEach(mission => {
+      const button = document.createElement('button');
+      button.className = 'answer-btn';
+      button.textContent = `${mission.name.toUpperCase()} (${mission.checkpoints.length} CP, ${Math.round(mission.timeLimit)}S)`;
+      button.addEventListener('click', () => {
+        this.hideMenu();
+        this.onSelect(mission);
+      });
+      list.appendChild(button);
+    });
+    this.menu.style.display = 'flex';
+  }
+
+  hideMenu(): void {
+    this.menu.style.display = 'none';
+  }
+
+  // Update the arrow (bearing relative to the car heading) and progress text
+  update(relativeBearing: number, distance: number, checkpoint: number, total: number, remainingTime: number): void {
+    this.panel.style.display = 'flex';
+    if (this.arrow) this.arrow.style.transform = `rotate(${relativeBearing}deg)`;
+    if (this.info) {
+      const minutes = Math.floor(remainingTime / 60);
+      const seconds = Math.floor(remainingTime % 60).toString().padStart(2, '0');
+      this.info.innerHTML = `CP ${checkpoint}/${total} &nbsp; ${Math.round(distance)}M<br>TIME ${minutes}:${seconds}`;
+    }
+  }
+
+  hide(): void {
+    this.panel.style.display = 'none';
+  }
+}
@@ -0,0 +1,98 @@
+import { Mission, Checkpoint } from './Mission';
+import { toLocalMeters } from './RoadGeometry';
+
+export type MissionEvent =
+  | { type: 'checkpoint'; index: number; checkpoint: Checkpoint; points: number }
+  | { type: 'completed'; elapsed: number; points: number; underPar: boolean }
+  | { type: 'failed'; reason: string };
+
+/**
+ * Mission Runner
+ * Tracks progress through a mission's checkpoints and its time limit
+ */
+export class MissionRunner {
+  private mission: Mission;
+  private nextCheckpoint: number = 0;
+  private elapsed: number = 0; // Seconds, only counts while the game runs
+  private points: number = 0;
+  private finished: boolean = false;
+
+  constructor(mission: Mission) {
+    this.mission = mission;
+  }
+
+  getMission(): Mission {
+    return this.mission;
+  }
+
+  // Advance the clock and check the car against the next checkpoint
+  update(position: { lat: number; lng: number }, deltaTime: number): MissionEvent | null {
+    if (this.finished) return null;
+
+    this.elapsed += deltaTime;
+    if (this.elapsed > this.mission.timeLimit) {
+      this.finished = true;
+      return { type: 'failed', reason: 'OUT OF TIME!' };
+    }
+
+    const checkpoint = this.getCurrentCheckpoint();
+    if (!checkpoint || this.distanceTo(position, checkpoint) > checkpoint.radius) return null;
+
+    const index = this.nextCheckpoint++;
+    const checkpointPoints = this.mission.scoring.checkpointPoints;
+    this.points += checkpointPoints;
+
+    if (this.nextCheckpoint < this.mission.checkpoints.length) {
+      return { type: 'checkpoint', index, checkpoint, points: checkpointPoints };
+    }
+
+    // Last checkpoint reached
+    this.finished = true;
+    const { completionBonus, par, timeBonusPerSecond } = this.mission.scoring;
+    const underPar = par !== undefined && this.elapsed <= par;
+    const timeBonus = underPar ? Math.floor((par! - this.elapsed) * timeBonusPerSecond) : 0;
+    const finalPoints = checkpointPoints + completionBonus + timeBonus;
+    this.points += completionBonus + timeBonus;
+
+    return { type: 'completed', elapsed: this.elapsed, points: finalPoints, underPar };
+  }
+
+  getCurrentCheckpoint(): Checkpoint | null {
+    return this.mission.checkpoints[this.nextCheckpoint] || null;
+  }
+
+  getCheckpointIndex(): number {
+    return this.nextCheckpoint;
+  }
+
+  getRemainingTime(): number {
+    return Math.max(0, this.mission.timeLimit - this.elapsed);
+  }
+
+  getElapsed(): number {
+    return this.elapsed;
+  }
+
+  getPoints(): number {
+    return this.points;
+  }
+
+  isFinished(): boolean {
+    return this.finished;
+  }
+
+  // Distance in meters and compass bearing from position to the next checkpoint
+  getDirectionToCheckpoint(position: { lat: number; lng: number }): { distance: number; bearing: number } | null {
+    const checkpoint = this.getCurrentCheckpoint();
+    if (!checkpoint) return null;
+
+    const offset = toLocalMeters(position, checkpoint);
+    const bearing = (Math.atan2(offset.x, offset.y) * 180 / Math.PI + 360) % 360;
+    return { distance: Math.hypot(offset.x, offset.y), bearing };
+  }
+
+  private distanceTo(position: { lat: number; lng: number }, checkpoint: Checkpoint): number {
+    const offset = toLocalMeters(position, checkpoint);
+    return Math.hypot(offset.x, offset.y);
+  }
+}
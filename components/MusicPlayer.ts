@@ -0,0 +1,183 @@
+import { AudioEngine } from './AudioEngine';
+
+/**
+ * Music Player
+ * Plays looping chiptune songs written like a tracker pattern: every channel
+ * is a list of rows played at a fixed tempo. A row holds a note ("C4",
+ * "F#5"), "." to keep the current note ringing, or "off" to silence it.
+ * Songs are JSON files, see public/music.
+ */
+
+export const SONG_VERSION = 1;
+export const SONG_WAVES: OscillatorType[] = ['square', 'triangle', 'sawtooth', 'sine'];
+
+export interface SongChannel {
+  wave: OscillatorType;
+  volume: number; // 0..1
+  rows: string[];
+}
+
+export interface Song {
+  version: number;
+  name: string;
+  bpm: number;
+  rowsPerBeat: number;
+  channels: SongChannel[];
+}
+
+const NOTE_PATTERN = /^([A-G])(#?)(\d)$/;
+const SEMITONES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// Frequency of a note name such as "A4" (440 Hz) or "C#5", null if invalid
+export function noteFrequency(note: string): number | null {
+  const match = NOTE_PATTERN.exec(note);
+  if (!match) return null;
+  const semitone = SEMITONES[match[1]] + (match[2] ? 1 : 0) + (Number(match[3]) + 1) * 12;
+  // MIDI note 69 is A4
+  return 440 * Math.pow(2, (semitone - 69) / 12);
+}
+
+export function validateSong(data: any): string[] {
+  const problems: string[] = [];
+  if (!data || typeof data !== 'object') return ['song must be a JSON object'];
+  if (data.version !== SONG_VERSION) problems.push(`version must be ${SONG_VERSION}`);
+  if (typeof data.name !== 'string') problems.push('name must be a string');
+  if (!Number.isFinite(data.bpm) || data.bpm <= 0) problems.push('bpm must be a positive number');
+  if (!Number.isInteger(data.rowsPerBeat) || data.rowsPerBeat <= 0) problems.push('rowsPerBeat must be a positive integer');
+  if (!Array.isArray(data.channels) || data.channels.length === 0) return [...problems, 'channels must be a non-empty array'];
+
+  const length = data.channels[0]?.rows?.length;
+  data.channels.forEach((channel: any, index: number) => {
+    if (!SONG_WAVES.includes(channel?.wave)) problems.push(`channels[${index}].wave must be one of ${SONG_WAVES.join(', ')}`);
+    if (!Number.isFinite(channel?.volume) || channel.volume < 0 || channel.volume > 1) {
+      problems.push(`channels[${index}].volume must be between 0 and 1`);
+    }
+    if (!Array.isArray(channel?.rows) || channel.rows.length === 0) {
+      problems.push(`channels[${index}].rows must be a non-empty array`);
+      return;
+    }
+    if (channel.rows.length !== length) problems.push(`channels[${index}] must have ${length} rows like channels[0]`);
+    channel.rows.forEach((row: any, rowIndex: number) => {
+      if (row !== '.' && row !== 'off' && (typeof row !== 'string' || noteFrequency(row) === null)) {
+        problems.push(`channels[${index}].rows[${rowIndex}] "${row}" is not a note, "." or "off"`);
+      }
+    });
+  });
+
+  return problems;
+}
+
+export async function loadSong(url: string): Promise<Song> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Song download failed: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  const problems = validateSong(data);
+  if (problems.length > 0) {
+    throw new Error(`Invalid song ${url}: ${problems.join('; ')}`);
+  }
+  return data as Song;
+}
+
+// Rows are scheduled this far ahead so timer hiccups do not cause gaps
+const SCHEDULE_AHEAD = 0.2;
+const SCHEDULER_INTERVAL = 50;
+// Short fades at note edges to avoid clicks
+const NOTE_FADE = 0.01;
+
+export class MusicPlayer {
+  private audio: AudioEngine;
+  private song: Song | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private nextRow = 0;
+  private nextRowTime = 0;
+  private voices: OscillatorNode[] = [];
+
+  constructor(audio: AudioEngine) {
+    this.audio = audio;
+  }
+
+  play(song: Song): void {
+    this.stop();
+    this.song = song;
+    this.nextRow = 0;
+    this.nextRowTime = 0;
+    this.timer = setInterval(() => this.schedule(), SCHEDULER_INTERVAL);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.song = null;
+    this.voices.forEach(voice => voice.stop());
+    this.voices = [];
+  }
+
+  isPlaying(): boolean {
+    return this.song !== null;
+  }
+
+  private schedule(): void {
+    const context = this.audio.getContext();
+    const channel = this.audio.getChannel('music');
+    // Waits silently until the player unlocks audio
+    if (!this.song || !context || !channel) return;
+
+    const rowDuration = 60 / this.song.bpm / this.song.rowsPerBeat;
+    const length = this.song.channels[0].rows.length;
+    // Start fresh after audio was suspended instead of catching up
+    if (this.nextRowTime < context.currentTime) this.nextRowTime = context.currentTime + NOTE_FADE;
+
+    while (this.nextRowTime < context.currentTime + SCHEDULE_AHEAD) {
+      this.song.channels.forEach(songChannel => {
+        const note = songChannel.rows[this.nextRow];
+        const frequency = noteFrequency(note);
+        if (frequency === null) return;
+        const rows = this.noteLength(songChannel.rows, this.nextRow);
+        this.playNote(context, channel, songChannel, frequency, this.nextRowTime, rows * rowDuration);
+      });
+      this.nextRow = (this.nextRow + 1) % length;
+      this.nextRowTime += rowDuration;
+    }
+  }
+
+  // Rows until the next note or "off", wrapping around the loop
+  private noteLength(rows: string[], start: number): number {
+    for (let length = 1; length < rows.length; length++) {
+      if (rows[(start + length) % rows.length] !== '.') return length;
+    }
+    return rows.length;
+  }
+
+  private playNote(
+    context: AudioContext,
+    destination: AudioNode,
+    songChannel: SongChannel,
+    frequency: number,
+    start: number,
+    duration: number
+  ): void {
+    const oscillator = context.createOscillator();
+    oscillator.type = songChannel.wave;
+    oscillator.frequency.value = frequency;
+
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(0, start);
+    gain.gain.linearRampToValueAtTime(songChannel.volume, start + NOTE_FADE);
+    gain.gain.setValueAtTime(songChannel.volume, start + duration - NOTE_FADE);
+    gain.gain.linearRampToValueAtTime(0, start + duration);
+
+    oscillator.connect(gain);
+    gain.connect(destination);
+    oscillator.start(start);
+    oscillator.stop(start + duration);
+
+    this.voices.push(oscillator);
+    oscillator.onended = () => {
+      this.voices = this.voices.filter(voice => voice !== oscillator);
+      gain.disconnect();
+    };
+  }
+}
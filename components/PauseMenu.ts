@@ -0,0 +1,64 @@
+export interface PauseMenuHandlers {
+  onResume: () => void;
+  onRestart: () => void;
+  onSettings: () => void;
+  onQuit: () => void;
+}
+
+/**
+ * Game Boy style pause menu shown while the game is paused with Esc
+ */
+export class PauseMenu {
+  private screen: HTMLElement;
+
+  constructor(handlers: PauseMenuHandlers) {
+    this.screen = this.createScreen(handlers);
+  }
+
+  private createScreen(handlers: PauseMenuHandlers): HTMLElement {
+    const screen = document.createElement('div');
+    screen.id = 'pause-menu';
+    screen.className = 'gameboy-screen';
+    screen.style.cssText = `
+      position: fixed;
+      inset: 0;
+      background-color: rgba(0, 0, 0, 0.9);
+      display: none;
+      justify-content: center;
+      align-items: center;
+      z-index: 1400;
+      font-family: 'Press Start 2P', monospace;
+    `;
+    screen.innerHTML = `
+      <div class="gameboy-dialog" style="background: #ffffff; padding: 20px; border: 4px solid #000000; text-align: center; width: 90%; max-width: 280px; box-shadow: 8px 8px 0px #000000;">
+        <h2 style="font-size: 12px; margin: 0 0 16px;">PAUSED</h2>
+        <div style="display: grid; gap: 10px;">
+          <button id="pause-resume" class="gameboy-button">RESUME</button>
+          <button id="pause-restart" class="gameboy-button">RESTART</button>
+          <button id="pause-settings" class="gameboy-button">SETTINGS</button>
+          <button id="pause-quit" class="gameboy-button">QUIT</button>
+        </div>
+        <p style="font-size: 6px; margin: 12px 0 0;">PRESS ESC TO RESUME</p>
+      </div>
+    `;
+    document.body.appendChild(screen);
+
+    screen.querySelector('#pause-resume')?.addEventListener('click', handlers.onResume);
+    screen.querySelector('#pause-restart')?.addEventListener('click', handlers.onRestart);
+    screen.querySelector('#pause-settings')?.addEventListener('click', handlers.onSettings);
+    screen.querySelector('#pause-quit')?.addEventListener('click', handlers.onQuit);
+    return screen;
+  }
+
+  show(): void {
+    this.screen.style.display = 'flex';
+  }
+
+  hide(): void {
+    this.screen.style.display = 'none';
+  }
+
+  isVisible(): boolean {
+    return this.screen.style.display !== 'none';
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Player Store
+ * Profiles, session results and leaderboards, keyed by the Auth0 `sub` of
+ * the player. Backends: LocalPlayerStore (localStorage) and RestPlayerStore.
+ */
+
+export interface PlayerProfile {
+  playerId: string;  // Auth0 user `sub`
+  nickname: string;
+  createdAt: number; // Epoch milliseconds
+  lastSeenAt: number;
+}
+
+export interface SessionResult {
+  sessionId: string;
+  playerId: string;
+  nickname: string;
+  score: number;
+  distance: number; // Meters driven on road
+  questionsAnswered: number;
+  questionsCorrect: number;
+  duration: number; // Seconds
+  endedAt: number;  // Epoch milliseconds
+}
+
+export type LeaderboardPeriod = 'daily' | 'weekly' | 'all-time';
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['daily', 'weekly', 'all-time'];
+
+export interface LeaderboardEntry {
+  rank: number;
+  playerId: string;
+  nickname: string;
+  score: number;
+  distance: number;
+  accuracy: number | null; // 0..1, null when no questions were answered
+  endedAt: number;
+}
+
+export interface PlayerStore {
+  readonly name: string;
+  getProfile(playerId: string): Promise<PlayerProfile | null>;
+  saveProfile(profile: PlayerProfile): Promise<void>;
+  // Saving a result with the same sessionId again replaces it
+  saveSession(result: SessionResult): Promise<void>;
+  getHistory(playerId: string, limit: number): Promise<SessionResult[]>;
+  getLeaderboard(period: LeaderboardPeriod, limit: number): Promise<LeaderboardEntry[]>;
+}
+
+export function getAccuracy(result: SessionResult): number | null {
+  return result.questionsAnswered > 0 ? result.questionsCorrect / result.questionsAnswered : null;
+}
+
+// Start of the leaderboard period in epoch milliseconds (local midnight, Monday for weeks)
+export function periodStart(period: LeaderboardPeriod, now: number = Date.now()): number {
+  if (period === 'all-time') return 0;
+
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  if (period === 'weekly') {
+    const daysSinceMonday = (start.getDay() + 6) % 7;
+    start.setDate(start.getDate() - daysSinceMonday);
+  }
+  return start.getTime();
+}
+
+// Best result per player since `since`, highest score first
+export function rankSessions(results: SessionResult[], since: number, limit: number): LeaderboardEntry[] {
+  const best = new Map<string, SessionResult>();
+  results.forEach(result => {
+    if (result.endedAt < since) return;
+    const current = best.get(result.playerId);
+    if (!current || result.score > current.score) best.set(result.playerId, result);
+  });
+
+  return [...best.values()]
+    .sort((a, b) => b.score - a.score || a.endedAt - b.endedAt)
+    .slice(0, limit)
+    .map((result, index) => ({
+      rank: index + 1,
+      playerId: result.playerId,
+      nickname: result.nickname,
+      score: result.score,
+      distance: result.distance,
+      accuracy: getAccuracy(result),
+      endedAt: result.endedAt,
+    }));
+}
+
+export function createSessionId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
@@ -1,17 +1,34 @@
 import { CONFIG } from '../config';
+import { MPH_TO_MPS } from './RoadProvider';
+import { EventBus, GameEventMap, gameEvents } from './GameEvents';
+import { LanePosition } from './LanePosition';
 
 export class PointSystem {
   private points: number = 0;
   private isOnRoad: boolean = false;
+  private lane: LanePosition | null = null;
+  private wrongSidePenaltyTotal: number = 0;
   private lastPosition: { lat: number; lng: number } | null = null;
   private pointMultiplier: number = 1;
   private consecutiveRoadTime: number = 0;
   private totalDistanceOnRoad: number = 0;
   private warningElement: HTMLElement | null = null;
+  private speedLimit: number = CONFIG.SPEED_LIMITS.DEFAULT_MPH * MPH_TO_MPS; // Meters per second
+  private currentSpeed: number = 0;
+  private speedingPenaltyTotal: number = 0;
+  private penaltyScale: number = 1; // Set by the difficulty setting
+  private offRoadPenaltiesSuspended: boolean = false; // While road detection is unreliable
+  private events: EventBus<GameEventMap>;
   
-  constructor() {
+  constructor(events: EventBus<GameEventMap> = gameEvents) {
+    this.events = events;
     this.createUI();
     this.createWarningSystem();
+    
+    // Bonus points from questions, missions etc. arrive as events
+    this.events.on('PointsAwarded', ({ amount }) => this.addPoints(amount));
+    // Failing road lookups should not cost points
+    this.events.on('RoadDetectionChanged', ({ reliable }) => this.setOffRoadPenaltiesSuspended(!reliable));
   }
   
   private createUI() {
@@ -47,9 +64,18 @@ export class PointSystem {
       <div style="margin-bottom: 8px;">
         <span style="text-transform: uppercase;">STATUS:</span> <span id="road-status" style="font-weight: normal; text-transform: uppercase;">OFF ROAD</span>
       </div>
+      <div style="margin-bottom: 8px;">
+        <span style="text-transform: uppercase;">LANE:</span> <span id="lane-status" style="color: #000000; padding: 0 2px;">-</span>
+      </div>
       <div style="margin-bottom: 8px;">
         <span style="text-transform: uppercase;">MULTIPLIER:</span> <span id="multiplier" style="color: #000000;">1.0X</span>
       </div>
+      <div style="margin-bottom: 8px;">
+        <span style="text-transform: uppercase;">SPEED:</span> <span id="speed-value" style="color: #000000;">0 MPH</span>
+      </div>
+      <div style="margin-bottom: 8px;">
+        <span style="text-transform: uppercase;">LIMIT:</span> <span id="speed-limit" style="color: #000000; padding: 0 2px;">25 MPH</span>
+      </div>
       <div style="margin-bottom: 8px;">
         <span style="text-transform: uppercase;">DISTANCE:</span> <span id="distance" style="color: #000000;">0M</span>
       </div>
@@ -102,38 +128,66 @@ export class PointSystem {
     this.warningElement.innerHTML = `
       <div style="display: flex; align-items: center; gap: 8px;">
         <span style="font-size: 10px;">!</span>
-        <span>OFF ROAD! POINTS LOST!</span>
+        <span id="off-road-warning-text">OFF ROAD! POINTS LOST!</span>
       </div>
     `;
     document.body.appendChild(this.warningElement);
   }
   
-  update(carPosition: { lat: number; lng: number }, isOnRoad: boolean, speed: number, deltaTime: number) {
+  // lane is where the car is across the road, null when the road data has no geometry
+  update(carPosition: { lat: number; lng: number }, isOnRoad: boolean, speed: number, deltaTime: number,
+         lane: LanePosition | null = null) {
+    if (!isOnRoad) lane = null;
+    
     // Check if car moved
     if (this.lastPosition) {
       const distance = this.calculateDistance(this.lastPosition, carPosition);
       
       if (distance > 0.0001) { // Car moved (threshold to avoid noise)
         if (isOnRoad) {
-          // Add points based on distance traveled on road
-          const basePoints = distance * CONFIG.POINTS.BASE_POINTS_PER_METER;
-          const speedBonus = Math.min(speed / 5, CONFIG.POINTS.MAX_SPEED_BONUS);
-          const pointsEarned = Math.floor(basePoints * this.pointMultiplier * speedBonus);
-          this.points += pointsEarned;
+          const overLimitMph = (Math.abs(speed) - this.speedLimit) / MPH_TO_MPS;
+          const speedingPenalty = this.getSpeedingPenalty(overLimitMph);
+          
+          if (lane?.status === 'wrongSide') {
+            // WRONG SIDE - lose points, no bonus, no multiplier growth
+            if (!this.offRoadPenaltiesSuspended) {
+              const penaltyPoints = Math.floor(distance * CONFIG.POINTS.WRONG_SIDE_PENALTY * this.penaltyScale);
+              this.points = Math.max(0, this.points - penaltyPoints);
+              this.wrongSidePenaltyTotal += penaltyPoints;
+              if (penaltyPoints > 0) this.events.emit('PenaltyApplied', { amount: penaltyPoints, reason: 'wrong-side' });
+            }
+            this.pointMultiplier = 1;
+            this.consecutiveRoadTime = 0;
+          } else if (speedingPenalty > 0) {
+            // SPEEDING - lose points by how far over the limit, no multiplier growth
+            const penaltyPoints = Math.floor(distance * speedingPenalty * this.penaltyScale);
+            this.points = Math.max(0, this.points - penaltyPoints);
+            this.speedingPenaltyTotal += penaltyPoints;
+            this.consecutiveRoadTime = 0;
+            if (penaltyPoints > 0) this.events.emit('PenaltyApplied', { amount: penaltyPoints, reason: 'speeding' });
+          } else {
+            // Add points based on distance traveled on road, with bonuses for keeping to the limit and the lane
+            const basePoints = distance * CONFIG.POINTS.BASE_POINTS_PER_METER;
+            const complianceBonus = overLimitMph <= 0 ? CONFIG.POINTS.COMPLIANCE_BONUS : 1;
+            const laneBonus = lane?.status === 'inLane' ? CONFIG.POINTS.LANE_KEEPING_BONUS : 1;
+            const pointsEarned = Math.floor(basePoints * this.pointMultiplier * complianceBonus * laneBonus);
+            this.points += pointsEarned;
+            
+            // Increase multiplier for consecutive road driving
+            this.consecutiveRoadTime += deltaTime;
+            if (this.consecutiveRoadTime > CONFIG.POINTS.MULTIPLIER_INCREASE_TIME) {
+              this.pointMultiplier = Math.min(this.pointMultiplier + 0.1, CONFIG.POINTS.MAX_MULTIPLIER);
+              this.consecutiveRoadTime = 0; // Reset timer
+            }
+          }
           
           // Track distance on road
           this.totalDistanceOnRoad += distance;
-          
-          // Increase multiplier for consecutive road driving
-          this.consecutiveRoadTime += deltaTime;
-          if (this.consecutiveRoadTime > CONFIG.POINTS.MULTIPLIER_INCREASE_TIME) {
-            this.pointMultiplier = Math.min(this.pointMultiplier + 0.1, CONFIG.POINTS.MAX_MULTIPLIER);
-            this.consecutiveRoadTime = 0; // Reset timer
-          }
-        } else {
+        } else if (!this.offRoadPenaltiesSuspended) {
           // OFF ROAD - LOSE POINTS
-          const penaltyPoints = distance * CONFIG.POINTS.OFF_ROAD_PENALTY;
-          this.points = Math.max(0, this.points - Math.floor(penaltyPoints)); // Don't go below 0
+          const penaltyPoints = Math.floor(distance * CONFIG.POINTS.OFF_ROAD_PENALTY * this.penaltyScale);
+          this.points = Math.max(0, this.points - penaltyPoints); // Don't go below 0
+          if (penaltyPoints > 0) this.events.emit('PenaltyApplied', { amount: penaltyPoints, reason: 'off-road' });
           
           // Reset multiplier when off road
           this.pointMultiplier = 1;
@@ -142,9 +196,79 @@ export class PointSystem {
       }
     }
     
+    if (isOnRoad !== this.isOnRoad) {
+      this.events.emit('RoadStateChanged', { isOnRoad, lat: carPosition.lat, lng: carPosition.lng });
+    }
+    if (lane?.status !== this.lane?.status || lane?.lane !== this.lane?.lane) {
+      this.events.emit('LaneStateChanged', {
+        status: lane ? lane.status : null,
+        lane: lane ? lane.lane : null,
+        lat: carPosition.lat,
+        lng: carPosition.lng,
+      });
+    }
+    
     this.lastPosition = carPosition;
     this.isOnRoad = isOnRoad;
+    this.lane = lane;
+    this.currentSpeed = speed;
     this.updateUI();
+    this.events.emit('ScoreChanged', {
+      points: this.points,
+      distanceOnRoad: this.totalDistanceOnRoad,
+      isOnRoad,
+      speed,
+      lat: carPosition.lat,
+      lng: carPosition.lng,
+    });
+  }
+  
+  // Penalty per meter for driving overLimitMph over the posted limit
+  private getSpeedingPenalty(overLimitMph: number): number {
+    if (overLimitMph <= CONFIG.POINTS.SPEEDING_GRACE_MPH) return 0;
+    
+    let penalty = 0;
+    CONFIG.POINTS.SPEEDING_PENALTIES.forEach(tier => {
+      if (overLimitMph > tier.OVER_MPH) penalty = tier.PENALTY_PER_METER;
+    });
+    return penalty;
+  }
+  
+  // Scale off-road and speeding penalties, e.g. 0.5 for an easier game
+  setPenaltyScale(scale: number) {
+    this.penaltyScale = scale;
+  }
+  
+  // Stop taking points for driving off road, e.g. while the Roads API is down
+  setOffRoadPenaltiesSuspended(suspended: boolean) {
+    this.offRoadPenaltiesSuspended = suspended;
+    const warningText = document.getElementById('off-road-warning-text');
+    if (warningText) warningText.textContent = suspended ? 'OFF ROAD? NO ROAD DATA' : 'OFF ROAD! POINTS LOST!';
+  }
+  
+  areOffRoadPenaltiesSuspended(): boolean {
+    return this.offRoadPenaltiesSuspended;
+  }
+  
+  // Set the posted speed limit (meters per second) of the current road
+  setSpeedLimit(speedLimit: number) {
+    this.speedLimit = speedLimit;
+  }
+  
+  getSpeedLimit(): number {
+    return this.speedLimit;
+  }
+  
+  isSpeeding(): boolean {
+    return Math.abs(this.currentSpeed) - this.speedLimit > CONFIG.POINTS.SPEEDING_GRACE_MPH * MPH_TO_MPS;
+  }
+  
+  getSpeedingPenaltyTotal(): number {
+    return this.speedingPenaltyTotal;
+  }
+  
+  getWrongSidePenaltyTotal(): number {
+    return this.wrongSidePenaltyTotal;
   }
   
   private calculateDistance(pos1: { lat: number; lng: number }, pos2: { lat: number; lng: number }): number {
@@ -167,7 +291,10 @@ export class PointSystem {
     const statusElement = document.getElementById('road-status');
     const multiplierElement = document.getElementById('multiplier');
     const distanceElement = document.getElementById('distance');
+    const speedElement = document.getElementById('speed-value');
+    const speedLimitElement = document.getElementById('speed-limit');
     const apiStatusElement = document.getElementById('api-status');
+    const laneElement = document.getElementById('lane-status');
     
     if (pointsElement) pointsElement.textContent = this.points.toLocaleString();
     if (statusElement) {
@@ -181,6 +308,23 @@ export class PointSystem {
     if (distanceElement) {
       distanceElement.textContent = `${Math.round(this.totalDistanceOnRoad)}M`;
     }
+    if (speedElement) {
+      speedElement.textContent = `${Math.round(Math.abs(this.currentSpeed) / MPH_TO_MPS)} MPH`;
+    }
+    if (speedLimitElement) {
+      // Inverted colors while speeding, like the off-road warning
+      const speeding = this.isSpeeding();
+      speedLimitElement.textContent = `${Math.round(this.speedLimit / MPH_TO_MPS)} MPH${speeding ? ' !' : ''}`;
+      speedLimitElement.style.color = speeding ? '#ffffff' : '#000000';
+      speedLimitElement.style.background = speeding ? '#000000' : 'transparent';
+    }
+    if (laneElement) {
+      // Inverted colors on the wrong side, like the speed limit when speeding
+      const wrongSide = this.lane?.status === 'wrongSide';
+      laneElement.textContent = this.formatLane();
+      laneElement.style.color = wrongSide ? '#ffffff' : '#000000';
+      laneElement.style.background = wrongSide ? '#000000' : 'transparent';
+    }
     if (apiStatusElement) {
       // This will be updated by the main system
       apiStatusElement.textContent = 'CHECKING...';
@@ -196,6 +340,13 @@ export class PointSystem {
     }
   }
   
+  private formatLane(): string {
+    if (!this.lane) return '-';
+    if (this.lane.status === 'wrongSide') return 'WRONG SIDE !';
+    if (this.lane.status === 'straddling') return 'ON THE LINE';
+    return `${this.lane.lane}/${this.lane.lanes}`;
+  }
+  
   // Update API status from external system
   updateApiStatus(status: string, color: string = '#FFD700') {
     const apiStatusElement = document.getElementById('api-status');
@@ -207,6 +358,12 @@ export class PointSystem {
     }
   }
   
+  // Award bonus points (see the PointsAwarded event)
+  addPoints(amount: number) {
+    this.points = Math.max(0, this.points + Math.floor(amount));
+    this.updateUI();
+  }
+  
   getPoints(): number {
     return this.points;
   }
@@ -215,29 +372,19 @@ export class PointSystem {
     return this.totalDistanceOnRoad;
   }
   
+  // Forget the last position so a teleport is not counted as distance
+  resetPosition() {
+    this.lastPosition = null;
+  }
+  
   reset() {
     this.points = 0;
     this.pointMultiplier = 1;
     this.lastPosition = null;
     this.consecutiveRoadTime = 0;
     this.totalDistanceOnRoad = 0;
+    this.speedingPenaltyTotal = 0;
+    this.wrongSidePenaltyTotal = 0;
     this.updateUI();
   }
-  
-  // Add achievement system
-  checkAchievements(): string[] {
-    const achievements: string[] = [];
-    
-    if (this.points >= 1000 && this.points < 2000) {
-      achievements.push('🎯 Road Warrior - 1000 points!');
-    } else if (this.points >= 5000) {
-      achievements.push('🏆 Master Driver - 5000 points!');
-    }
-    
-    if (this.totalDistanceOnRoad >= 1000) {
-      achievements.push('🛣️ Distance Master - 1km on roads!');
-    }
-    
-    return achievements;
-  }
 }
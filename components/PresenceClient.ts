@@ -0,0 +1,175 @@
+import { CONFIG } from '../config';
+import { AccessTokenProvider } from './TelemetrySync';
+
+/**
+ * Presence Client
+ * Shares the player's position over a WebSocket and receives the positions of
+ * other drivers nearby (protocol described in server/presence-server.mjs).
+ * Reconnects with exponential backoff when the connection drops.
+ */
+
+export const PRESENCE_PROTOCOL_VERSION = 1;
+
+export interface RemotePlayerState {
+  playerId: string;
+  nickname: string;
+  lat: number;
+  lng: number;
+  heading: number;
+  speed: number;     // Meters per second
+  updatedAt: number; // Server time of the update (epoch ms)
+}
+
+export interface PresenceHandlers {
+  onPlayers: (players: RemotePlayerState[]) => void;
+  onPlayerLeft: (playerId: string) => void;
+  onStatusChange?: (connected: boolean) => void;
+}
+
+type ServerMessage =
+  | { type: 'welcome'; playerId: string }
+  | { type: 'players'; players: RemotePlayerState[] }
+  | { type: 'left'; playerId: string }
+  | { type: 'error'; error: string };
+
+// Close codes from the server that retrying will not fix
+const FATAL_CLOSE_CODES = [4000, 4001, 4003, 4009];
+
+export class PresenceClient {
+  private url: string;
+  private getAccessToken: AccessTokenProvider;
+  private handlers: PresenceHandlers;
+  private socket: WebSocket | null = null;
+  private player: { playerId: string; nickname: string } | null = null;
+  private lastSent = 0;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private connected = false;
+
+  constructor(handlers: PresenceHandlers, getAccessToken: AccessTokenProvider, url: string = CONFIG.PRESENCE.URL) {
+    this.handlers = handlers;
+    this.getAccessToken = getAccessToken;
+    this.url = url;
+  }
+
+  // Join as a player, replacing any previous connection
+  connect(playerId: string, nickname: string): void {
+    this.disconnect();
+    this.player = { playerId, nickname };
+    this.open();
+  }
+
+  disconnect(): void {
+    this.player = null;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.socket) {
+      this.socket.onclose = null;
+      this.socket.close();
+      this.socket = null;
+    }
+    this.setConnected(false);
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  // Share our position, throttled to CONFIG.PRESENCE.SEND_INTERVAL
+  sendState(state: { lat: number; lng: number; heading: number; speed: number }): void {
+    if (!this.connected || !this.socket) return;
+
+    const now = Date.now();
+    if (now - this.lastSent < CONFIG.PRESENCE.SEND_INTERVAL) return;
+    this.lastSent = now;
+
+    this.socket.send(JSON.stringify({ type: 'state', ...state }));
+  }
+
+  private async open(): Promise<void> {
+    const player = this.player;
+    if (!player) return;
+
+    const token = await this.getAccessToken().catch(() => undefined);
+    // Disconnected or reconnected to someone else while waiting for the token
+    if (this.player !== player) return;
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (error) {
+      console.warn('Presence connection failed:', error);
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      socket.send(JSON.stringify({
+        type: 'hello',
+        version: PRESENCE_PROTOCOL_VERSION,
+        playerId: player.playerId,
+        nickname: player.nickname,
+        token,
+      }));
+    };
+    socket.onmessage = (event) => this.handleMessage(event.data);
+    socket.onclose = (event) => {
+      this.socket = null;
+      this.setConnected(false);
+      if (FATAL_CLOSE_CODES.includes(event.code)) {
+        console.warn(`Presence server closed the connection: ${event.reason || event.code}`);
+        return;
+      }
+      this.scheduleReconnect();
+    };
+  }
+
+  private handleMessage(data: unknown): void {
+    let message: ServerMessage;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      return;
+    }
+
+    switch (message.type) {
+      case 'welcome':
+        this.reconnectAttempt = 0;
+        this.setConnected(true);
+        break;
+      case 'players':
+        if (Array.isArray(message.players)) this.handlers.onPlayers(message.players);
+        break;
+      case 'left':
+        this.handlers.onPlayerLeft(message.playerId);
+        break;
+      case 'error':
+        console.warn('Presence server error:', message.error);
+        break;
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.player || this.reconnectTimer) return;
+
+    // Full jitter so many clients do not reconnect at the same moment
+    const backoff = Math.min(
+      CONFIG.PRESENCE.RECONNECT_MAX_DELAY,
+      CONFIG.PRESENCE.RECONNECT_BASE_DELAY * 2 ** this.reconnectAttempt
+    );
+    this.reconnectAttempt++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, Math.random() * backoff);
+  }
+
+  private setConnected(connected: boolean): void {
+    if (this.connected === connected) return;
+    this.connected = connected;
+    this.handlers.onStatusChange?.(connected);
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Question Packs
+ * Driving-theory questions authored as JSON content packs. Packs are
+ * validated against the schema below before any question is used.
+ */
+
+export const QUESTION_PACK_VERSION = 1;
+
+export const DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+export type Difficulty = typeof DIFFICULTIES[number];
+
+export interface Answer {
+  text: string;
+  correct: boolean;
+}
+
+export interface Question {
+  id: string;
+  category: string;
+  difficulty: Difficulty;
+  question: string;
+  answers: Answer[];
+  explanation?: string;
+  image?: string;  // URL, relative to the pack file
+  locale: string;  // Inherited from the pack unless set per question
+  packId: string;
+}
+
+export interface QuestionPack {
+  version: typeof QUESTION_PACK_VERSION;
+  id: string;
+  name: string;
+  locale: string;  // BCP 47 tag, e.g. "en-US"
+  region?: string; // e.g. "US-FL" for state-specific packs
+  questions: Question[];
+}
+
+export class QuestionPackError extends Error {
+  readonly problems: string[];
+
+  constructor(source: string, problems: string[]) {
+    super(`Invalid question pack ${source}: ${problems.join('; ')}`);
+    this.name = 'QuestionPackError';
+    this.problems = problems;
+  }
+}
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '';
+
+// Check raw JSON against the pack schema, returns a list of problems
+export function validateQuestionPack(data: any): string[] {
+  const problems: string[] = [];
+
+  if (!data || typeof data !== 'object') return ['pack must be a JSON object'];
+  if (data.version !== QUESTION_PACK_VERSION) problems.push(`version must be ${QUESTION_PACK_VERSION}`);
+  if (!isNonEmptyString(data.id)) problems.push('id must be a non-empty string');
+  if (!isNonEmptyString(data.name)) problems.push('name must be a non-empty string');
+  if (!isNonEmptyString(data.locale)) problems.push('locale must be a non-empty string');
+  if (data.region !== undefined && !isNonEmptyString(data.region)) problems.push('region must be a string');
+  if (!Array.isArray(data.questions) || data.questions.length === 0) {
+    problems.push('questions must be a non-empty array');
+    return problems;
+  }
+
+  const seenIds = new Set<string>();
+  data.questions.forEach((question: any, index: number) => {
+    const where = `questions[${index}]`;
+    if (!question || typeof question !== 'object') {
+      problems.push(`${where} must be an object`);
+      return;
+    }
+
+    if (!isNonEmptyString(question.id)) {
+      problems.push(`${where}.id must be a non-empty string`);
+    } else if (seenIds.has(question.id)) {
+      problems.push(`${where}.id "${question.id}" is used more than once`);
+    } else {
+      seenIds.add(question.id);
+    }
+
+    if (!isNonEmptyString(question.category)) problems.push(`${where}.category must be a non-empty string`);
+    if (!DIFFICULTIES.includes(question.difficulty)) {
+      problems.push(`${where}.difficulty must be one of ${DIFFICULTIES.join(', ')}`);
+    }
+    if (!isNonEmptyString(question.question)) problems.push(`${where}.question must be a non-empty string`);
+    if (question.explanation !== undefined && !isNonEmptyString(question.explanation)) {
+      problems.push(`${where}.explanation must be a string`);
+    }
+    if (question.image !== undefined && !isNonEmptyString(question.image)) {
+      problems.push(`${where}.image must be a string`);
+    }
+    if (question.locale !== undefined && !isNonEmptyString(question.locale)) {
+      problems.push(`${where}.locale must be a string`);
+    }
+
+    if (!Array.isArray(question.answers) || question.answers.length < 2) {
+      problems.push(`${where}.answers must have at least two entries`);
+      return;
+    }
+    question.answers.forEach((answer: any, answerIndex: number) => {
+      if (!answer || !isNonEmptyString(answer.text) || typeof answer.correct !== 'boolean') {
+        problems.push(`${where}.answers[${answerIndex}] needs text and a boolean correct`);
+      }
+    });
+    const correctCount = question.answers.filter((answer: any) => answer?.correct === true).length;
+    if (correctCount !== 1) problems.push(`${where} must have exactly one correct answer`);
+  });
+
+  return problems;
+}
+
+// Validate raw JSON and fill in inherited fields
+export function parseQuestionPack(data: any, source: string): QuestionPack {
+  const problems = validateQuestionPack(data);
+  if (problems.length > 0) throw new QuestionPackError(source, problems);
+
+  const baseUrl = new URL(source, window.location.href);
+  return {
+    ...data,
+    questions: data.questions.map((question: any) => ({
+      ...question,
+      locale: question.locale || data.locale,
+      image: question.image ? new URL(question.image, baseUrl).href : undefined,
+      packId: data.id,
+    })),
+  };
+}
+
+// Answers in a new random order each time a question is shown, so the
+// position of the correct one gives nothing away (Fisher-Yates)
+export function shuffleAnswers(answers: Answer[], random: () => number = Math.random): Answer[] {
+  const shuffled = [...answers];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// Two locales match when they share a language ("en-US" matches "en")
+export function localeMatches(locale: string, wanted: string): boolean {
+  return locale.toLowerCase().split('-')[0] === wanted.toLowerCase().split('-')[0];
+}
+
+// Download and validate packs; broken packs are reported and skipped
+export async function loadQuestionPacks(urls: string[]): Promise<QuestionPack[]> {
+  const results = await Promise.all(urls.map(async url => {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`);
+      }
+      return parseQuestionPack(await response.json(), url);
+    } catch (error) {
+      console.error(`Could not load question pack ${url}:`, error);
+      return null;
+    }
+  }));
+
+  return results.filter((pack): pack is QuestionPack => pack !== null);
+}
@@ -0,0 +1,85 @@
+import { Question } from './QuestionPack';
+
+type CategoryStats = { asked: number; wrong: number };
+
+/**
+ * Question Scheduler
+ * Picks questions at random without repeating any until the whole pool has
+ * been asked, favouring categories the player keeps getting wrong.
+ */
+export class QuestionScheduler {
+  private questions: Question[] = [];
+  private asked: Set<string> = new Set();
+  private stats: Map<string, CategoryStats> = new Map();
+  private lastQuestionId: string | null = null;
+  private wrongAnswerWeight: number;
+  private random: () => number;
+
+  constructor(wrongAnswerWeight: number, random: () => number = Math.random) {
+    this.wrongAnswerWeight = wrongAnswerWeight;
+    this.random = random;
+  }
+
+  setQuestions(questions: Question[]): void {
+    this.questions = questions;
+    this.asked.clear();
+  }
+
+  hasQuestions(): boolean {
+    return this.questions.length > 0;
+  }
+
+  // Pick the next question, optionally limited to some categories
+  next(categories?: string[]): Question | null {
+    let pool = this.questions;
+    if (categories && categories.length > 0) {
+      const matching = pool.filter(question => categories.includes(question.category));
+      if (matching.length > 0) pool = matching;
+    }
+    if (pool.length === 0) return null;
+
+    let candidates = pool.filter(question => !this.asked.has(question.id));
+    if (candidates.length === 0) {
+      // Every question in this pool was asked, start a new round
+      pool.forEach(question => this.asked.delete(question.id));
+      candidates = pool.filter(question => question.id !== this.lastQuestionId);
+      if (candidates.length === 0) candidates = pool;
+    }
+
+    const question = this.pickWeighted(candidates);
+    this.asked.add(question.id);
+    this.lastQuestionId = question.id;
+    return question;
+  }
+
+  // Record the player's answer so weak categories come up more often
+  recordAnswer(question: Question, correct: boolean): void {
+    const stats = this.stats.get(question.category) || { asked: 0, wrong: 0 };
+    stats.asked++;
+    if (!correct) stats.wrong++;
+    this.stats.set(question.category, stats);
+  }
+
+  // Category weight: 1 plus the (smoothed) share of wrong answers
+  getCategoryWeight(category: string): number {
+    const stats = this.stats.get(category);
+    if (!stats) return 1;
+    return 1 + this.wrongAnswerWeight * (stats.wrong / (stats.asked + 1));
+  }
+
+  getCategoryStats(): Map<string, CategoryStats> {
+    return new Map(this.stats);
+  }
+
+  private pickWeighted(candidates: Question[]): Question {
+    const weights = candidates.map(question => this.getCategoryWeight(question.category));
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+    let roll = this.random() * total;
+    for (let i = 0; i < candidates.length; i++) {
+      roll -= weights[i];
+      if (roll < 0) return candidates[i];
+    }
+    return candidates[candidates.length - 1];
+  }
+}
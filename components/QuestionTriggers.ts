@@ -0,0 +1,277 @@
+import { Intersection } from './RoadProvider';
+import { toLocalMeters } from './RoadGeometry';
+
+/**
+ * Question Triggers
+ * Decides when to ask a question from what the car is doing: approaching an
+ * intersection, speeding, leaving the road or entering a geofence. Rules and
+ * geofences are authored as JSON (see public/triggers/).
+ */
+
+export const TRIGGER_CONFIG_VERSION = 1;
+
+export type TriggerEvent = 'intersection' | 'speeding' | 'off-road' | 'geofence' | 'idle';
+const TRIGGER_EVENTS: TriggerEvent[] = ['intersection', 'speeding', 'off-road', 'geofence', 'idle'];
+
+export interface Geofence {
+  id: string;
+  name?: string;
+  lat: number;
+  lng: number;
+  radius: number; // Meters
+}
+
+export interface TriggerRule {
+  id: string;
+  event: TriggerEvent;
+  categories: string[];  // Question categories to draw from, empty = any
+  cooldown?: number;     // Milliseconds before this rule may fire again
+  distance?: number;     // intersection: meters before the intersection
+  speedThreshold?: number; // speeding: meters per second
+  minDuration?: number;  // speeding / off-road: how long the condition must hold (ms)
+  geofenceId?: string;   // geofence: which geofence, omit for any
+  after?: number;        // idle: milliseconds without a question
+}
+
+export interface TriggerConfig {
+  version: typeof TRIGGER_CONFIG_VERSION;
+  geofences: Geofence[];
+  rules: TriggerRule[];
+}
+
+// What the engine needs to know about the car each tick
+export interface DrivingSnapshot {
+  timestamp: number; // Milliseconds
+  lat: number;
+  lng: number;
+  heading: number;
+  speed: number;
+  isOnRoad: boolean;
+}
+
+export interface TriggerFired {
+  rule: TriggerRule;
+  categories: string[];
+  reason: string; // Short text for the question banner
+}
+
+export type IntersectionLookup = (lat: number, lng: number, radius: number) => Intersection[];
+
+const DEFAULT_INTERSECTION_DISTANCE = 35;
+
+export class QuestionTriggerEngine {
+  private rules: TriggerRule[] = [];
+  private geofences: Geofence[] = [];
+  private findIntersections: IntersectionLookup;
+  private minGap: number;
+
+  private lastFired: Map<string, number> = new Map();
+  private lastQuestionTime: number | null = null;
+  private speedingSince: number | null = null;
+  private offRoadSince: number | null = null;
+  private insideGeofences: Set<string> = new Set();
+  // Entered geofences that have not triggered a question yet
+  private pendingGeofences: Set<string> = new Set();
+  // Geofences the car has been outside of; one it starts inside (the start
+  // area around the spawn point) only counts once it has left and come back
+  private armedGeofences: Set<string> = new Set();
+  private passedIntersections: Set<string> = new Set();
+
+  constructor(findIntersections: IntersectionLookup, minGap: number) {
+    this.findIntersections = findIntersections;
+    this.minGap = minGap;
+  }
+
+  // Milliseconds that must pass between two questions
+  setMinGap(minGap: number): void {
+    this.minGap = minGap;
+  }
+
+  setConfig(config: TriggerConfig): void {
+    this.rules = config.rules;
+    this.geofences = config.geofences;
+  }
+
+  // Forget what the car was doing, e.g. after it is moved back to the start
+  reset(): void {
+    this.speedingSince = null;
+    this.offRoadSince = null;
+    this.insideGeofences.clear();
+    this.pendingGeofences.clear();
+    this.armedGeofences.clear();
+    this.passedIntersections.clear();
+  }
+
+  // Call when any question is shown so rules respect the minimum gap
+  notifyQuestionAsked(timestamp: number): void {
+    this.lastQuestionTime = timestamp;
+  }
+
+  // Evaluate all rules for this tick, returns the first that fires
+  update(snapshot: DrivingSnapshot): TriggerFired | null {
+    if (this.lastQuestionTime === null) this.lastQuestionTime = snapshot.timestamp;
+
+    // Conditions are tracked every tick, even while rules are cooling down
+    const enteredGeofences = this.trackGeofences(snapshot);
+    const intersection = this.trackIntersections(snapshot);
+    this.speedingSince = this.trackDuration(this.speedingSince, this.isSpeeding(snapshot), snapshot.timestamp);
+    this.offRoadSince = this.trackDuration(this.offRoadSince, !snapshot.isOnRoad && snapshot.speed !== 0, snapshot.timestamp);
+
+    if (snapshot.timestamp - this.lastQuestionTime < this.minGap) return null;
+
+    for (const rule of this.rules) {
+      const lastFired = this.lastFired.get(rule.id);
+      if (lastFired !== undefined && snapshot.timestamp - lastFired < (rule.cooldown || 0)) continue;
+
+      const reason = this.evaluate(rule, snapshot, enteredGeofences, intersection);
+      if (reason) {
+        this.lastFired.set(rule.id, snapshot.timestamp);
+        this.notifyQuestionAsked(snapshot.timestamp);
+        return { rule, categories: rule.categories, reason };
+      }
+    }
+    return null;
+  }
+
+  private evaluate(
+    rule: TriggerRule,
+    snapshot: DrivingSnapshot,
+    enteredGeofences: Geofence[],
+    intersection: Intersection | null
+  ): string | null {
+    switch (rule.event) {
+      case 'intersection':
+        if (!intersection || this.distanceTo(snapshot, intersection) > (rule.distance || DEFAULT_INTERSECTION_DISTANCE)) {
+          return null;
+        }
+        // Ask once per intersection until the car has left it behind
+        this.passedIntersections.add(intersection.id);
+        return 'INTERSECTION AHEAD!';
+      case 'speeding':
+        return this.heldFor(this.speedingSince, rule, snapshot) && Math.abs(snapshot.speed) > (rule.speedThreshold || 0)
+          ? 'SLOW DOWN!'
+          : null;
+      case 'off-road':
+        return this.heldFor(this.offRoadSince, rule, snapshot) ? 'STAY ON THE ROAD!' : null;
+      case 'geofence': {
+        const geofence = enteredGeofences.find(fence => !rule.geofenceId || fence.id === rule.geofenceId);
+        if (!geofence) return null;
+        this.pendingGeofences.delete(geofence.id);
+        return (geofence.name || geofence.id).toUpperCase();
+      }
+      case 'idle':
+        return snapshot.timestamp - (this.lastQuestionTime || 0) >= (rule.after || 0) ? 'QUESTION TIME!' : null;
+    }
+  }
+
+  private isSpeeding(snapshot: DrivingSnapshot): boolean {
+    const thresholds = this.rules
+      .filter(rule => rule.event === 'speeding')
+      .map(rule => rule.speedThreshold || 0);
+    return thresholds.length > 0 && Math.abs(snapshot.speed) > Math.min(...thresholds);
+  }
+
+  private trackDuration(since: number | null, active: boolean, timestamp: number): number | null {
+    if (!active) return null;
+    return since === null ? timestamp : since;
+  }
+
+  private heldFor(since: number | null, rule: TriggerRule, snapshot: DrivingSnapshot): boolean {
+    return since !== null && snapshot.timestamp - since >= (rule.minDuration || 0);
+  }
+
+  // Geofences the car entered from outside and is still inside that have not fired yet
+  private trackGeofences(snapshot: DrivingSnapshot): Geofence[] {
+    this.geofences.forEach(fence => {
+      const inside = this.distanceTo(snapshot, fence) <= fence.radius;
+      if (inside && !this.insideGeofences.has(fence.id)) {
+        this.insideGeofences.add(fence.id);
+        if (this.armedGeofences.has(fence.id)) this.pendingGeofences.add(fence.id);
+      } else if (!inside) {
+        this.armedGeofences.add(fence.id);
+        this.insideGeofences.delete(fence.id);
+        this.pendingGeofences.delete(fence.id);
+      }
+    });
+    return this.geofences.filter(fence => this.pendingGeofences.has(fence.id));
+  }
+
+  // Closest intersection ahead of the car that has not been asked about yet
+  private trackIntersections(snapshot: DrivingSnapshot): Intersection | null {
+    const radius = Math.max(
+      DEFAULT_INTERSECTION_DISTANCE,
+      ...this.rules.filter(rule => rule.event === 'intersection').map(rule => rule.distance || 0)
+    );
+    const nearby = this.findIntersections(snapshot.lat, snapshot.lng, radius);
+
+    // Forget intersections the car has left behind so they can fire next time
+    const nearbyIds = new Set(nearby.map(intersection => intersection.id));
+    this.passedIntersections.forEach(id => {
+      if (!nearbyIds.has(id)) this.passedIntersections.delete(id);
+    });
+
+    let closest: Intersection | null = null;
+    let closestDistance = Infinity;
+    for (const intersection of nearby) {
+      if (this.passedIntersections.has(intersection.id) || !this.isAhead(snapshot, intersection)) continue;
+      const distance = this.distanceTo(snapshot, intersection);
+      if (distance < closestDistance) {
+        closest = intersection;
+        closestDistance = distance;
+      }
+    }
+    return closest;
+  }
+
+  // Within 60 degrees either side of the direction of travel
+  private isAhead(snapshot: DrivingSnapshot, target: { lat: number; lng: number }): boolean {
+    const offset = toLocalMeters(snapshot, target);
+    const bearing = Math.atan2(offset.x, offset.y) * 180 / Math.PI;
+    const travelHeading = snapshot.speed < 0 ? snapshot.heading + 180 : snapshot.heading;
+    let difference = Math.abs((bearing - travelHeading) % 360);
+    if (difference > 180) difference = 360 - difference;
+    return difference <= 60;
+  }
+
+  private distanceTo(snapshot: DrivingSnapshot, target: { lat: number; lng: number }): number {
+    const offset = toLocalMeters(snapshot, target);
+    return Math.hypot(offset.x, offset.y);
+  }
+}
+
+// Check raw JSON against the trigger config schema, returns a list of problems
+export function validateTriggerConfig(data: any): string[] {
+  const problems: string[] = [];
+  if (!data || typeof data !== 'object') return ['config must be a JSON object'];
+  if (data.version !== TRIGGER_CONFIG_VERSION) problems.push(`version must be ${TRIGGER_CONFIG_VERSION}`);
+  if (!Array.isArray(data.rules)) problems.push('rules must be an array');
+  if (data.geofences !== undefined && !Array.isArray(data.geofences)) problems.push('geofences must be an array');
+
+  (data.geofences || []).forEach((fence: any, index: number) => {
+    const valid = fence && typeof fence.id === 'string' &&
+      Number.isFinite(fence.lat) && Number.isFinite(fence.lng) && fence.radius > 0;
+    if (!valid) problems.push(`geofences[${index}] needs id, lat, lng and a positive radius`);
+  });
+
+  (data.rules || []).forEach((rule: any, index: number) => {
+    if (!rule || typeof rule.id !== 'string') problems.push(`rules[${index}].id must be a string`);
+    if (!TRIGGER_EVENTS.includes(rule?.event)) problems.push(`rules[${index}].event must be one of ${TRIGGER_EVENTS.join(', ')}`);
+    if (!Array.isArray(rule?.categories)) problems.push(`rules[${index}].categories must be an array`);
+  });
+
+  return problems;
+}
+
+export async function loadTriggerConfig(url: string): Promise<TriggerConfig> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Trigger config download failed: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  const problems = validateTriggerConfig(data);
+  if (problems.length > 0) {
+    throw new Error(`Invalid trigger config ${url}: ${problems.join('; ')}`);
+  }
+  return { version: data.version, geofences: data.geofences || [], rules: data.rules };
+}
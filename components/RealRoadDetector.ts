@@ -1,136 +1,237 @@
 import { CONFIG } from '../config';
+import { Intersection, RoadProvider, RoadProviderError, MPH_TO_MPS } from './RoadProvider';
+import { DetectorHealth } from './DetectorHealth';
+import { moveAlongHeading } from './RoadGeometry';
+import { RoadQuery, RoadSegmentCache, snapDistance } from './RoadSegmentCache';
 
-export class RealRoadDetector {
+export class RealRoadDetector implements RoadProvider {
+  readonly name = 'Real Roads API';
+  readonly health: DetectorHealth;
   private map: google.maps.Map;
   private apiKey: string;
-  private cache: Map<string, boolean> = new Map();
-  private cacheTimeout: number = CONFIG.ROADS_API.CACHE_TIMEOUT;
+  private segmentCache: RoadSegmentCache;
   private requestTimeout: number = 5000; // 5 second timeout
   private roadTolerance: number = CONFIG.ROADS_API.ROAD_TOLERANCE;
-  private lastCacheTime: Map<string, number> = new Map();
+  private speedLimitCache: Map<string, { limit: number | null; time: number }> = new Map();
+  private pending: Map<string, Promise<boolean>> = new Map();
+  private requestTimes: number[] = [];
+  private predicting = false;
+  private latestAnswer: boolean | null = null;
   
-  constructor(map: google.maps.Map, apiKey: string) {
+  constructor(map: google.maps.Map, apiKey: string, segmentCache: RoadSegmentCache = new RoadSegmentCache(),
+              health: DetectorHealth = new DetectorHealth()) {
     this.map = map;
     this.apiKey = apiKey;
+    this.segmentCache = segmentCache;
+    this.health = health;
+    // Roads fetched on earlier visits answer lookups once they are read back
+    this.segmentCache.load();
   }
   
-  async isOnRoad(lat: number, lng: number): Promise<boolean> {
-    // Create cache key for this coordinate (rounded to 5 decimal places for caching)
-    const cacheKey = `${lat.toFixed(5)},${lng.toFixed(5)}`;
+  // Rejects with a RoadProviderError when the lookup fails or the API is
+  // not being asked because of earlier failures. Over the request budget
+  // this is the latest completed answer, null before the first one
+  async isOnRoad(lat: number, lng: number): Promise<boolean | null> {
+    // Check the cached road geometry first
+    const cached = this.segmentCache.lookup(lat, lng, this.roadTolerance);
+    if (cached !== null) return cached;
     
-    // Check cache first
-    if (this.isCacheValid(cacheKey)) {
-      return this.cache.get(cacheKey) || false;
+    // Share a lookup of the same spot that is already on its way
+    const pendingKey = this.pendingKey(lat, lng);
+    const pending = this.pending.get(pendingKey);
+    if (pending) return pending;
+    
+    if (!this.hasRequestBudget()) {
+      return this.latestAnswer;
     }
+    this.checkHealth();
+    
+    const request = this.requestNearestRoads([{ lat, lng }])
+      .then(results => results[0])
+      .finally(() => this.pending.delete(pendingKey));
+    this.pending.set(pendingKey, request);
+    return request;
+  }
+  
+  // Synchronous check for per-frame scoring. Answers come from the cached
+  // road geometry; the stretch ahead is fetched in one batch once the cache
+  // cannot answer for the point halfway along it. Until an answer for this
+  // spot arrives the latest completed answer is returned, so scoring never
+  // waits on (or races) a request. While lookups fail only cached answers
+  // are given, an old answer is not passed off as the current one.
+  isOnRoadNow(lat: number, lng: number, heading: number, speed: number): boolean | null {
+    const answer = this.segmentCache.lookup(lat, lng, this.roadTolerance);
+    if (answer !== null) this.latestAnswer = answer;
+    
+    // In reverse the car drives away from where it is facing
+    const travelHeading = speed < 0 ? heading + 180 : heading;
+    const halfway = moveAlongHeading({ lat, lng }, Math.abs(speed) * CONFIG.ROADS_API.PREDICTION.LOOK_AHEAD_TIME / 2, travelHeading);
+    if (answer === null || this.segmentCache.peek(halfway.lat, halfway.lng, this.roadTolerance) === null) {
+      this.predictPath(lat, lng, travelHeading, speed);
+    }
+    return this.health.isReliable() ? this.latestAnswer : answer;
+  }
+  
+  // Check the points the car will drive over in the next few seconds
+  private predictPath(lat: number, lng: number, travelHeading: number, speed: number): void {
+    if (this.predicting || !this.hasRequestBudget()) return;
+    
+    const { LOOK_AHEAD_TIME, SPACING, MAX_POINTS } = CONFIG.ROADS_API.PREDICTION;
+    const count = Math.min(MAX_POINTS, 1 + Math.ceil(Math.abs(speed) * LOOK_AHEAD_TIME / SPACING));
+    const path = Array.from({ length: count }, (_, index) => moveAlongHeading({ lat, lng }, index * SPACING, travelHeading));
+    
+    // Only ask for points that are not known or on their way already
+    const missing = path.filter(point =>
+      this.segmentCache.peek(point.lat, point.lng, this.roadTolerance) === null && !this.pending.has(this.pendingKey(point.lat, point.lng))
+    );
+    if (missing.length === 0 || !this.health.allowRequest()) return;
+    
+    this.predicting = true;
+    this.requestNearestRoads(missing)
+      .then(() => {
+        const answer = this.segmentCache.peek(lat, lng, this.roadTolerance);
+        if (answer !== null) this.latestAnswer = answer;
+      })
+      // Already logged and recorded in the detector health
+      .catch(() => undefined)
+      .finally(() => {
+        this.predicting = false;
+      });
+  }
+  
+  // Batch check multiple points in one request, caching every answer.
+  // Answers and rejects like isOnRoad
+  async checkMultiplePoints(points: { lat: number; lng: number }[]): Promise<(boolean | null)[]> {
+    if (points.length === 0) return [];
+    if (!this.hasRequestBudget()) return new Array(points.length).fill(this.latestAnswer);
+    this.checkHealth();
+    
+    return this.requestNearestRoads(points);
+  }
+  
+  // Throw the failure keeping requests back until a retry or probe is due
+  private checkHealth(): void {
+    if (!this.health.allowRequest()) {
+      throw this.health.getLastError() ?? new RoadProviderError('server', 'Road lookups are paused');
+    }
+  }
+  
+  // One nearestRoads request; the snapped roads go into the segment cache.
+  // Returns whether each point is on a road, the outcome goes to the health
+  private async requestNearestRoads(points: { lat: number; lng: number }[]): Promise<boolean[]> {
+    this.requestTimes.push(Date.now());
     
     try {
-      // Use Google Maps Roads API with timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.requestTimeout);
-      
-      const response = await fetch(
-        `https://roads.googleapis.com/v1/nearestRoads?points=${lat},${lng}&key=${this.apiKey}`,
-        { signal: controller.signal }
+      const pointsString = points.map(point => this.formatPoint(point.lat, point.lng)).join('|');
+      const response = await this.fetchWithTimeout(
+        `https://roads.googleapis.com/v1/nearestRoads?points=${pointsString}&key=${this.apiKey}`
       );
       
-      clearTimeout(timeoutId);
-      
       if (!response.ok) {
-        console.warn(`Roads API error: ${response.status} ${response.statusText}`);
-        return false;
+        throw RoadProviderError.fromStatus(response.status, response.statusText);
       }
       
       const data = await response.json();
+      this.health.recordSuccess();
       
-      // Check if we have snapped points
-      if (data.snappedPoints && data.snappedPoints.length > 0) {
-        const snappedPoint = data.snappedPoints[0];
-        
-        // Calculate distance from original point to snapped point
-        const originalLat = lat;
-        const originalLng = lng;
-        const snappedLat = snappedPoint.location.latitude;
-        const snappedLng = snappedPoint.location.longitude;
-        
-        const distance = this.calculateDistance(
-          { lat: originalLat, lng: originalLng },
-          { lat: snappedLat, lng: snappedLng }
-        );
-        
-        // Only consider it "on road" if the snap distance is small (within tolerance)
-        const isOnRoad = distance <= this.roadTolerance;
-        
-        if (CONFIG.ROADS_API.DEBUG_MODE) {
-          console.log(`Road detection: Original(${originalLat.toFixed(6)}, ${originalLng.toFixed(6)}) -> Snapped(${snappedLat.toFixed(6)}, ${snappedLng.toFixed(6)}) Distance: ${distance.toFixed(2)}m (tolerance: ${this.roadTolerance}m) -> ${isOnRoad ? 'ON ROAD' : 'OFF ROAD'}`);
-        }
-        
-        // Cache the result
-        this.cache.set(cacheKey, isOnRoad);
-        this.lastCacheTime.set(cacheKey, Date.now());
-        
-        return isOnRoad;
-      } else {
-        // No snapped points = definitely off road
-        if (CONFIG.ROADS_API.DEBUG_MODE) {
-          console.log(`Road detection: No roads found near (${lat.toFixed(6)}, ${lng.toFixed(6)}) -> OFF ROAD`);
+      // A point can snap to several nearby roads, the closest one counts
+      const queries: RoadQuery[] = points.map(point => ({ lat: point.lat, lng: point.lng, snapped: [] }));
+      (data.snappedPoints || []).forEach((snappedPoint: any) => {
+        const query = queries[snappedPoint.originalIndex ?? 0];
+        if (!query) return;
+        query.snapped.push({
+          lat: snappedPoint.location.latitude,
+          lng: snappedPoint.location.longitude,
+          placeId: snappedPoint.placeId,
+        });
+      });
+      this.segmentCache.addResults(queries);
+      
+      const results = queries.map(query => snapDistance(query) <= this.roadTolerance);
+      if (CONFIG.ROADS_API.DEBUG_MODE) {
+        if (queries.length === 1) {
+          const distance = snapDistance(queries[0]);
+          console.log(`Road detection: (${queries[0].lat.toFixed(6)}, ${queries[0].lng.toFixed(6)}) ${distance === Infinity ? 'no roads found' : `snapped ${distance.toFixed(2)}m away`} (tolerance: ${this.roadTolerance}m) -> ${results[0] ? 'ON ROAD' : 'OFF ROAD'}`);
+        } else {
+          console.log(`Road detection: batch of ${points.length} points -> ${results.filter(Boolean).length} ON ROAD`);
         }
-        this.cache.set(cacheKey, false);
-        this.lastCacheTime.set(cacheKey, Date.now());
-        return false;
       }
+      return results;
     } catch (error) {
-      console.error('Road detection failed:', error);
-      return false;
+      const failure = RoadProviderError.from(error);
+      console.warn(`Road detection failed (${failure.kind}):`, failure.message);
+      this.health.recordFailure(failure);
+      throw failure;
     }
   }
   
-  private isCacheValid(cacheKey: string): boolean {
-    const lastTime = this.lastCacheTime.get(cacheKey);
-    if (!lastTime) return false;
-    
-    return (Date.now() - lastTime) < this.cacheTimeout;
+  // Lookups on their way are shared within a ~1 m cell
+  private pendingKey(lat: number, lng: number): string {
+    return `${lat.toFixed(5)},${lng.toFixed(5)}`;
   }
   
-  // Batch check multiple points (more efficient for multiple checks)
-  async checkMultiplePoints(points: { lat: number; lng: number }[]): Promise<boolean[]> {
-    if (points.length === 0) return [];
+  // Coordinates as sent to the API, ~10 cm precision
+  private formatPoint(lat: number, lng: number): string {
+    return `${lat.toFixed(6)},${lng.toFixed(6)}`;
+  }
+  
+  // nearestRoads requests made in the last second stay under the budget
+  private hasRequestBudget(): boolean {
+    const now = Date.now();
+    this.requestTimes = this.requestTimes.filter(time => now - time < 1000);
+    return this.requestTimes.length < CONFIG.ROADS_API.MAX_REQUESTS_PER_SECOND;
+  }
+  
+  private async fetchWithTimeout(url: string): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.requestTimeout);
+    try {
+      return await fetch(url, { signal: controller.signal });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+  
+  // Intersections the road data fetched so far shows, nearestRoads has no road graph
+  findIntersections(lat: number, lng: number, radius: number): Intersection[] {
+    return this.segmentCache.findIntersections(lat, lng, radius);
+  }
+  
+  // Posted speed limit from the Roads API speedLimits endpoint
+  async getSpeedLimit(lat: number, lng: number): Promise<number | null> {
+    // Speed limits change rarely, cache them on a ~10 meter grid
+    const cacheKey = `${lat.toFixed(4)},${lng.toFixed(4)}`;
+    const cached = this.speedLimitCache.get(cacheKey);
+    if (cached && Date.now() - cached.time < CONFIG.SPEED_LIMITS.CACHE_TIMEOUT) {
+      return cached.limit;
+    }
     
     try {
-      // Format points for batch API call
-      const pointsString = points.map(p => `${p.lat},${p.lng}`).join('|');
-      
       const response = await fetch(
-        `https://roads.googleapis.com/v1/nearestRoads?points=${pointsString}&key=${this.apiKey}`
+        `https://roads.googleapis.com/v1/speedLimits?path=${lat},${lng}&units=MPH&key=${this.apiKey}`
       );
       
       if (!response.ok) {
-        console.warn(`Roads API error: ${response.status} ${response.statusText}`);
-        return new Array(points.length).fill(false);
+        console.warn(`Speed limits API error: ${response.status} ${response.statusText}`);
+        return null;
       }
       
       const data = await response.json();
-      const results = new Array(points.length).fill(false);
+      const speedLimit = data.speedLimits && data.speedLimits[0];
+      const limit = speedLimit ? speedLimit.speedLimit * MPH_TO_MPS : null;
       
-      // Mark snapped points as on road
-      if (data.snappedPoints) {
-        data.snappedPoints.forEach((snappedPoint: any) => {
-          if (snappedPoint.originalIndex !== undefined) {
-            results[snappedPoint.originalIndex] = true;
-          }
-        });
-      }
-      
-      return results;
+      this.speedLimitCache.set(cacheKey, { limit, time: Date.now() });
+      return limit;
     } catch (error) {
-      console.error('Batch road detection failed:', error);
-      return new Array(points.length).fill(false);
+      console.error('Speed limit lookup failed:', error);
+      return null;
     }
   }
   
   // Clear cache (useful for testing or when you want fresh data)
   clearCache(): void {
-    this.cache.clear();
-    this.lastCacheTime.clear();
+    this.segmentCache.clear();
+    this.speedLimitCache.clear();
   }
   
   // Adjust road tolerance (how close you need to be to a road)
@@ -144,27 +245,14 @@ export class RealRoadDetector {
     return this.roadTolerance;
   }
   
-  // Get cache statistics
-  getCacheStats(): { size: number; hitRate: number } {
+  // Get cache statistics, hits and misses count lookups answered locally
+  getCacheStats(): { size: number; hitRate: number; hits: number; misses: number } {
+    const stats = this.segmentCache.getStats();
     return {
-      size: this.cache.size,
-      hitRate: this.cache.size / (this.cache.size + this.lastCacheTime.size) || 0
+      size: stats.roads + stats.probes,
+      hitRate: stats.hitRate,
+      hits: stats.hits,
+      misses: stats.misses
     };
   }
-  
-  // Calculate distance between two points in meters
-  private calculateDistance(pos1: { lat: number; lng: number }, pos2: { lat: number; lng: number }): number {
-    const R = 6371e3; // Earth's radius in meters
-    const φ1 = pos1.lat * Math.PI / 180;
-    const φ2 = pos2.lat * Math.PI / 180;
-    const Δφ = (pos2.lat - pos1.lat) * Math.PI / 180;
-    const Δλ = (pos2.lng - pos1.lng) * Math.PI / 180;
-
-    const a = Math.sin(Δφ/2) * Math.sin(Δφ/2) +
-              Math.cos(φ1) * Math.cos(φ2) *
-              Math.sin(Δλ/2) * Math.sin(Δλ/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-
-    return R * c; // Distance in meters
-  }
 }
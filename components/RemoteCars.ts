@@ -0,0 +1,192 @@
+import * as THREE from "three";
+import { CONFIG } from '../config';
+import { Car } from './Car';
+import { RemotePlayerState } from './PresenceClient';
+import { LatLng, moveAlongHeading } from './RoadGeometry';
+
+type ToVector3 = (position: { lat: number; lng: number; altitude: number }) => THREE.Vector3;
+
+interface Snapshot {
+  receivedAt: number; // performance.now() when the update arrived
+  updatedAt: number;  // Server time of the update
+  lat: number;
+  lng: number;
+  heading: number;
+  speed: number;
+}
+
+interface RemoteCar {
+  car: Car;
+  label: THREE.Sprite;
+  snapshots: Snapshot[];
+}
+
+const MAX_SNAPSHOTS = 8;
+const LABEL_ALTITUDE = 12; // Meters above the road
+const REMOTE_COLORS = [0x4488ff, 0x44cc66, 0xffaa22, 0xaa66ff, 0x22cccc, 0xff66aa];
+
+/**
+ * Remote Cars
+ * Draws the other drivers reported by the presence server. Positions are
+ * rendered slightly in the past and interpolated between updates; when
+ * updates stop arriving the car keeps moving along its heading for a moment.
+ */
+export class RemoteCars {
+  private scene: THREE.Object3D;
+  private toVector3: ToVector3;
+  private cars: Map<string, RemoteCar> = new Map();
+  // Last update of each car removed for going quiet, so a repeat of it
+  // does not bring the car back
+  private expired: Map<string, number> = new Map();
+
+  constructor(scene: THREE.Object3D, toVector3: ToVector3) {
+    this.scene = scene;
+    this.toVector3 = toVector3;
+  }
+
+  // Store the latest update for each player, adding cars for new players
+  applyUpdate(players: RemotePlayerState[], receivedAt: number = performance.now()): void {
+    players.forEach(player => {
+      const expiredAt = this.expired.get(player.playerId);
+      if (expiredAt !== undefined && player.updatedAt <= expiredAt) return;
+      this.expired.delete(player.playerId);
+
+      let remote = this.cars.get(player.playerId);
+      if (!remote) {
+        remote = this.createCar(player);
+        this.cars.set(player.playerId, remote);
+      }
+
+      // The server repeats the last state when a driver goes quiet, only new
+      // updates are kept so the car is extrapolated instead of frozen
+      const last = remote.snapshots[remote.snapshots.length - 1];
+      if (last && last.updatedAt === player.updatedAt) return;
+
+      remote.snapshots.push({
+        receivedAt,
+        updatedAt: player.updatedAt,
+        lat: player.lat,
+        lng: player.lng,
+        heading: player.heading,
+        speed: player.speed,
+      });
+      if (remote.snapshots.length > MAX_SNAPSHOTS) remote.snapshots.shift();
+    });
+  }
+
+  remove(playerId: string): void {
+    const remote = this.cars.get(playerId);
+    if (!remote) return;
+
+    this.scene.remove(remote.car, remote.label);
+    remote.car.traverse(object => {
+      if (object instanceof THREE.Mesh) {
+        object.geometry.dispose();
+        (object.material as THREE.Material).dispose();
+      }
+    });
+    remote.label.material.map?.dispose();
+    remote.label.material.dispose();
+    this.cars.delete(playerId);
+  }
+
+  clear(): void {
+    [...this.cars.keys()].forEach(playerId => this.remove(playerId));
+    this.expired.clear();
+  }
+
+  getCount(): number {
+    return this.cars.size;
+  }
+
+  // Place every remote car for this frame (call after the overlay anchor moved)
+  update(deltaTime: number, now: number = performance.now()): void {
+    const renderTime = now - CONFIG.PRESENCE.INTERPOLATION_DELAY;
+
+    this.cars.forEach((remote, playerId) => {
+      const last = remote.snapshots[remote.snapshots.length - 1];
+      if (!last || now - last.receivedAt > CONFIG.PRESENCE.STALE_TIMEOUT) {
+        if (last) this.expired.set(playerId, last.updatedAt);
+        this.remove(playerId);
+        return;
+      }
+
+      const state = this.sample(remote.snapshots, renderTime);
+      remote.car.position.copy(this.toVector3({ lat: state.lat, lng: state.lng, altitude: 1 }));
+      remote.car.updateHeading(state.heading);
+      remote.car.updateWheelRotation(state.speed);
+      remote.car.animateWheels(deltaTime);
+      remote.label.position.copy(this.toVector3({ lat: state.lat, lng: state.lng, altitude: LABEL_ALTITUDE }));
+    });
+  }
+
+  // Interpolate between the snapshots around renderTime, or extrapolate past the last one
+  private sample(snapshots: Snapshot[], renderTime: number): LatLng & { heading: number; speed: number } {
+    const first = snapshots[0];
+    if (renderTime <= first.receivedAt) return first;
+
+    for (let i = 1; i < snapshots.length; i++) {
+      const from = snapshots[i - 1];
+      const to = snapshots[i];
+      if (renderTime > to.receivedAt) continue;
+
+      const alpha = (renderTime - from.receivedAt) / (to.receivedAt - from.receivedAt);
+      let headingDelta = (to.heading - from.heading) % 360;
+      if (headingDelta > 180) headingDelta -= 360;
+      if (headingDelta < -180) headingDelta += 360;
+      return {
+        lat: from.lat + (to.lat - from.lat) * alpha,
+        lng: from.lng + (to.lng - from.lng) * alpha,
+        heading: from.heading + headingDelta * alpha,
+        speed: from.speed + (to.speed - from.speed) * alpha,
+      };
+    }
+
+    // Dead reckoning for a short while, then wait where the car would be
+    const last = snapshots[snapshots.length - 1];
+    const ahead = Math.min(renderTime - last.receivedAt, CONFIG.PRESENCE.MAX_EXTRAPOLATION) / 1000;
+    return { ...moveAlongHeading(last, last.speed * ahead, last.heading), heading: last.heading, speed: last.speed };
+  }
+
+  private createCar(player: RemotePlayerState): RemoteCar {
+    const car = new Car();
+    car.setBodyColor(REMOTE_COLORS[this.hash(player.playerId) % REMOTE_COLORS.length]);
+    const label = this.createLabel(player.nickname);
+    this.scene.add(car, label);
+    return { car, label, snapshots: [] };
+  }
+
+  // Game Boy style name tag that always faces the camera
+  private createLabel(nickname: string): THREE.Sprite {
+    const canvas = document.createElement('canvas');
+    canvas.width = 256;
+    canvas.height = 64;
+    const context = canvas.getContext('2d');
+    if (context) {
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.strokeStyle = '#000000';
+      context.lineWidth = 8;
+      context.strokeRect(4, 4, canvas.width - 8, canvas.height - 8);
+      context.fillStyle = '#000000';
+      context.font = "16px 'Press Start 2P', monospace";
+      context.textAlign = 'center';
+      context.textBaseline = 'middle';
+      context.fillText(nickname.toUpperCase().slice(0, 12), canvas.width / 2, canvas.height / 2);
+    }
+
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.magFilter = THREE.NearestFilter;
+    const label = new THREE.Sprite(new THREE.SpriteMaterial({ map: texture, depthTest: false }));
+    label.scale.set(16, 4, 1);
+    return label;
+  }
+
+  private hash(text: string): number {
+    let hash = 0;
+    for (let i = 0; i < text.length; i++) {
+      hash = (hash * 31 + text.charCodeAt(i)) >>> 0;
+    }
+    return hash;
+  }
+}
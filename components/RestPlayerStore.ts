@@ -0,0 +1,65 @@
+import { CONFIG } from '../config';
+import { AccessTokenProvider } from './TelemetrySync';
+import { PlayerStore, PlayerProfile, SessionResult, LeaderboardPeriod, LeaderboardEntry, periodStart } from './PlayerStore';
+
+/**
+ * REST Player Store
+ * Talks to the player API of the backend (see server/telemetry-server.mjs):
+ *
+ *   GET  /players/:id             profile
+ *   PUT  /players/:id             save profile
+ *   GET  /players/:id/results     history, newest first
+ *   POST /results                 save a session result
+ *   GET  /leaderboard?since&limit best result per player since `since`
+ */
+export class RestPlayerStore implements PlayerStore {
+  readonly name = 'Online';
+  private baseUrl: string;
+  private getAccessToken: AccessTokenProvider;
+
+  constructor(getAccessToken: AccessTokenProvider, baseUrl: string = CONFIG.PLAYERS.API_URL) {
+    this.getAccessToken = getAccessToken;
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T | null> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const token = await this.getAccessToken().catch(() => undefined);
+    if (token) headers.Authorization = `Bearer ${token}`;
+
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Player API ${method} ${path} failed: ${response.status} ${response.statusText}`);
+    }
+    return response.status === 204 ? null : await response.json() as T;
+  }
+
+  getProfile(playerId: string): Promise<PlayerProfile | null> {
+    return this.request<PlayerProfile>('GET', `/players/${encodeURIComponent(playerId)}`);
+  }
+
+  async saveProfile(profile: PlayerProfile): Promise<void> {
+    await this.request('PUT', `/players/${encodeURIComponent(profile.playerId)}`, profile);
+  }
+
+  async saveSession(result: SessionResult): Promise<void> {
+    await this.request('POST', '/results', result);
+  }
+
+  async getHistory(playerId: string, limit: number): Promise<SessionResult[]> {
+    const history = await this.request<SessionResult[]>('GET', `/players/${encodeURIComponent(playerId)}/results?limit=${limit}`);
+    return history || [];
+  }
+
+  async getLeaderboard(period: LeaderboardPeriod, limit: number): Promise<LeaderboardEntry[]> {
+    // The period is resolved here so days and weeks follow the player's timezone
+    const entries = await this.request<LeaderboardEntry[]>('GET', `/leaderboard?since=${periodStart(period)}&limit=${limit}`);
+    return entries || [];
+  }
+}
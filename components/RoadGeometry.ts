@@ -0,0 +1,48 @@
+/**
+ * Road Geometry Helpers
+ * Small planar math utilities for measuring distances between the car and
+ * road segments. Segments are short, so an equirectangular projection around
+ * the query point is accurate to well under a meter.
+ */
+
+export type LatLng = { lat: number; lng: number };
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+// Project a position into local meters relative to an origin
+export function toLocalMeters(origin: LatLng, point: LatLng): { x: number; y: number } {
+  const metersPerDegreeLng = METERS_PER_DEGREE_LAT * Math.cos(origin.lat * Math.PI / 180);
+  return {
+    x: (point.lng - origin.lng) * metersPerDegreeLng,
+    y: (point.lat - origin.lat) * METERS_PER_DEGREE_LAT,
+  };
+}
+
+// Distance in meters from a point to the segment a-b
+export function distanceToSegment(point: LatLng, a: LatLng, b: LatLng): number {
+  const start = toLocalMeters(point, a);
+  const end = toLocalMeters(point, b);
+
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+
+  // Degenerate segment, measure to its only point
+  if (lengthSquared === 0) {
+    return Math.hypot(start.x, start.y);
+  }
+
+  // Parameter of the closest point on the segment, clamped to its ends
+  const t = Math.max(0, Math.min(1, -(start.x * dx + start.y * dy) / lengthSquared));
+  return Math.hypot(start.x + t * dx, start.y + t * dy);
+}
+
+// Position reached by moving `meters` along a compass heading (degrees)
+export function moveAlongHeading(point: LatLng, meters: number, heading: number): LatLng {
+  const headingRad = heading * Math.PI / 180;
+  const metersPerDegreeLng = METERS_PER_DEGREE_LAT * Math.cos(point.lat * Math.PI / 180);
+  return {
+    lat: point.lat + (meters * Math.cos(headingRad)) / METERS_PER_DEGREE_LAT,
+    lng: point.lng + (meters * Math.sin(headingRad)) / metersPerDegreeLng,
+  };
+}
@@ -0,0 +1,98 @@
+import { DetectorHealth } from './DetectorHealth';
+import { LatLng } from './RoadGeometry';
+
+/**
+ * Road Provider Interface
+ * Any source of road data (Roads API, local GeoJSON, ...) that can answer
+ * whether a coordinate lies on a road
+ */
+
+// Why a road lookup failed, each recovers differently
+export type RoadFailureKind = 'auth' | 'quota' | 'network' | 'timeout' | 'server';
+
+export class RoadProviderError extends Error {
+  readonly kind: RoadFailureKind;
+
+  constructor(kind: RoadFailureKind, message: string) {
+    super(message);
+    this.name = 'RoadProviderError';
+    this.kind = kind;
+  }
+
+  // Google answers 400 for an invalid key and 403 for a revoked or restricted one
+  static fromStatus(status: number, statusText: string, source: string = 'Roads API'): RoadProviderError {
+    let kind: RoadFailureKind = 'server';
+    if (status === 400 || status === 401 || status === 403) kind = 'auth';
+    else if (status === 429) kind = 'quota';
+    return new RoadProviderError(kind, `${source} error: ${status} ${statusText}`);
+  }
+
+  // Wrap anything thrown by a lookup, fetch throws a TypeError when offline
+  static from(error: unknown): RoadProviderError {
+    if (error instanceof RoadProviderError) return error;
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof DOMException && error.name === 'AbortError') return new RoadProviderError('timeout', 'Road lookup timed out');
+    if (error instanceof TypeError) return new RoadProviderError('network', message);
+    return new RoadProviderError('server', message);
+  }
+}
+
+export interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// Piece of road nearest to a position. For one-way roads a -> b is the
+// permitted direction, for two-way roads the direction is arbitrary
+export interface RoadSegmentInfo {
+  a: LatLng;
+  b: LatLng;
+  lanes: number | null; // Total lane count, null if the road data has none
+  oneway: boolean;
+}
+
+export interface Intersection {
+  id: string;
+  lat: number;
+  lng: number;
+}
+
+export interface RoadProvider {
+  // Short human readable name shown in the HUD
+  readonly name: string;
+
+  // Check whether the given position is within tolerance of a road, null
+  // when there is no answer to give yet
+  isOnRoad(lat: number, lng: number): Promise<boolean | null>;
+
+  // Answer straight away from data already fetched, looking up the road ahead
+  // of the car in the background; null until the first lookup completes
+  isOnRoadNow?(lat: number, lng: number, heading: number, speed: number): boolean | null;
+
+  // Change how far from a road still counts as on it (meters)
+  setRoadTolerance?(tolerance: number): void;
+
+  // Providers calling a remote service track its failures here, see ColorDetector
+  readonly health?: DetectorHealth;
+
+  // Get cache / index statistics
+  getCacheStats(): { size: number; hitRate: number };
+
+  // Nearest road segment within tolerance from data already loaded, for lane
+  // tracking. Only for road data that says which roads are one-way: without
+  // it a carriageway of a divided highway looks like a two-way road
+  getRoadSegment?(lat: number, lng: number): RoadSegmentInfo | null;
+
+  // Intersections within radius meters, for providers that know the road graph
+  findIntersections?(lat: number, lng: number, radius: number): Intersection[];
+
+  // Map color at a position from data already loaded, for pixel based providers
+  getColorAt?(lat: number, lng: number): RGB | null;
+
+  // Posted speed limit in meters per second of the nearest road, null if unknown
+  getSpeedLimit?(lat: number, lng: number): Promise<number | null>;
+}
+
+export const MPH_TO_MPS = 0.44704;
+export const KMH_TO_MPS = 1 / 3.6;
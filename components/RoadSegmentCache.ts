@@ -0,0 +1,336 @@
+import { CONFIG } from '../config';
+import { IndexedDbStore } from './IndexedDbStore';
+import { Intersection } from './RoadProvider';
+import { LatLng, distanceToSegment, toLocalMeters } from './RoadGeometry';
+
+/**
+ * Road Segment Cache
+ * Keeps what the Roads API told us about the area instead of one boolean per
+ * point: snapped road geometry with its place ID, and "probes" recording how
+ * far the nearest road was from each position we asked about. Lookups are
+ * answered locally by distance, so a changed road tolerance applies straight
+ * away, and everything is stored in IndexedDB to survive reloads.
+ */
+
+// A road piece traced by consecutive snapped points of one place
+export interface CachedRoad {
+  kind: 'road';
+  placeId: string;
+  points: LatLng[];
+  time: number;
+}
+
+// A position we asked about and the distance to the nearest road in meters
+export interface CachedProbe {
+  kind: 'probe';
+  lat: number;
+  lng: number;
+  clearance: number;
+  time: number;
+}
+
+export type RoadCacheEntry = CachedRoad | CachedProbe;
+
+export interface SnappedPoint extends LatLng {
+  placeId: string;
+}
+
+// One point of a nearestRoads request and the roads it snapped to
+export interface RoadQuery extends LatLng {
+  snapped: SnappedPoint[];
+}
+
+export interface RoadCacheStats {
+  roads: number;
+  probes: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+const distanceBetween = (a: LatLng, b: LatLng): number => {
+  const offset = toLocalMeters(a, b);
+  return Math.hypot(offset.x, offset.y);
+};
+
+// Meters from the query to the closest road it snapped to
+export function snapDistance(query: RoadQuery): number {
+  return Math.min(Infinity, ...query.snapped.map(point => distanceBetween(query, point)));
+}
+
+export class RoadSegmentCache {
+  private store: IndexedDbStore<RoadCacheEntry> | null;
+  // Oldest first, so eviction takes the front
+  private entries: Map<string, RoadCacheEntry> = new Map();
+  private grid: Map<string, Set<string>> = new Map();
+  private loadPromise: Promise<void> | null = null;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(store: IndexedDbStore<RoadCacheEntry> | null =
+    IndexedDbStore.isAvailable() ? new IndexedDbStore<RoadCacheEntry>('dura-road-cache', 'entries') : null) {
+    this.store = store;
+  }
+
+  // Read the stored entries (only once), dropping expired ones
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.readStore();
+    }
+    return this.loadPromise;
+  }
+
+  private async readStore(): Promise<void> {
+    if (!this.store) return;
+
+    try {
+      const now = Date.now();
+      const stored = await this.store.entries();
+      const expired = stored.filter(({ value }) => now - value.time >= CONFIG.ROADS_API.SEGMENT_CACHE.MAX_AGE);
+      await Promise.all(expired.map(({ key }) => this.store!.delete(key)));
+
+      // Anything cached while loading is newer than what was stored
+      const added = [...this.entries];
+      this.entries.clear();
+      this.grid.clear();
+      stored
+        .filter(entry => !expired.includes(entry))
+        .sort((a, b) => a.value.time - b.value.time)
+        .forEach(({ key, value }) => this.index(String(key), value));
+      added.forEach(([key, value]) => this.index(key, value));
+      this.evict();
+
+      if (CONFIG.ROADS_API.DEBUG_MODE) {
+        console.log(`Road cache loaded: ${stored.length - expired.length} entries, ${expired.length} expired`);
+      }
+    } catch (error) {
+      console.warn('Could not load the road cache:', error);
+    }
+  }
+
+  // Store the answers of one nearestRoads request, points in request order
+  async addResults(queries: RoadQuery[]): Promise<void> {
+    const time = Date.now();
+    const added: [string, RoadCacheEntry][] = [];
+
+    queries.forEach(query => {
+      const clearance = query.snapped.length > 0 ? snapDistance(query) : CONFIG.ROADS_API.SEGMENT_CACHE.NO_ROAD_RADIUS;
+      const probe: CachedProbe = { kind: 'probe', lat: query.lat, lng: query.lng, clearance, time };
+      added.push([`probe:${this.formatPoint(query)}`, probe]);
+    });
+    this.traceRoads(queries, time).forEach(road => {
+      added.push([`road:${road.placeId}:${this.formatPoint(road.points[0])}:${this.formatPoint(road.points[road.points.length - 1])}`, road]);
+    });
+
+    added.forEach(([key, entry]) => this.index(key, entry));
+    const evicted = this.evict();
+    if (!this.store) return;
+
+    try {
+      await Promise.all([
+        ...added.filter(([key]) => this.entries.has(key)).map(([key, entry]) => this.store!.put(entry, key)),
+        ...evicted.map(key => this.store!.delete(key)),
+      ]);
+    } catch (error) {
+      console.warn('Could not save to the road cache:', error);
+    }
+  }
+
+  // Join snapped points of the same place from neighbouring queries into roads
+  private traceRoads(queries: RoadQuery[], time: number): CachedRoad[] {
+    const roads: CachedRoad[] = [];
+    const open: Map<string, { road: CachedRoad; index: number }> = new Map();
+
+    queries.forEach((query, index) => {
+      query.snapped.forEach(point => {
+        const position = { lat: point.lat, lng: point.lng };
+        const current = open.get(point.placeId);
+        const last = current?.road.points[current.road.points.length - 1];
+        if (current && last && current.index === index - 1 &&
+            distanceBetween(last, position) <= CONFIG.ROADS_API.SEGMENT_CACHE.MAX_SEGMENT_LENGTH) {
+          current.road.points.push(position);
+          current.index = index;
+        } else {
+          const road: CachedRoad = { kind: 'road', placeId: point.placeId, points: [position], time };
+          roads.push(road);
+          open.set(point.placeId, { road, index });
+        }
+      });
+    });
+
+    return roads;
+  }
+
+  // On the road (true), off it (false) or unknown (null), counted in the stats
+  lookup(lat: number, lng: number, tolerance: number): boolean | null {
+    const answer = this.peek(lat, lng, tolerance);
+    if (answer === null) {
+      this.misses++;
+    } else {
+      this.hits++;
+    }
+    return answer;
+  }
+
+  // Same as lookup without touching the stats, for planning requests
+  peek(lat: number, lng: number, tolerance: number): boolean | null {
+    const point = { lat, lng };
+    const now = Date.now();
+    let clearance = -Infinity;
+
+    for (const entry of this.nearbyEntries(point)) {
+      if (now - entry.time >= CONFIG.ROADS_API.SEGMENT_CACHE.MAX_AGE) continue;
+
+      if (entry.kind === 'road') {
+        if (this.distanceToRoad(point, entry) <= tolerance) return true;
+      } else {
+        // No road was closer than the probe's clearance, so none is closer to
+        // this point than the clearance minus the distance between the two
+        clearance = Math.max(clearance, entry.clearance - distanceBetween(point, entry));
+      }
+    }
+
+    return clearance > tolerance ? false : null;
+  }
+
+  // Intersections within radius meters, where cached roads of two places
+  // meet. Place IDs change at junctions, so this finds both a crossing
+  // street and a road that carries on as a new place
+  findIntersections(lat: number, lng: number, radius: number): Intersection[] {
+    const point = { lat, lng };
+    const now = Date.now();
+    const roads = this.nearbyEntries(point).filter((entry): entry is CachedRoad =>
+      entry.kind === 'road' && now - entry.time < CONFIG.ROADS_API.SEGMENT_CACHE.MAX_AGE);
+    const found: Map<string, Intersection> = new Map();
+
+    roads.forEach((road, index) => {
+      roads.slice(index + 1).forEach(other => {
+        if (other.placeId === road.placeId) return;
+        const id = [road.placeId, other.placeId].sort().join('|');
+        if (found.has(id)) return;
+
+        // The point of one road closest to the other
+        let junction: LatLng | null = null;
+        let closest = CONFIG.ROADS_API.SEGMENT_CACHE.JUNCTION_DISTANCE;
+        for (const [from, to] of [[road, other], [other, road]]) {
+          for (const candidate of from.points) {
+            const distance = this.distanceToRoad(candidate, to);
+            if (distance <= closest) {
+              junction = candidate;
+              closest = distance;
+            }
+          }
+        }
+        if (junction && distanceBetween(point, junction) <= radius) {
+          found.set(id, { id, lat: junction.lat, lng: junction.lng });
+        }
+      });
+    });
+    return [...found.values()];
+  }
+
+  private distanceToRoad(point: LatLng, road: CachedRoad): number {
+    if (road.points.length === 1) return distanceBetween(point, road.points[0]);
+
+    let distance = Infinity;
+    for (let i = 1; i < road.points.length; i++) {
+      distance = Math.min(distance, distanceToSegment(point, road.points[i - 1], road.points[i]));
+    }
+    return distance;
+  }
+
+  getStats(): RoadCacheStats {
+    let roads = 0;
+    this.entries.forEach(entry => {
+      if (entry.kind === 'road') roads++;
+    });
+    const lookups = this.hits + this.misses;
+    return {
+      roads,
+      probes: this.entries.size - roads,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+    };
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.grid.clear();
+    this.hits = 0;
+    this.misses = 0;
+    if (!this.store) return;
+
+    try {
+      await this.store.clear();
+    } catch (error) {
+      console.warn('Could not clear the road cache:', error);
+    }
+  }
+
+  private index(key: string, entry: RoadCacheEntry): void {
+    this.remove(key);
+    this.entries.set(key, entry);
+    this.cellsOf(entry).forEach(cell => {
+      const bucket = this.grid.get(cell);
+      if (bucket) {
+        bucket.add(key);
+      } else {
+        this.grid.set(cell, new Set([key]));
+      }
+    });
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.cellsOf(entry).forEach(cell => this.grid.get(cell)?.delete(key));
+  }
+
+  // Drop the oldest entries over the limit, returns their keys
+  private evict(): string[] {
+    const evicted: string[] = [];
+    while (this.entries.size > CONFIG.ROADS_API.SEGMENT_CACHE.MAX_ENTRIES) {
+      const oldest = this.entries.keys().next().value as string;
+      this.remove(oldest);
+      evicted.push(oldest);
+    }
+    return evicted;
+  }
+
+  private nearbyEntries(point: LatLng): RoadCacheEntry[] {
+    const row = this.toCell(point.lat);
+    const col = this.toCell(point.lng);
+    const keys = new Set<string>();
+    for (let r = row - 1; r <= row + 1; r++) {
+      for (let c = col - 1; c <= col + 1; c++) {
+        this.grid.get(`${r},${c}`)?.forEach(key => keys.add(key));
+      }
+    }
+    return [...keys].map(key => this.entries.get(key)!);
+  }
+
+  // Grid cells touched by the bounding box of an entry
+  private cellsOf(entry: RoadCacheEntry): string[] {
+    const points = entry.kind === 'road' ? entry.points : [entry];
+    const minRow = this.toCell(Math.min(...points.map(point => point.lat)));
+    const maxRow = this.toCell(Math.max(...points.map(point => point.lat)));
+    const minCol = this.toCell(Math.min(...points.map(point => point.lng)));
+    const maxCol = this.toCell(Math.max(...points.map(point => point.lng)));
+
+    const cells: string[] = [];
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let col = minCol; col <= maxCol; col++) cells.push(`${row},${col}`);
+    }
+    return cells;
+  }
+
+  private toCell(degrees: number): number {
+    return Math.floor(degrees / CONFIG.ROADS_API.SEGMENT_CACHE.CELL_SIZE);
+  }
+
+  private formatPoint(point: LatLng): string {
+    return `${point.lat.toFixed(6)},${point.lng.toFixed(6)}`;
+  }
+}
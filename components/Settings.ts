@@ -0,0 +1,222 @@
+import { CONFIG } from '../config';
+import { CameraMode, CAMERA_MODES } from './CameraRig';
+
+/**
+ * Game Settings
+ * Player adjustable tuning with defaults from CONFIG. Values are validated
+ * against SETTINGS_SCHEMA, saved in localStorage and can be forced from the
+ * page URL (e.g. ?difficulty=easy&questionGap=60) for classroom setups.
+ */
+
+export type Difficulty = 'easy' | 'normal' | 'hard';
+export const DIFFICULTIES: Difficulty[] = ['easy', 'normal', 'hard'];
+
+export interface GameSettings {
+  difficulty: Difficulty;
+  roadTolerance: number; // Meters from a road that still count as on it
+  questionGap: number;   // Minimum seconds between questions
+  cameraMode: CameraMode;
+  cameraTilt: number;    // Degrees
+  cameraZoom: number;    // Google Maps zoom level
+  volume: number;        // Percent
+}
+
+export type SettingKey = keyof GameSettings;
+
+export type SettingDefinition =
+  | { type: 'choice'; label: string; options: readonly string[] }
+  | { type: 'number'; label: string; min: number; max: number; step: number; unit: string };
+
+export const SETTINGS_SCHEMA: Record<SettingKey, SettingDefinition> = {
+  difficulty: { type: 'choice', label: 'DIFFICULTY', options: DIFFICULTIES },
+  roadTolerance: { type: 'number', label: 'ROAD TOLERANCE', min: 2, max: 30, step: 1, unit: 'M' },
+  questionGap: { type: 'number', label: 'QUESTION GAP', min: 5, max: 300, step: 5, unit: 'S' },
+  cameraMode: { type: 'choice', label: 'CAMERA', options: CAMERA_MODES },
+  cameraTilt: { type: 'number', label: 'CAMERA TILT', min: 0, max: 80, step: 5, unit: '°' },
+  cameraZoom: { type: 'number', label: 'CAMERA ZOOM', min: 16, max: 22, step: 0.5, unit: '' },
+  volume: { type: 'number', label: 'VOLUME', min: 0, max: 100, step: 10, unit: '%' },
+};
+
+export const SETTING_KEYS = Object.keys(SETTINGS_SCHEMA) as SettingKey[];
+
+// What each difficulty changes. Picking one in the menu also resets the
+// tolerance and question gap to its values, which can then be fine tuned.
+export interface DifficultyPreset {
+  roadTolerance: number;
+  questionGap: number;
+  penaltyScale: number; // Multiplies off-road and speeding penalties
+}
+
+export const DIFFICULTY_PRESETS: Record<Difficulty, DifficultyPreset> = {
+  easy: { roadTolerance: 15, questionGap: 30, penaltyScale: 0.5 },
+  normal: {
+    roadTolerance: CONFIG.ROADS_API.ROAD_TOLERANCE,
+    questionGap: CONFIG.QUESTIONS.MIN_GAP / 1000,
+    penaltyScale: 1,
+  },
+  hard: { roadTolerance: 5, questionGap: 10, penaltyScale: 2 },
+};
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  difficulty: 'normal',
+  roadTolerance: CONFIG.ROADS_API.ROAD_TOLERANCE,
+  questionGap: CONFIG.QUESTIONS.MIN_GAP / 1000,
+  cameraMode: CONFIG.CAMERA.MODE as CameraMode,
+  cameraTilt: CONFIG.CAMERA.TILT,
+  cameraZoom: CONFIG.CAMERA.ZOOM,
+  volume: CONFIG.AUDIO.VOLUME,
+};
+
+const SETTINGS_KEY = 'dura-settings';
+// URL overrides are kept for the tab so they survive the login redirect
+const URL_OVERRIDES_KEY = 'dura-settings-url';
+
+// Error message for an invalid value, null when the value is allowed
+export function validateSetting(key: SettingKey, value: unknown): string | null {
+  const definition = SETTINGS_SCHEMA[key];
+  if (definition.type === 'choice') {
+    if (typeof value !== 'string' || !definition.options.includes(value)) {
+      return `${key} must be one of ${definition.options.join(', ')}`;
+    }
+    return null;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) return `${key} must be a number`;
+  if (value < definition.min || value > definition.max) {
+    return `${key} must be between ${definition.min} and ${definition.max}`;
+  }
+  return null;
+}
+
+// Copy the valid settings out of untrusted data, reporting the rest
+export function parseSettings(data: unknown): { settings: Partial<GameSettings>; errors: string[] } {
+  const settings: Partial<GameSettings> = {};
+  const errors: string[] = [];
+  if (!data || typeof data !== 'object') return { settings, errors: ['settings must be an object'] };
+
+  const record = data as Record<string, unknown>;
+  SETTING_KEYS.forEach(key => {
+    if (record[key] === undefined) return;
+    const error = validateSetting(key, record[key]);
+    if (error) {
+      errors.push(error);
+    } else {
+      (settings as Record<SettingKey, unknown>)[key] = record[key];
+    }
+  });
+  return { settings, errors };
+}
+
+// Settings given as query parameters, numbers converted from text and
+// choices matched ignoring case. A difficulty brings its preset like it
+// does in the menu, values given alongside it win
+export function readUrlOverrides(search: string): Partial<GameSettings> {
+  const params = new URLSearchParams(search);
+  const data: Record<string, unknown> = {};
+  SETTING_KEYS.forEach(key => {
+    const value = params.get(key);
+    if (value === null) return;
+    const definition = SETTINGS_SCHEMA[key];
+    data[key] = definition.type === 'number'
+      ? Number(value)
+      : definition.options.find(option => option.toLowerCase() === value.toLowerCase()) ?? value;
+  });
+
+  const { settings, errors } = parseSettings(data);
+  errors.forEach(error => console.warn(`Ignoring URL setting: ${error}`));
+  if (!settings.difficulty) return settings;
+
+  const { roadTolerance, questionGap } = DIFFICULTY_PRESETS[settings.difficulty];
+  return { roadTolerance, questionGap, ...settings };
+}
+
+// Choices are camelCase ids, e.g. topDown is shown as TOP DOWN
+export function formatChoice(value: string): string {
+  return value.replace(/([a-z])([A-Z])/g, '$1 $2').toUpperCase();
+}
+
+// Round to the schema step so the menu arrows land on tidy values
+export function stepSetting(key: SettingKey, value: number, direction: 1 | -1): number {
+  const definition = SETTINGS_SCHEMA[key];
+  if (definition.type !== 'number') return value;
+  const stepped = Math.round((value + direction * definition.step) / definition.step) * definition.step;
+  return Math.min(definition.max, Math.max(definition.min, stepped));
+}
+
+export class SettingsStore {
+  private storage: Storage;
+  private saved: Partial<GameSettings>;
+  private overrides: Partial<GameSettings>;
+
+  constructor(
+    search: string = window.location.search,
+    storage: Storage = window.localStorage,
+    session: Storage = window.sessionStorage
+  ) {
+    this.storage = storage;
+    this.saved = this.read(storage, SETTINGS_KEY);
+
+    const fromUrl = readUrlOverrides(search);
+    if (Object.keys(fromUrl).length > 0) {
+      this.write(session, URL_OVERRIDES_KEY, fromUrl);
+      this.overrides = fromUrl;
+    } else {
+      this.overrides = this.read(session, URL_OVERRIDES_KEY);
+    }
+  }
+
+  // Defaults, then the player's choices, then URL overrides
+  get(): GameSettings {
+    return { ...DEFAULT_SETTINGS, ...this.saved, ...this.overrides };
+  }
+
+  // Settings forced by the URL cannot be changed from the menu
+  isLocked(key: SettingKey): boolean {
+    return this.overrides[key] !== undefined;
+  }
+
+  set<K extends SettingKey>(key: K, value: GameSettings[K]): GameSettings {
+    const error = validateSetting(key, value);
+    if (error) throw new Error(error);
+    if (this.isLocked(key)) return this.get();
+
+    this.saved = { ...this.saved, [key]: value };
+    this.write(this.storage, SETTINGS_KEY, this.saved);
+    return this.get();
+  }
+
+  // Apply a difficulty along with the values it brings
+  setDifficulty(difficulty: Difficulty): GameSettings {
+    if (this.isLocked('difficulty')) return this.get();
+    const preset = DIFFICULTY_PRESETS[difficulty];
+    this.set('difficulty', difficulty);
+    this.set('roadTolerance', preset.roadTolerance);
+    return this.set('questionGap', preset.questionGap);
+  }
+
+  reset(): GameSettings {
+    this.saved = {};
+    this.write(this.storage, SETTINGS_KEY, this.saved);
+    return this.get();
+  }
+
+  private read(storage: Storage, key: string): Partial<GameSettings> {
+    try {
+      const stored = storage.getItem(key);
+      if (!stored) return {};
+      const { settings, errors } = parseSettings(JSON.parse(stored));
+      errors.forEach(error => console.warn(`Ignoring saved setting: ${error}`));
+      return settings;
+    } catch (error) {
+      console.warn('Could not load settings:', error);
+      return {};
+    }
+  }
+
+  private write(storage: Storage, key: string, settings: Partial<GameSettings>): void {
+    try {
+      storage.setItem(key, JSON.stringify(settings));
+    } catch (error) {
+      console.warn('Could not save settings:', error);
+    }
+  }
+}
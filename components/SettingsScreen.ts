@@ -0,0 +1,141 @@
+import {
+  SettingsStore,
+  GameSettings,
+  SettingKey,
+  SETTING_KEYS,
+  SETTINGS_SCHEMA,
+  Difficulty,
+  stepSetting,
+  formatChoice,
+} from './Settings';
+
+/**
+ * Game Boy style settings menu. Each row steps its value with the arrow
+ * buttons; changes are saved straight away and passed to onChange.
+ */
+export class SettingsScreen {
+  private screen: HTMLElement;
+  private list: HTMLElement | null;
+  private store: SettingsStore;
+  private onChange: (settings: GameSettings) => void;
+
+  constructor(store: SettingsStore, onChange: (settings: GameSettings) => void) {
+    this.store = store;
+    this.onChange = onChange;
+    this.screen = this.createScreen();
+    this.list = this.screen.querySelector('#settings-list');
+  }
+
+  private createScreen(): HTMLElement {
+    const screen = document.createElement('div');
+    screen.id = 'settings-screen';
+    screen.className = 'gameboy-screen';
+    screen.style.cssText = `
+      position: fixed;
+      inset: 0;
+      background-color: rgba(0, 0, 0, 0.9);
+      display: none;
+      justify-content: center;
+      align-items: center;
+      z-index: 1500;
+      font-family: 'Press Start 2P', monospace;
+    `;
+    screen.innerHTML = `
+      <div class="gameboy-dialog" style="background: #ffffff; padding: 20px; border: 4px solid #000000; text-align: center; width: 90%; max-width: 440px; box-shadow: 8px 8px 0px #000000;">
+        <h2 style="font-size: 12px; margin: 0 0 16px;">SETTINGS</h2>
+        <div id="settings-list" style="display: grid; gap: 8px; font-size: 8px; text-align: left;"></div>
+        <p id="settings-hint" style="font-size: 6px; margin: 12px 0 0; line-height: 1.6;"></p>
+        <div style="display: flex; justify-content: center; gap: 10px; margin-top: 16px;">
+          <button id="settings-reset" class="gameboy-button">DEFAULTS</button>
+          <button id="settings-close" class="gameboy-button">BACK</button>
+        </div>
+      </div>
+    `;
+    document.body.appendChild(screen);
+
+    screen.querySelector('#settings-reset')?.addEventListener('click', () => this.apply(this.store.reset()));
+    screen.querySelector('#settings-close')?.addEventListener('click', () => this.hide());
+    return screen;
+  }
+
+  show(): void {
+    this.render();
+    this.screen.style.display = 'flex';
+  }
+
+  hide(): void {
+    this.screen.style.display = 'none';
+  }
+
+  private render(): void {
+    if (!this.list) return;
+    this.list.innerHTML = '';
+
+    const settings = this.store.get();
+    let anyLocked = false;
+
+    SETTING_KEYS.forEach(key => {
+      const locked = this.store.isLocked(key);
+      anyLocked = anyLocked || locked;
+
+      const row = document.createElement('div');
+      row.style.cssText = 'display: flex; align-items: center; justify-content: space-between; gap: 8px;';
+
+      const label = document.createElement('span');
+      label.textContent = SETTINGS_SCHEMA[key].label;
+      row.appendChild(label);
+
+      const controls = document.createElement('span');
+      controls.style.cssText = 'display: flex; align-items: center; gap: 6px;';
+      const value = document.createElement('span');
+      value.style.cssText = 'min-width: 72px; text-align: center;';
+      value.textContent = this.formatValue(key, settings) + (locked ? '*' : '');
+      controls.append(this.createArrow('<', key, -1, locked), value, this.createArrow('>', key, 1, locked));
+      row.appendChild(controls);
+
+      this.list?.appendChild(row);
+    });
+
+    const hint = this.screen.querySelector('#settings-hint');
+    if (hint) hint.textContent = anyLocked ? '* LOCKED BY THE GAME LINK' : 'CHANGES ARE SAVED AUTOMATICALLY';
+  }
+
+  private createArrow(text: string, key: SettingKey, direction: 1 | -1, locked: boolean): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className = 'gameboy-button';
+    button.style.cssText = 'font-size: 6px; padding: 6px 8px;';
+    button.textContent = text;
+    button.disabled = locked;
+    button.addEventListener('click', () => this.change(key, direction));
+    return button;
+  }
+
+  private change(key: SettingKey, direction: 1 | -1): void {
+    const settings = this.store.get();
+    const definition = SETTINGS_SCHEMA[key];
+
+    if (definition.type === 'choice') {
+      const options = definition.options;
+      const option = options[(options.indexOf(String(settings[key])) + direction + options.length) % options.length];
+      if (key === 'difficulty') {
+        this.apply(this.store.setDifficulty(option as Difficulty));
+      } else {
+        this.apply(this.store.set(key, option as GameSettings[typeof key]));
+      }
+      return;
+    }
+    this.apply(this.store.set(key, stepSetting(key, Number(settings[key]), direction)));
+  }
+
+  private apply(settings: GameSettings): void {
+    this.render();
+    this.onChange(settings);
+  }
+
+  private formatValue(key: SettingKey, settings: GameSettings): string {
+    const definition = SETTINGS_SCHEMA[key];
+    const value = settings[key];
+    if (definition.type === 'choice') return formatChoice(String(value));
+    return `${value}${definition.unit}`;
+  }
+}
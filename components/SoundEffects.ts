@@ -0,0 +1,92 @@
+import { AudioEngine } from './AudioEngine';
+import { noteFrequency } from './MusicPlayer';
+
+export type SoundEffect =
+  | 'correct'
+  | 'wrong'
+  | 'offRoad'
+  | 'checkpoint'
+  | 'achievement'
+  | 'missionComplete'
+  | 'missionFailed';
+
+// One beep of an effect; slideTo bends the pitch over the beep
+interface Tone {
+  note: string;
+  duration: number; // Seconds
+  slideTo?: string;
+}
+
+// Square-wave jingles, each played note after note
+export const SOUND_EFFECTS: Record<SoundEffect, Tone[]> = {
+  correct: [
+    { note: 'C5', duration: 0.08 },
+    { note: 'E5', duration: 0.08 },
+    { note: 'G5', duration: 0.16 },
+  ],
+  wrong: [
+    { note: 'E3', duration: 0.12 },
+    { note: 'C3', duration: 0.3 },
+  ],
+  offRoad: [
+    { note: 'A3', duration: 0.2, slideTo: 'D3' },
+  ],
+  checkpoint: [
+    { note: 'G5', duration: 0.06 },
+    { note: 'C6', duration: 0.12 },
+  ],
+  achievement: [
+    { note: 'C5', duration: 0.08 },
+    { note: 'E5', duration: 0.08 },
+    { note: 'G5', duration: 0.08 },
+    { note: 'C6', duration: 0.08 },
+    { note: 'G5', duration: 0.08 },
+    { note: 'C6', duration: 0.24 },
+  ],
+  missionComplete: [
+    { note: 'G4', duration: 0.1 },
+    { note: 'C5', duration: 0.1 },
+    { note: 'E5', duration: 0.1 },
+    { note: 'G5', duration: 0.2 },
+    { note: 'E5', duration: 0.1 },
+    { note: 'G5', duration: 0.4 },
+  ],
+  missionFailed: [
+    { note: 'G4', duration: 0.15 },
+    { note: 'F#4', duration: 0.15 },
+    { note: 'F4', duration: 0.15 },
+    { note: 'E4', duration: 0.5, slideTo: 'C4' },
+  ],
+};
+
+const EFFECT_VOLUME = 0.3;
+
+// Play an effect on the sfx channel, skipped while audio is still locked
+export function playSoundEffect(audio: AudioEngine, effect: SoundEffect): void {
+  const context = audio.getContext();
+  const channel = audio.getChannel('sfx');
+  if (!context || !channel) return;
+
+  let start = context.currentTime;
+  SOUND_EFFECTS[effect].forEach(tone => {
+    const oscillator = context.createOscillator();
+    oscillator.type = 'square';
+    oscillator.frequency.setValueAtTime(noteFrequency(tone.note) ?? 440, start);
+    if (tone.slideTo) {
+      oscillator.frequency.linearRampToValueAtTime(noteFrequency(tone.slideTo) ?? 440, start + tone.duration);
+    }
+
+    // Quick attack and decay so consecutive beeps stay distinct
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(EFFECT_VOLUME, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + tone.duration);
+
+    oscillator.connect(gain);
+    gain.connect(channel);
+    oscillator.start(start);
+    oscillator.stop(start + tone.duration);
+    oscillator.onended = () => gain.disconnect();
+
+    start += tone.duration;
+  });
+}
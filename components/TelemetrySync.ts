@@ -0,0 +1,232 @@
+import { CONFIG } from '../config';
+import { IndexedDbStore } from './IndexedDbStore';
+
+/**
+ * Telemetry Sync
+ * Queues car samples, uploads them to the backend in batches with retry and
+ * exponential backoff, and buffers batches in IndexedDB while offline.
+ */
+
+// ----------------------------------------------------------------------
+// WIRE SCHEMA (POST body of CONFIG.BACKEND.SYNC_URL)
+// ----------------------------------------------------------------------
+export const TELEMETRY_SCHEMA_VERSION = 1;
+
+export interface TelemetrySample {
+  timestamp: number; // Epoch milliseconds
+  coordinates: { latitude: number; longitude: number };
+  heading: number;   // Degrees
+  speed: number;     // Meters per second
+}
+
+export interface TelemetryBatch {
+  schemaVersion: typeof TELEMETRY_SCHEMA_VERSION;
+  batchId: string;
+  sessionId: string;
+  playerId: string;
+  sentAt: number;
+  samples: TelemetrySample[];
+}
+
+export type AccessTokenProvider = () => Promise<string | undefined>;
+
+// Outcome of a single upload attempt
+type UploadResult = 'sent' | 'retry' | 'rejected';
+
+export class TelemetrySync {
+  private endpoint: string;
+  private getAccessToken: AccessTokenProvider;
+  private queue: TelemetrySample[] = [];
+  private sessionId: string | null = null;
+  private playerId: string = 'anonymous';
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private flushPromise: Promise<void> | null = null;
+  private offlineStore: IndexedDbStore<TelemetryBatch> | null = null;
+  private stats = { sent: 0, rejected: 0, buffered: 0 };
+
+  constructor(getAccessToken: AccessTokenProvider, endpoint: string = CONFIG.BACKEND.SYNC_URL) {
+    this.getAccessToken = getAccessToken;
+    this.endpoint = endpoint;
+
+    if (IndexedDbStore.isAvailable()) {
+      this.offlineStore = new IndexedDbStore<TelemetryBatch>('dura-telemetry', 'pending-batches');
+    }
+
+    // Upload whatever piled up as soon as the connection comes back
+    window.addEventListener('online', () => this.drainOfflineBuffer());
+  }
+
+  // Begin a new driving session for a player
+  startSession(playerId: string): void {
+    if (this.sessionId) this.endSession();
+
+    this.playerId = playerId;
+    this.sessionId = this.createId();
+    this.flushTimer = setInterval(() => this.flush(), CONFIG.BACKEND.FLUSH_INTERVAL);
+
+    // Previous runs may have left batches behind
+    this.drainOfflineBuffer();
+  }
+
+  // Flush remaining samples and stop the upload timer
+  async endSession(): Promise<void> {
+    const sessionId = this.sessionId;
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flush();
+    // A new session may have started while flushing, keep recording for it
+    if (this.sessionId === sessionId) this.sessionId = null;
+  }
+
+  // Queue a sample for the next batch
+  record(sample: TelemetrySample): void {
+    if (!this.sessionId) return;
+
+    this.queue.push(sample);
+    if (this.queue.length >= CONFIG.BACKEND.MAX_BATCH_SIZE) {
+      this.flush();
+    }
+  }
+
+  // Upload all queued samples; concurrent calls share the same flush
+  flush(): Promise<void> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.flushQueue().finally(() => {
+        this.flushPromise = null;
+      });
+    }
+    return this.flushPromise;
+  }
+
+  private async flushQueue(): Promise<void> {
+    while (this.queue.length > 0 && this.sessionId) {
+      const batch: TelemetryBatch = {
+        schemaVersion: TELEMETRY_SCHEMA_VERSION,
+        batchId: this.createId(),
+        sessionId: this.sessionId,
+        playerId: this.playerId,
+        sentAt: Date.now(),
+        samples: this.queue.splice(0, CONFIG.BACKEND.MAX_BATCH_SIZE),
+      };
+      await this.sendWithRetry(batch);
+    }
+  }
+
+  private async sendWithRetry(batch: TelemetryBatch): Promise<void> {
+    // No point in retrying while the browser knows it is offline
+    if (!navigator.onLine) {
+      await this.bufferOffline(batch);
+      return;
+    }
+
+    for (let attempt = 0; attempt <= CONFIG.BACKEND.MAX_RETRIES; attempt++) {
+      if (attempt > 0) {
+        await this.wait(this.backoffDelay(attempt));
+      }
+
+      const result = await this.upload(batch);
+      if (result === 'sent') {
+        this.stats.sent++;
+        return;
+      }
+      if (result === 'rejected') {
+        this.stats.rejected++;
+        return;
+      }
+    }
+
+    // Server unreachable after all retries, keep the batch for later
+    await this.bufferOffline(batch);
+  }
+
+  private async upload(batch: TelemetryBatch): Promise<UploadResult> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    try {
+      const token = await this.getAccessToken();
+      if (token) headers['Authorization'] = `Bearer ${token}`;
+    } catch (error) {
+      console.warn('Telemetry sync: could not get access token:', error);
+    }
+
+    try {
+      const response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ ...batch, sentAt: Date.now() }),
+        keepalive: true,
+      });
+
+      if (response.ok) return 'sent';
+
+      // Rate limits and server errors are worth another try
+      if (response.status === 429 || response.status >= 500) {
+        console.warn(`Telemetry sync error: ${response.status} ${response.statusText}, retrying`);
+        return 'retry';
+      }
+
+      console.error(`Telemetry batch rejected: ${response.status} ${response.statusText}`);
+      return 'rejected';
+    } catch (error) {
+      console.warn('Telemetry sync failed:', error);
+      return 'retry';
+    }
+  }
+
+  // Exponential backoff with jitter, capped at RETRY_MAX_DELAY
+  private backoffDelay(attempt: number): number {
+    const delay = CONFIG.BACKEND.RETRY_BASE_DELAY * Math.pow(2, attempt - 1);
+    return Math.min(delay, CONFIG.BACKEND.RETRY_MAX_DELAY) * (0.5 + Math.random() * 0.5);
+  }
+
+  private async bufferOffline(batch: TelemetryBatch): Promise<void> {
+    if (!this.offlineStore) {
+      console.warn(`Telemetry sync: dropping ${batch.samples.length} samples, no offline storage`);
+      return;
+    }
+
+    try {
+      await this.offlineStore.put(batch);
+      this.stats.buffered++;
+    } catch (error) {
+      console.error('Telemetry sync: could not buffer batch offline:', error);
+    }
+  }
+
+  // Re-send batches stored while offline, oldest first
+  async drainOfflineBuffer(): Promise<void> {
+    if (!this.offlineStore || !navigator.onLine) return;
+
+    try {
+      const pending = await this.offlineStore.entries();
+      for (const { key, value } of pending) {
+        const result = await this.upload(value);
+        if (result === 'retry') return; // Still unreachable, try again later
+
+        await this.offlineStore.delete(key);
+        this.stats.buffered = Math.max(0, this.stats.buffered - 1);
+        if (result === 'sent') this.stats.sent++;
+        else this.stats.rejected++;
+      }
+    } catch (error) {
+      console.error('Telemetry sync: could not read offline buffer:', error);
+    }
+  }
+
+  // Get upload statistics
+  getStats(): { queued: number; sent: number; rejected: number; buffered: number } {
+    return { queued: this.queue.length, ...this.stats };
+  }
+
+  private createId(): string {
+    return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,198 @@
+import { CONFIG } from '../config';
+import { RGB, RoadProvider, RoadProviderError } from './RoadProvider';
+import { isRoadColor } from './ColorDetector';
+import { LatLng } from './RoadGeometry';
+
+/**
+ * Keyless road provider that samples the pixels of a map tile layer. The
+ * tiles should be label-free with roads drawn in gray (any Web Mercator
+ * {z}/{x}/{y} tile server, or a tile set served from public/tiles). Tiles
+ * are decoded offscreen and classified once with the gray-range heuristic
+ * of ColorDetector, then kept in memory.
+ */
+
+// Raw RGBA pixels, the shape of ImageData
+export interface TileImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export type TileDecoder = (image: Blob) => Promise<TileImage>;
+
+interface RoadTile {
+  image: TileImage;
+  roads: Uint8Array; // 1 for every road colored pixel
+}
+
+// Earth circumference at the equator divided by the 256 pixels of tile 0/0/0
+const METERS_PER_PIXEL_AT_ZOOM_0 = 156543.03392;
+
+// Draw the image on a canvas that is never attached to the page and read it back
+export async function decodeWithCanvas(image: Blob): Promise<TileImage> {
+  const bitmap = await createImageBitmap(image);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas 2D context is not available');
+
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+export class TileRoadProvider implements RoadProvider {
+  readonly name = 'Map Tiles';
+
+  private urlTemplate: string;
+  private decode: TileDecoder;
+  private zoom: number = CONFIG.ROADS_API.TILES.ZOOM;
+  private tileSize: number = CONFIG.ROADS_API.TILES.SIZE;
+  private roadTolerance: number = CONFIG.ROADS_API.ROAD_TOLERANCE;
+  // Least recently used first, so eviction takes the front
+  private tiles: Map<string, RoadTile> = new Map();
+  private loading: Map<string, Promise<RoadTile>> = new Map();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(urlTemplate: string = CONFIG.ROADS_API.TILES.URL, decode: TileDecoder = decodeWithCanvas) {
+    this.urlTemplate = urlTemplate;
+    this.decode = decode;
+  }
+
+  // On the road when any road pixel lies within the tolerance
+  async isOnRoad(lat: number, lng: number): Promise<boolean> {
+    const samples = this.samplePixels({ lat, lng });
+    const keys = [...new Set(samples.map(sample => sample.key))];
+    const tiles = new Map(await Promise.all(keys.map(async key => [key, await this.getTile(key)] as const)));
+
+    return samples.some(sample => {
+      const tile = tiles.get(sample.key)!;
+      return tile.roads[sample.y * tile.image.width + sample.x] === 1;
+    });
+  }
+
+  // Color of the pixel under the position, null until its tile is loaded
+  getColorAt(lat: number, lng: number): RGB | null {
+    const pixel = this.toTilePixel(this.toWorldPixel({ lat, lng }));
+    const tile = this.tiles.get(pixel.key);
+    if (!tile) return null;
+
+    const offset = (pixel.y * tile.image.width + pixel.x) * 4;
+    return { r: tile.image.data[offset], g: tile.image.data[offset + 1], b: tile.image.data[offset + 2] };
+  }
+
+  setRoadTolerance(tolerance: number): void {
+    this.roadTolerance = tolerance;
+  }
+
+  getRoadTolerance(): number {
+    return this.roadTolerance;
+  }
+
+  // Tiles in memory and how often a lookup found its tiles there
+  getCacheStats(): { size: number; hitRate: number } {
+    const lookups = this.hits + this.misses;
+    return {
+      size: this.tiles.size,
+      hitRate: lookups > 0 ? this.hits / lookups : 0
+    };
+  }
+
+  clearCache(): void {
+    this.tiles.clear();
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  // Pixels to look at: a grid over the tolerance circle around the position,
+  // fine enough that a road a few pixels wide cannot slip between samples
+  private samplePixels(point: LatLng): { key: string; x: number; y: number }[] {
+    const center = this.toWorldPixel(point);
+    const metersPerPixel = METERS_PER_PIXEL_AT_ZOOM_0 * Math.cos(point.lat * Math.PI / 180) / Math.pow(2, this.zoom);
+    const radius = Math.floor(this.roadTolerance / metersPerPixel);
+    const step = Math.max(1, Math.floor(radius / 4));
+
+    const samples: { key: string; x: number; y: number }[] = [];
+    for (let dy = -radius; dy <= radius; dy += step) {
+      for (let dx = -radius; dx <= radius; dx += step) {
+        if (dx * dx + dy * dy > radius * radius) continue;
+        samples.push(this.toTilePixel({ x: center.x + dx, y: center.y + dy }));
+      }
+    }
+    return samples;
+  }
+
+  // Web Mercator pixel coordinates of the whole world at the tile zoom
+  private toWorldPixel(point: LatLng): { x: number; y: number } {
+    const scale = this.tileSize * Math.pow(2, this.zoom);
+    const sinLat = Math.sin(point.lat * Math.PI / 180);
+    return {
+      x: (point.lng + 180) / 360 * scale,
+      y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+    };
+  }
+
+  private toTilePixel(world: { x: number; y: number }): { key: string; x: number; y: number } {
+    const tileX = Math.floor(world.x / this.tileSize);
+    const tileY = Math.floor(world.y / this.tileSize);
+    return {
+      key: `${this.zoom}/${tileX}/${tileY}`,
+      x: Math.floor(world.x) - tileX * this.tileSize,
+      y: Math.floor(world.y) - tileY * this.tileSize,
+    };
+  }
+
+  private getTile(key: string): Promise<RoadTile> {
+    const cached = this.tiles.get(key);
+    if (cached) {
+      this.hits++;
+      // Move to the back as the most recently used
+      this.tiles.delete(key);
+      this.tiles.set(key, cached);
+      return Promise.resolve(cached);
+    }
+
+    // Lookups of a tile still on its way share the download
+    const pending = this.loading.get(key);
+    if (pending) {
+      this.hits++;
+      return pending;
+    }
+
+    this.misses++;
+    // Failed downloads are not cached, a later lookup asks again
+    const loading = this.fetchTile(key).finally(() => this.loading.delete(key));
+    this.loading.set(key, loading);
+    return loading;
+  }
+
+  private async fetchTile(key: string): Promise<RoadTile> {
+    const [z, x, y] = key.split('/');
+    const url = this.urlTemplate.replace('{z}', z).replace('{x}', x).replace('{y}', y);
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw RoadProviderError.fromStatus(response.status, response.statusText, 'Map tile');
+    }
+
+    const image = await this.decode(await response.blob());
+    const roads = new Uint8Array(image.width * image.height);
+    for (let pixel = 0; pixel < roads.length; pixel++) {
+      const offset = pixel * 4;
+      const color = { r: image.data[offset], g: image.data[offset + 1], b: image.data[offset + 2] };
+      roads[pixel] = isRoadColor(color) ? 1 : 0;
+    }
+
+    const tile = { image, roads };
+    this.tiles.set(key, tile);
+    while (this.tiles.size > CONFIG.ROADS_API.TILES.MAX_CACHED) {
+      this.tiles.delete(this.tiles.keys().next().value as string);
+    }
+
+    if (CONFIG.ROADS_API.DEBUG_MODE) {
+      console.log(`Map tile ${key} loaded: ${roads.reduce((count, road) => count + road, 0)} road pixels`);
+    }
+    return tile;
+  }
+}
@@ -0,0 +1,151 @@
+import { VehicleInput } from './VehiclePhysics';
+import { InputSource } from './InputManager';
+
+const PAD_SIZE = 132; // Pixels
+
+export function isTouchDevice(): boolean {
+  return 'ontouchstart' in window || navigator.maxTouchPoints > 0;
+}
+
+/**
+ * Touch Input
+ * Game Boy style on-screen controls: a D-pad on the left that steers by how
+ * far from its centre it is held, and GAS / BRAKE pedals on the right
+ */
+export class TouchInput implements InputSource {
+  readonly name = 'touch';
+  private container: HTMLElement;
+  private dpad: HTMLElement;
+  private steering: number = 0;
+  private steeringPointer: number | null = null;
+  private pedals: Record<'throttle' | 'brake', Set<number>> = { throttle: new Set(), brake: new Set() };
+
+  constructor() {
+    this.container = document.createElement('div');
+    this.container.id = 'touch-controls';
+    this.container.style.cssText = 'display: none;';
+    this.dpad = this.createDpad();
+    this.container.append(this.dpad, this.createPedals());
+    document.body.appendChild(this.container);
+  }
+
+  private createDpad(): HTMLElement {
+    const dpad = document.createElement('div');
+    dpad.id = 'touch-dpad';
+    dpad.style.cssText = `
+      position: fixed;
+      bottom: 70px;
+      left: 20px;
+      width: ${PAD_SIZE}px;
+      height: ${PAD_SIZE}px;
+      z-index: 1100;
+      touch-action: none;
+      user-select: none;
+      image-rendering: pixelated;
+    `;
+    // Cross shape drawn with two bars, arrows on the steering arms
+    dpad.innerHTML = `
+      <div style="position: absolute; top: 33%; left: 0; width: 100%; height: 34%; background: #000000; box-shadow: 4px 4px 0px #ffffff;"></div>
+      <div style="position: absolute; left: 33%; top: 0; width: 34%; height: 100%; background: #000000;"></div>
+      <div style="position: absolute; top: 50%; left: 8px; transform: translateY(-50%); color: #ffffff; font-family: 'Press Start 2P', monospace; font-size: 12px;">◀</div>
+      <div style="position: absolute; top: 50%; right: 8px; transform: translateY(-50%); color: #ffffff; font-family: 'Press Start 2P', monospace; font-size: 12px;">▶</div>
+    `;
+
+    dpad.addEventListener('pointerdown', (event) => {
+      event.preventDefault();
+      this.steeringPointer = event.pointerId;
+      dpad.setPointerCapture(event.pointerId);
+      this.updateSteering(event);
+    });
+    dpad.addEventListener('pointermove', (event) => {
+      if (event.pointerId === this.steeringPointer) this.updateSteering(event);
+    });
+    const release = (event: PointerEvent) => {
+      if (event.pointerId !== this.steeringPointer) return;
+      this.steeringPointer = null;
+      this.steering = 0;
+    };
+    dpad.addEventListener('pointerup', release);
+    dpad.addEventListener('pointercancel', release);
+    return dpad;
+  }
+
+  private createPedals(): HTMLElement {
+    const pedals = document.createElement('div');
+    pedals.id = 'touch-pedals';
+    pedals.style.cssText = `
+      position: fixed;
+      bottom: 160px;
+      right: 20px;
+      display: flex;
+      gap: 12px;
+      z-index: 1100;
+      touch-action: none;
+      user-select: none;
+    `;
+
+    (['brake', 'throttle'] as const).forEach(pedal => {
+      const button = document.createElement('div');
+      button.className = 'gameboy-button';
+      button.textContent = pedal === 'throttle' ? 'GAS' : 'BRAKE';
+      button.style.cssText = `
+        width: 64px;
+        height: ${pedal === 'throttle' ? 96 : 72}px;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        align-self: flex-end;
+        font-size: 8px;
+        padding: 0;
+      `;
+
+      const pressed = this.pedals[pedal];
+      button.addEventListener('pointerdown', (event) => {
+        event.preventDefault();
+        button.setPointerCapture(event.pointerId);
+        pressed.add(event.pointerId);
+        this.setPressedStyle(button, true);
+      });
+      const release = (event: PointerEvent) => {
+        pressed.delete(event.pointerId);
+        this.setPressedStyle(button, pressed.size > 0);
+      };
+      button.addEventListener('pointerup', release);
+      button.addEventListener('pointercancel', release);
+      pedals.appendChild(button);
+    });
+    return pedals;
+  }
+
+  // Pressed buttons are drawn inverted
+  private setPressedStyle(button: HTMLElement, pressed: boolean): void {
+    button.style.background = pressed ? '#000000' : '';
+    button.style.color = pressed ? '#ffffff' : '';
+  }
+
+  // Horizontal distance from the centre of the pad, -1 (left) .. 1 (right)
+  private updateSteering(event: PointerEvent): void {
+    const rect = this.dpad.getBoundingClientRect();
+    const offset = (event.clientX - (rect.left + rect.width / 2)) / (rect.width / 2);
+    this.steering = Math.max(-1, Math.min(1, offset));
+  }
+
+  setVisible(visible: boolean): void {
+    this.container.style.display = visible ? 'block' : 'none';
+    if (!visible) {
+      this.steering = 0;
+      this.steeringPointer = null;
+      this.pedals.throttle.clear();
+      this.pedals.brake.clear();
+    }
+  }
+
+  read(): VehicleInput | null {
+    if (this.container.style.display === 'none') return null;
+    return {
+      throttle: this.pedals.throttle.size > 0 ? 1 : 0,
+      brake: this.pedals.brake.size > 0 ? 1 : 0,
+      steering: this.steering,
+    };
+  }
+}
@@ -0,0 +1,64 @@
+export interface TripControlHandlers {
+  onReplay: () => void;
+  onToggleGhost: () => void;
+  onExport: (format: 'json' | 'gpx') => void;
+}
+
+/**
+ * Game Boy style panel with trip replay, ghost and export buttons
+ */
+export class TripControls {
+  private panel: HTMLElement;
+  private ghostButton: HTMLButtonElement | null = null;
+  private replayButton: HTMLButtonElement | null = null;
+
+  constructor(handlers: TripControlHandlers) {
+    this.panel = this.createUI();
+
+    this.replayButton = this.panel.querySelector('#trip-replay');
+    this.ghostButton = this.panel.querySelector('#trip-ghost');
+    this.replayButton?.addEventListener('click', () => handlers.onReplay());
+    this.ghostButton?.addEventListener('click', () => handlers.onToggleGhost());
+    this.panel.querySelector('#trip-export-json')?.addEventListener('click', () => handlers.onExport('json'));
+    this.panel.querySelector('#trip-export-gpx')?.addEventListener('click', () => handlers.onExport('gpx'));
+  }
+
+  private createUI(): HTMLElement {
+    const panel = document.createElement('div');
+    panel.id = 'trip-controls';
+    panel.style.cssText = `
+      position: fixed;
+      bottom: 60px;
+      right: 20px;
+      background: #ffffff;
+      color: #000000;
+      padding: 12px;
+      border: 4px solid #000000;
+      border-radius: 0;
+      font-family: 'Press Start 2P', monospace;
+      font-size: 8px;
+      z-index: 1000;
+      box-shadow: 6px 6px 0px #000000;
+      image-rendering: pixelated;
+      display: grid;
+      grid-template-columns: repeat(2, 1fr);
+      gap: 8px;
+    `;
+    panel.innerHTML = `
+      <button id="trip-replay" class="gameboy-button" style="font-size: 6px; padding: 6px 8px;">REPLAY</button>
+      <button id="trip-ghost" class="gameboy-button" style="font-size: 6px; padding: 6px 8px;">GHOST: OFF</button>
+      <button id="trip-export-json" class="gameboy-button" style="font-size: 6px; padding: 6px 8px;">SAVE JSON</button>
+      <button id="trip-export-gpx" class="gameboy-button" style="font-size: 6px; padding: 6px 8px;">SAVE GPX</button>
+    `;
+    document.body.appendChild(panel);
+    return panel;
+  }
+
+  setGhostEnabled(enabled: boolean): void {
+    if (this.ghostButton) this.ghostButton.textContent = enabled ? 'GHOST: ON' : 'GHOST: OFF';
+  }
+
+  setReplaying(replaying: boolean): void {
+    if (this.replayButton) this.replayButton.textContent = replaying ? 'STOP' : 'REPLAY';
+  }
+}
@@ -0,0 +1,92 @@
+import { Trip, TripFrame } from './TripRecorder';
+
+export interface PlaybackState {
+  lat: number;
+  lng: number;
+  heading: number;
+  speed: number;
+  steering: number;
+  isOnRoad: boolean;
+  points: number;
+}
+
+/**
+ * Trip Player
+ * Looks up the interpolated state of a recorded trip at any point in time
+ */
+export class TripPlayer {
+  private trip: Trip;
+  private playbackTime: number = 0; // Milliseconds
+
+  constructor(trip: Trip) {
+    this.trip = trip;
+  }
+
+  getTrip(): Trip {
+    return this.trip;
+  }
+
+  // Start playback from the beginning
+  start(): void {
+    this.playbackTime = 0;
+  }
+
+  // Move playback on by a frame's deltaTime in seconds, so it stands still while paused
+  advance(deltaTime: number): void {
+    this.playbackTime += deltaTime * 1000;
+  }
+
+  // Milliseconds into the trip
+  getPlaybackTime(): number {
+    return this.playbackTime;
+  }
+
+  isFinished(elapsedMs: number = this.getPlaybackTime()): boolean {
+    return elapsedMs >= this.trip.durationMs;
+  }
+
+  // State at elapsedMs, blended between the two surrounding frames
+  sample(elapsedMs: number = this.getPlaybackTime()): PlaybackState {
+    const frames = this.trip.frames;
+    const index = this.findFrame(elapsedMs);
+    const from = frames[index];
+    const to = frames[Math.min(index + 1, frames.length - 1)];
+
+    const span = to[0] - from[0];
+    const alpha = span > 0 ? Math.max(0, Math.min(1, (elapsedMs - from[0]) / span)) : 0;
+    return this.blend(from, to, alpha);
+  }
+
+  // Index of the last frame at or before elapsedMs (binary search)
+  private findFrame(elapsedMs: number): number {
+    const frames = this.trip.frames;
+    let low = 0;
+    let high = frames.length - 1;
+
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (frames[mid][0] <= elapsedMs) low = mid;
+      else high = mid - 1;
+    }
+    return low;
+  }
+
+  private blend(from: TripFrame, to: TripFrame, alpha: number): PlaybackState {
+    const lerp = (a: number, b: number) => a + (b - a) * alpha;
+
+    // Take the short way around when heading wraps
+    let headingDelta = (to[3] - from[3]) % 360;
+    if (headingDelta > 180) headingDelta -= 360;
+    if (headingDelta < -180) headingDelta += 360;
+
+    return {
+      lat: lerp(from[1], to[1]),
+      lng: lerp(from[2], to[2]),
+      heading: from[3] + headingDelta * alpha,
+      speed: lerp(from[4], to[4]),
+      steering: lerp(from[7], to[7]),
+      isOnRoad: (alpha < 0.5 ? from[8] : to[8]) === 1,
+      points: alpha < 0.5 ? from[9] : to[9],
+    };
+  }
+}
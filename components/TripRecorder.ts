@@ -0,0 +1,159 @@
+/**
+ * Trip Recorder
+ * Records every tick of a drive into a compact trip format that can be
+ * replayed, raced against as a ghost, or exported as JSON / GPX.
+ */
+
+export const TRIP_FORMAT_VERSION = 1;
+
+// One recorded tick, stored as a tuple to keep trips small:
+// [elapsedMs, lat, lng, heading, speed, throttle, brake, steering, onRoad, points]
+export type TripFrame = [number, number, number, number, number, number, number, number, 0 | 1, number];
+
+export const TRIP_FRAME_FIELDS = [
+  'elapsedMs', 'lat', 'lng', 'heading', 'speed', 'throttle', 'brake', 'steering', 'onRoad', 'points',
+] as const;
+
+export interface Trip {
+  version: typeof TRIP_FORMAT_VERSION;
+  id: string;
+  playerId: string;
+  startedAt: number; // Epoch milliseconds
+  durationMs: number;
+  finalPoints: number;
+  fields: typeof TRIP_FRAME_FIELDS;
+  frames: TripFrame[];
+}
+
+export interface TripSample {
+  lat: number;
+  lng: number;
+  heading: number;
+  speed: number;
+  throttle: number;
+  brake: number;
+  steering: number;
+  isOnRoad: boolean;
+  points: number;
+}
+
+const round = (value: number, decimals: number) => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+export class TripRecorder {
+  private trip: Trip | null = null;
+  // Milliseconds of driving, built from frame times so pauses do not count
+  private elapsed: number = 0;
+
+  // Start a new recording, discarding any unfinished one
+  start(playerId: string): void {
+    this.trip = {
+      version: TRIP_FORMAT_VERSION,
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      playerId,
+      startedAt: Date.now(),
+      durationMs: 0,
+      finalPoints: 0,
+      fields: TRIP_FRAME_FIELDS,
+      frames: [],
+    };
+    this.elapsed = 0;
+  }
+
+  isRecording(): boolean {
+    return this.trip !== null;
+  }
+
+  // Milliseconds driven since the recording started
+  getElapsed(): number {
+    return this.trip ? this.elapsed : 0;
+  }
+
+  // Append the current tick, deltaTime seconds after the previous one
+  record(sample: TripSample, deltaTime: number): void {
+    if (!this.trip) return;
+    this.elapsed += deltaTime * 1000;
+
+    this.trip.frames.push([
+      Math.round(this.elapsed),
+      round(sample.lat, 7),
+      round(sample.lng, 7),
+      round(sample.heading, 1),
+      round(sample.speed, 2),
+      round(sample.throttle, 2),
+      round(sample.brake, 2),
+      round(sample.steering, 2),
+      sample.isOnRoad ? 1 : 0,
+      sample.points,
+    ]);
+  }
+
+  // Finish the recording and return it, or null if nothing was driven
+  stop(): Trip | null {
+    const trip = this.trip;
+    this.trip = null;
+    if (!trip || trip.frames.length < 2) return null;
+
+    const lastFrame = trip.frames[trip.frames.length - 1];
+    trip.durationMs = lastFrame[0];
+    trip.finalPoints = lastFrame[9];
+    return trip;
+  }
+}
+
+// ----------------------------------------------------------------------
+// EXPORT
+// ----------------------------------------------------------------------
+export function tripToJson(trip: Trip): string {
+  return JSON.stringify(trip);
+}
+
+// Parse and sanity-check a trip previously exported as JSON
+export function tripFromJson(json: string): Trip {
+  const trip = JSON.parse(json);
+  if (!trip || trip.version !== TRIP_FORMAT_VERSION || !Array.isArray(trip.frames)) {
+    throw new Error('Not a supported trip file');
+  }
+  return trip as Trip;
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export function tripToGpx(trip: Trip): string {
+  const points = trip.frames.map(([elapsedMs, lat, lng, heading, speed]) => {
+    const time = new Date(trip.startedAt + elapsedMs).toISOString();
+    return `      <trkpt lat="${lat}" lon="${lng}"><time>${time}</time>` +
+      `<course>${((heading % 360) + 360) % 360}</course><speed>${Math.abs(speed)}</speed></trkpt>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.0" creator="Dura" xmlns="http://www.topografix.com/GPX/1/0">',
+    '  <trk>',
+    `    <name>${escapeXml(`Dura trip ${new Date(trip.startedAt).toISOString()}`)}</name>`,
+    '    <trkseg>',
+    ...points,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+// Offer a trip to the user as a file download
+export function downloadTrip(trip: Trip, format: 'json' | 'gpx'): void {
+  const content = format === 'json' ? tripToJson(trip) : tripToGpx(trip);
+  const type = format === 'json' ? 'application/json' : 'application/gpx+xml';
+  const url = URL.createObjectURL(new Blob([content], { type }));
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `dura-trip-${trip.id}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
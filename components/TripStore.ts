@@ -0,0 +1,63 @@
+import { IndexedDbStore } from './IndexedDbStore';
+import { Trip } from './TripRecorder';
+
+/**
+ * Trip Store
+ * Keeps each player's most recent trip and best trip in IndexedDB
+ */
+export class TripStore {
+  private store: IndexedDbStore<Trip> | null = null;
+  // In-memory copy so the game still works without IndexedDB
+  private memory: Map<string, Trip> = new Map();
+
+  constructor() {
+    if (IndexedDbStore.isAvailable()) {
+      this.store = new IndexedDbStore<Trip>('dura-trips', 'trips');
+    }
+  }
+
+  private async read(key: string): Promise<Trip | undefined> {
+    if (this.memory.has(key)) return this.memory.get(key);
+    if (!this.store) return undefined;
+
+    try {
+      const trip = await this.store.get(key);
+      if (trip) this.memory.set(key, trip);
+      return trip;
+    } catch (error) {
+      console.warn('Could not load trip:', error);
+      return undefined;
+    }
+  }
+
+  private async write(key: string, trip: Trip): Promise<void> {
+    this.memory.set(key, trip);
+    if (!this.store) return;
+
+    try {
+      await this.store.put(trip, key);
+    } catch (error) {
+      console.warn('Could not save trip:', error);
+    }
+  }
+
+  // Save a finished trip, returns true if it became the player's best
+  async saveTrip(trip: Trip): Promise<boolean> {
+    await this.write(`last:${trip.playerId}`, trip);
+
+    const best = await this.getBestTrip(trip.playerId);
+    if (!best || trip.finalPoints > best.finalPoints) {
+      await this.write(`best:${trip.playerId}`, trip);
+      return true;
+    }
+    return false;
+  }
+
+  getLastTrip(playerId: string): Promise<Trip | undefined> {
+    return this.read(`last:${playerId}`);
+  }
+
+  getBestTrip(playerId: string): Promise<Trip | undefined> {
+    return this.read(`best:${playerId}`);
+  }
+}
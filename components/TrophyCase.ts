@@ -0,0 +1,104 @@
+import { AchievementEngine } from './Achievements';
+
+/**
+ * Game Boy style trophy case listing every achievement, unlocked ones with
+ * their date and locked ones with a progress bar
+ */
+export class TrophyCase {
+  private screen: HTMLElement;
+  private list: HTMLElement | null;
+  private engine: AchievementEngine;
+
+  constructor(engine: AchievementEngine) {
+    this.engine = engine;
+    this.screen = this.createScreen();
+    this.list = this.screen.querySelector('#trophy-list');
+  }
+
+  private createScreen(): HTMLElement {
+    const screen = document.createElement('div');
+    screen.id = 'trophy-case';
+    screen.className = 'gameboy-screen';
+    screen.style.cssText = `
+      position: fixed;
+      inset: 0;
+      background-color: rgba(0, 0, 0, 0.9);
+      display: none;
+      justify-content: center;
+      align-items: center;
+      z-index: 1500;
+      font-family: 'Press Start 2P', monospace;
+    `;
+    screen.innerHTML = `
+      <div class="gameboy-dialog" style="background: #ffffff; padding: 20px; border: 4px solid #000000; text-align: center; width: 90%; max-width: 480px; box-shadow: 8px 8px 0px #000000;">
+        <h2 id="trophy-title" style="font-size: 12px; margin: 0 0 16px;">TROPHIES</h2>
+        <div id="trophy-list" style="display: grid; gap: 8px; max-height: 60vh; overflow-y: auto; text-align: left;"></div>
+        <button id="trophy-close" class="gameboy-button" style="margin-top: 16px;">BACK</button>
+      </div>
+    `;
+    document.body.appendChild(screen);
+    screen.querySelector('#trophy-close')?.addEventListener('click', () => this.hide());
+    return screen;
+  }
+
+  show(): void {
+    this.render();
+    this.screen.style.display = 'flex';
+  }
+
+  hide(): void {
+    this.screen.style.display = 'none';
+  }
+
+  private render(): void {
+    if (!this.list) return;
+
+    const achievements = this.engine.getAchievements();
+    const unlockedCount = achievements.filter(achievement => this.engine.getUnlockedAt(achievement.id) !== undefined).length;
+    const title = this.screen.querySelector('#trophy-title');
+    if (title) title.textContent = `TROPHIES ${unlockedCount}/${achievements.length}`;
+
+    this.list.innerHTML = '';
+    if (achievements.length === 0) {
+      this.list.textContent = 'NO ACHIEVEMENTS AVAILABLE';
+      return;
+    }
+
+    achievements.forEach(achievement => {
+      const unlockedAt = this.engine.getUnlockedAt(achievement.id);
+      const locked = unlockedAt === undefined;
+      const secret = locked && achievement.hidden;
+
+      // Unlocked trophies are drawn inverted, like the selected tabs elsewhere
+      const row = document.createElement('div');
+      row.style.cssText = `
+        border: 3px solid #000000;
+        padding: 8px;
+        font-size: 8px;
+        line-height: 1.6;
+        text-transform: uppercase;
+        background: ${locked ? '#ffffff' : '#000000'};
+        color: ${locked ? '#000000' : '#ffffff'};
+      `;
+
+      const name = document.createElement('div');
+      name.textContent = `${locked ? '?' : '★'} ${secret ? '???' : achievement.name}`;
+      const detail = document.createElement('div');
+      detail.style.fontSize = '6px';
+      detail.textContent = secret
+        ? 'KEEP DRIVING TO FIND OUT'
+        : `${achievement.description}${locked ? '' : ` - ${new Date(unlockedAt!).toLocaleDateString()}`}`;
+      row.append(name, detail);
+
+      if (locked && !secret) {
+        const bar = document.createElement('div');
+        bar.style.cssText = 'height: 4px; border: 1px solid #000000; margin-top: 4px;';
+        const fill = document.createElement('div');
+        fill.style.cssText = `height: 100%; background: #000000; width: ${Math.round(this.engine.getProgress(achievement) * 100)}%;`;
+        bar.appendChild(fill);
+        row.appendChild(bar);
+      }
+      this.list?.appendChild(row);
+    });
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Vehicle Physics
+ * Deterministic fixed-timestep simulation of the car, independent of the
+ * display refresh rate. Contains no Maps or DOM access so it can run in Node.
+ */
+
+export type Gear = 'drive' | 'reverse';
+
+export interface VehicleState {
+  lat: number;
+  lng: number;
+  heading: number;       // Degrees, 0 = north, clockwise
+  speed: number;         // Meters per second, negative when reversing
+  steeringAngle: number; // Front wheel angle in degrees, positive = right
+  gear: Gear;
+}
+
+export interface VehicleInput {
+  throttle: number; // 0..1
+  brake: number;    // 0..1, held at a standstill to engage reverse
+  steering: number; // -1 (left) .. 1 (right)
+}
+
+export const NO_INPUT: VehicleInput = { throttle: 0, brake: 0, steering: 0 };
+
+// Tunable vehicle characteristics (bicycle model)
+export interface VehiclePreset {
+  wheelbase: number;            // Meters between front and rear axle
+  acceleration: number;         // m/s² at full throttle
+  reverseAcceleration: number;  // m/s² in reverse gear
+  brakeDeceleration: number;    // m/s² at full brake
+  coastingDeceleration: number; // m/s² with no pedal pressed
+  maxSpeed: number;             // m/s
+  maxReverseSpeed: number;      // m/s
+  maxSteeringAngle: number;     // Degrees at standstill
+  highSpeedSteeringAngle: number; // Degrees at max speed
+  steeringRate: number;         // Degrees per second the wheel can turn
+}
+
+export const VEHICLE_PRESETS: { [name: string]: VehiclePreset } = {
+  // Forgiving handling, close to the original constant-rate controls
+  arcade: {
+    wheelbase: 2.4,
+    acceleration: 3.0,
+    reverseAcceleration: 2.0,
+    brakeDeceleration: 6.0,
+    coastingDeceleration: 1.0,
+    maxSpeed: 25,
+    maxReverseSpeed: 6,
+    maxSteeringAngle: 40,
+    highSpeedSteeringAngle: 12,
+    steeringRate: 180,
+  },
+  sedan: {
+    wheelbase: 2.7,
+    acceleration: 2.0,
+    reverseAcceleration: 1.5,
+    brakeDeceleration: 4.0,
+    coastingDeceleration: 1.0,
+    maxSpeed: 25,
+    maxReverseSpeed: 5,
+    maxSteeringAngle: 35,
+    highSpeedSteeringAngle: 6,
+    steeringRate: 120,
+  },
+  truck: {
+    wheelbase: 4.0,
+    acceleration: 1.2,
+    reverseAcceleration: 1.0,
+    brakeDeceleration: 3.0,
+    coastingDeceleration: 0.8,
+    maxSpeed: 20,
+    maxReverseSpeed: 4,
+    maxSteeringAngle: 30,
+    highSpeedSteeringAngle: 4,
+    steeringRate: 90,
+  },
+};
+
+export const DEFAULT_PRESET = VEHICLE_PRESETS.sedan;
+
+export const FIXED_TIME_STEP = 1 / 60; // Seconds per physics step
+const MAX_FRAME_TIME = 0.25; // Ignore longer gaps (tab switches, pauses)
+const STOPPED_SPEED = 0.1; // Below this the car counts as standing still
+
+const METERS_TO_LAT = 1 / 111111;
+const degToRad = (degrees: number) => degrees * (Math.PI / 180);
+const radToDeg = (radians: number) => radians * (180 / Math.PI);
+
+// Move value toward target by at most maxDelta
+const approach = (value: number, target: number, maxDelta: number) =>
+  value < target ? Math.min(value + maxDelta, target) : Math.max(value - maxDelta, target);
+
+// Steering lock available at the current speed, narrowing linearly with speed
+function steeringLimit(speed: number, preset: VehiclePreset): number {
+  const speedRatio = Math.min(Math.abs(speed) / preset.maxSpeed, 1);
+  return preset.maxSteeringAngle + (preset.highSpeedSteeringAngle - preset.maxSteeringAngle) * speedRatio;
+}
+
+// Advance a vehicle state by dt seconds. Pure: returns a new state.
+export function step(
+  state: VehicleState,
+  input: VehicleInput,
+  dt: number,
+  preset: VehiclePreset = DEFAULT_PRESET
+): VehicleState {
+  let { lat, lng, heading, speed, steeringAngle, gear } = state;
+
+  // Shift when standing still: brake engages reverse, throttle engages drive
+  if (Math.abs(speed) < STOPPED_SPEED) {
+    if (gear === 'drive' && input.brake > 0 && input.throttle === 0) gear = 'reverse';
+    else if (gear === 'reverse' && input.throttle > 0 && input.brake === 0) gear = 'drive';
+  }
+
+  // In reverse the pedals swap roles so "down" keeps backing up
+  const drivePedal = gear === 'drive' ? input.throttle : input.brake;
+  const brakePedal = gear === 'drive' ? input.brake : input.throttle;
+  const direction = gear === 'drive' ? 1 : -1;
+
+  if (brakePedal > 0) {
+    speed = approach(speed, 0, preset.brakeDeceleration * brakePedal * dt);
+  } else if (drivePedal > 0) {
+    const acceleration = gear === 'drive' ? preset.acceleration : preset.reverseAcceleration;
+    speed += direction * acceleration * drivePedal * dt;
+  } else {
+    speed = approach(speed, 0, preset.coastingDeceleration * dt);
+  }
+
+  speed = Math.min(Math.max(speed, -preset.maxReverseSpeed), preset.maxSpeed);
+  if (Math.abs(speed) < STOPPED_SPEED && drivePedal === 0) speed = 0;
+
+  // Front wheels turn toward the requested angle at a limited rate
+  const limit = steeringLimit(speed, preset);
+  const targetAngle = Math.max(-1, Math.min(1, input.steering)) * limit;
+  steeringAngle = approach(steeringAngle, targetAngle, preset.steeringRate * dt);
+  steeringAngle = Math.max(-limit, Math.min(limit, steeringAngle));
+
+  // Bicycle model: yaw rate = v / L * tan(δ), which also flips when reversing
+  const yawRate = (speed / preset.wheelbase) * Math.tan(degToRad(steeringAngle));
+  heading = (heading + radToDeg(yawRate) * dt) % 360;
+
+  const distance = speed * dt;
+  const headingRad = degToRad(heading);
+  lat += distance * Math.cos(headingRad) * METERS_TO_LAT;
+  lng += (distance * Math.sin(headingRad) * METERS_TO_LAT) / Math.cos(degToRad(lat));
+
+  return { lat, lng, heading, speed, steeringAngle, gear };
+}
+
+// Blend two states, taking the short way around for heading
+export function interpolateState(from: VehicleState, to: VehicleState, alpha: number): VehicleState {
+  let headingDelta = (to.heading - from.heading) % 360;
+  if (headingDelta > 180) headingDelta -= 360;
+  if (headingDelta < -180) headingDelta += 360;
+
+  return {
+    lat: from.lat + (to.lat - from.lat) * alpha,
+    lng: from.lng + (to.lng - from.lng) * alpha,
+    heading: from.heading + headingDelta * alpha,
+    speed: from.speed + (to.speed - from.speed) * alpha,
+    steeringAngle: from.steeringAngle + (to.steeringAngle - from.steeringAngle) * alpha,
+    gear: to.gear,
+  };
+}
+
+export class VehiclePhysics {
+  private previousState: VehicleState;
+  private currentState: VehicleState;
+  private accumulator: number = 0;
+  private fixedStep: number;
+  private preset: VehiclePreset;
+
+  constructor(initialState: VehicleState, preset: VehiclePreset = DEFAULT_PRESET, fixedStep: number = FIXED_TIME_STEP) {
+    this.previousState = { ...initialState };
+    this.currentState = { ...initialState };
+    this.preset = preset;
+    this.fixedStep = fixedStep;
+  }
+
+  // Feed real elapsed time; runs as many fixed steps as fit and returns
+  // how many were taken
+  advance(elapsedSeconds: number, input: VehicleInput): number {
+    this.accumulator += Math.min(Math.max(elapsedSeconds, 0), MAX_FRAME_TIME);
+
+    let steps = 0;
+    while (this.accumulator >= this.fixedStep) {
+      this.previousState = this.currentState;
+      this.currentState = step(this.currentState, input, this.fixedStep, this.preset);
+      this.accumulator -= this.fixedStep;
+      steps++;
+    }
+    return steps;
+  }
+
+  // Latest simulated state
+  getState(): VehicleState {
+    return { ...this.currentState };
+  }
+
+  // State to render, between the last two steps by the leftover time
+  getInterpolatedState(): VehicleState {
+    return interpolateState(this.previousState, this.currentState, this.accumulator / this.fixedStep);
+  }
+
+  setPreset(preset: VehiclePreset): void {
+    this.preset = preset;
+  }
+
+  reset(state: VehicleState): void {
+    this.previousState = { ...state };
+    this.currentState = { ...state };
+    this.accumulator = 0;
+  }
+}
@@ -5,21 +5,180 @@ export const CONFIG = {
   
   // Roads API settings
   ROADS_API: {
-    CACHE_TIMEOUT: 30000, // 30 seconds
-    MAX_RETRIES: 3,
-    RETRY_DELAY: 1000, // 1 second
+    MAX_RETRIES: 3, // Failed lookups retried before road detection counts as down
+    RETRY_DELAY: 1000, // First retry after 1 second, doubling each time
+    HEALTH_PROBE_INTERVAL: 30000, // While down, check every 30 seconds whether lookups work again
     ROAD_TOLERANCE: 10, // 10 meters - how close you need to be to a road
     DEBUG_MODE: true, // Show detailed road detection logs
+    MAX_REQUESTS_PER_SECOND: 5, // nearestRoads budget, checks over it reuse the last answer
+    // Per-frame checks look up the path ahead in one batch request
+    PREDICTION: {
+      LOOK_AHEAD_TIME: 3, // Seconds of driving covered by one batch
+      SPACING: 4, // Meters between predicted points
+      MAX_POINTS: 25, // Per request, the Roads API allows up to 100
+    },
+    // Snapped road geometry is kept in IndexedDB and reused between visits
+    SEGMENT_CACHE: {
+      MAX_AGE: 7 * 24 * 60 * 60 * 1000, // Roads rarely change, refresh after a week
+      MAX_ENTRIES: 20000,
+      CELL_SIZE: 0.0005, // Spatial index cell size in degrees (~55 meters)
+      MAX_SEGMENT_LENGTH: 30, // Snapped points further apart are not joined into one road
+      NO_ROAD_RADIUS: 50, // Meters assumed clear of roads when nearestRoads finds none
+      JUNCTION_DISTANCE: 5, // Roads of two places this close meet at an intersection
+    },
+    // Road data source: 'google' (Roads API), 'geojson' (local road network)
+    // or 'tiles' (gray pixels of a label-free map tile layer, no key needed)
+    PROVIDER: import.meta.env.VITE_ROAD_PROVIDER || 'google',
+    GEOJSON_URL: import.meta.env.VITE_ROAD_NETWORK_URL || '/roads/gainesville.geojson',
+    GEOJSON_CELL_SIZE: 0.0005, // Spatial index cell size in degrees (~55 meters)
+    GEOJSON_EXCLUDED_HIGHWAYS: ['footway', 'path', 'cycleway', 'steps', 'pedestrian', 'bridleway', 'corridor'],
+    TILES: {
+      // Web Mercator tiles styled with gray roads, {z}/{x}/{y} are filled in
+      URL: import.meta.env.VITE_ROAD_TILE_URL || '/tiles/{z}/{x}/{y}.png',
+      ZOOM: 18, // ~0.5 meters per pixel at Gainesville's latitude
+      SIZE: 256, // Pixels per tile side
+      MAX_CACHED: 64, // Decoded tiles kept in memory
+    },
+  },
+  
+  // Lane discipline, measured from the centreline of the nearest road
+  LANES: {
+    DRIVE_ON: 'right' as 'right' | 'left', // US traffic keeps right
+    WIDTH: 3.5, // Meters per lane
+    DEFAULT_COUNT: 2, // Lanes of a two-way road when the road data has no lane count
+    LINE_MARGIN: 0.9, // Half the car's width, closer to a lane line than this is driving on it
+  },
+  
+  // Vehicle handling settings
+  VEHICLE: {
+    PRESET: 'sedan', // One of VEHICLE_PRESETS: 'arcade', 'sedan', 'truck'
+  },
+  
+  // Chase camera defaults, players can change them in the settings menu
+  CAMERA: {
+    MODE: 'chase', // One of CAMERA_MODES: 'chase', 'topDown', 'orbit', 'freeLook'
+    SWITCH_KEY: 'c', // Cycles through the camera modes
+    TILT: 70, // Degrees from straight down
+    ZOOM: 20,
+    SPRING_STIFFNESS: 12, // How quickly the chase camera swings round behind the car
+    SPEED_ZOOM_OUT: 1.5, // Zoom levels pulled back at SPEED_ZOOM_MAX
+    SPEED_ZOOM_MAX: 30, // Meters per second
+    LOOK_AHEAD_TIME: 1.5, // Center the view where the car will be this many seconds ahead
+    MAX_LOOK_AHEAD: 40, // Meters
+    ORBIT_SPEED: 12, // Degrees per second in the cinematic orbit
+  },
+  
+  // Corner overview map
+  MINIMAP: {
+    ZOOM: 16,
+    TRACE_SPACING: 3, // Meters between points of the driven path
+    MAX_TRACE_POINTS: 5000, // Oldest parts of the path are dropped after this
+  },
+  
+  // Audio settings
+  AUDIO: {
+    VOLUME: 80, // Master volume in percent
+    // Looping background song, served from public/music by default
+    MUSIC_URL: import.meta.env.VITE_MUSIC_URL || '/music/cruise.json',
+    ENGINE: {
+      IDLE_FREQUENCY: 45, // Hz while standing still
+      MAX_FREQUENCY: 160, // Hz at MAX_SPEED
+      MAX_SPEED: 35, // Meters per second (~78 mph)
+    },
+  },
+  
+  // Input settings
+  INPUT: {
+    TOUCH_CONTROLS: 'auto', // 'auto' shows the on-screen controls on touch screens, 'on' / 'off' to force
+    // Gamepad layout in the browser's "standard" mapping (Xbox / PlayStation):
+    // left stick steers, right trigger accelerates, left trigger brakes
+    GAMEPAD: {
+      STEERING_AXIS: 0,
+      INVERT_STEERING: false,
+      THROTTLE: { type: 'button' as const, index: 7 },
+      BRAKE: { type: 'button' as const, index: 6 },
+      DEADZONE: 0.15, // Ignore stick movement below 15%
+    },
+  },
+  
+  // Backend telemetry sync settings
+  BACKEND: {
+    SYNC_URL: import.meta.env.VITE_TELEMETRY_URL || 'http://localhost:8787/api/telemetry',
+    SAMPLE_INTERVAL: 1000, // 1 second between recorded samples
+    FLUSH_INTERVAL: 5000, // Upload queued samples every 5 seconds
+    MAX_BATCH_SIZE: 50, // Samples per upload
+    MAX_RETRIES: 4,
+    RETRY_BASE_DELAY: 1000, // First retry after ~1 second, doubling each time
+    RETRY_MAX_DELAY: 30000,
+  },
+  
+  // Multiplayer presence (see server/presence-server.mjs)
+  PRESENCE: {
+    URL: import.meta.env.VITE_PRESENCE_URL || 'ws://localhost:8788',
+    SEND_INTERVAL: 100, // Share our position 10 times a second
+    INTERPOLATION_DELAY: 200, // Draw other cars this far in the past to smooth between updates
+    MAX_EXTRAPOLATION: 1000, // Keep a car moving this long after its updates stop
+    STALE_TIMEOUT: 5000, // Remove cars not heard from for 5 seconds
+    RECONNECT_BASE_DELAY: 1000,
+    RECONNECT_MAX_DELAY: 30000,
+  },
+  
+  // Player profiles, score history and leaderboards
+  PLAYERS: {
+    // Where results are kept: 'local' (this browser) or 'rest' (backend API)
+    STORAGE: import.meta.env.VITE_PLAYER_STORAGE || 'local',
+    API_URL: import.meta.env.VITE_PLAYER_API_URL || 'http://localhost:8787/api',
+    SAVE_INTERVAL: 30000, // Save the running session result every 30 seconds
+    LEADERBOARD_SIZE: 10,
+  },
+  
+  // Achievement rules, served from public/achievements by default
+  ACHIEVEMENTS: {
+    URL: import.meta.env.VITE_ACHIEVEMENTS_URL || '/achievements/default.json',
+  },
+  
+  // Question pack settings
+  QUESTIONS: {
+    // Comma separated pack URLs, served from public/questions by default
+    PACKS: (import.meta.env.VITE_QUESTION_PACKS || '/questions/us-general.json').split(',').map((url: string) => url.trim()),
+    LOCALE: import.meta.env.VITE_QUESTION_LOCALE || 'en-US',
+    WRONG_ANSWER_WEIGHT: 3, // How strongly weak categories are favoured
+    // Driving event rules and geofences that trigger questions
+    TRIGGERS_URL: import.meta.env.VITE_QUESTION_TRIGGERS_URL || '/triggers/default.json',
+    MIN_GAP: 15000, // At least 15 seconds between questions
+  },
+  
+  // Mission settings
+  MISSIONS: {
+    // Comma separated mission URLs, served from public/missions by default
+    URLS: (import.meta.env.VITE_MISSIONS || '/missions/sample-loop.json').split(',').map((url: string) => url.trim()),
+  },
+  
+  // Speed limit settings
+  SPEED_LIMITS: {
+    DEFAULT_MPH: 25, // Assumed limit when the road has none posted (residential)
+    REFRESH_INTERVAL: 2000, // Look up the limit every 2 seconds while driving
+    CACHE_TIMEOUT: 300000, // Roads API speed limits are cached for 5 minutes
   },
   
   // Point system settings
   POINTS: {
     BASE_POINTS_PER_METER: 5, // Even slower point accumulation
-    MAX_SPEED_BONUS: 1.5, // Reduced from 2 to 1.5
+    COMPLIANCE_BONUS: 1.5, // Point bonus for driving at or under the speed limit
+    CORRECT_ANSWER_POINTS: 100, // Awarded for each correctly answered question
     MAX_MULTIPLIER: 3, // Reduced from 5 to 3
     MULTIPLIER_INCREASE_TIME: 8, // Increased from 5 to 8 seconds
     OFF_ROAD_PENALTY: 5, // Points lost per meter driven off-road
     PENALTY_MULTIPLIER: 2, // Penalty multiplier for consecutive off-road driving
+    LANE_KEEPING_BONUS: 1.25, // Point bonus for driving centred in a lane on the correct side
+    WRONG_SIDE_PENALTY: 8, // Points lost per meter driven on the wrong side or against a one-way street
+    SPEEDING_GRACE_MPH: 3, // No bonus but no penalty this far over the limit
+    // Points lost per meter driven, by how far over the limit (highest match wins)
+    SPEEDING_PENALTIES: [
+      { OVER_MPH: 3, PENALTY_PER_METER: 1 },
+      { OVER_MPH: 10, PENALTY_PER_METER: 3 },
+      { OVER_MPH: 20, PENALTY_PER_METER: 8 },
+    ],
   }
 };
 
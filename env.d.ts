@@ -5,6 +5,20 @@
  */
 interface ImportMetaEnv {
   readonly VITE_GOOGLE_MAPS_API_KEY: string;
+  readonly VITE_ROAD_PROVIDER?: string;
+  readonly VITE_ROAD_NETWORK_URL?: string;
+  readonly VITE_ROAD_TILE_URL?: string;
+  readonly VITE_AUTH0_AUDIENCE?: string;
+  readonly VITE_TELEMETRY_URL?: string;
+  readonly VITE_PRESENCE_URL?: string;
+  readonly VITE_PLAYER_STORAGE?: string;
+  readonly VITE_PLAYER_API_URL?: string;
+  readonly VITE_ACHIEVEMENTS_URL?: string;
+  readonly VITE_MUSIC_URL?: string;
+  readonly VITE_QUESTION_PACKS?: string;
+  readonly VITE_QUESTION_LOCALE?: string;
+  readonly VITE_QUESTION_TRIGGERS_URL?: string;
+  readonly VITE_MISSIONS?: string;
 }
 
 interface ImportMeta {
@@ -18,7 +18,50 @@ import * as THREE from "three";
 import { ThreeJSOverlayView } from "@googlemaps/three";
 import { Car } from "./components/Car";
 import { ColorDetector } from "./components/ColorDetector";
+import { RealRoadDetector } from "./components/RealRoadDetector";
+import { GeoJsonRoadProvider } from "./components/GeoJsonRoadProvider";
+import { TileRoadProvider } from "./components/TileRoadProvider";
+import { RoadProvider, MPH_TO_MPS } from "./components/RoadProvider";
 import { PointSystem } from "./components/PointSystem";
+import { TelemetrySync } from "./components/TelemetrySync";
+import { TripRecorder, Trip, downloadTrip } from "./components/TripRecorder";
+import { TripPlayer } from "./components/TripPlayer";
+import { TripStore } from "./components/TripStore";
+import { TripControls } from "./components/TripControls";
+import { Question, loadQuestionPacks, localeMatches, shuffleAnswers } from "./components/QuestionPack";
+import { QuestionScheduler } from "./components/QuestionScheduler";
+import { Mission, loadMissions } from "./components/Mission";
+import { MissionRunner, MissionEvent } from "./components/MissionRunner";
+import { MissionHud } from "./components/MissionHud";
+import { CheckpointMarker } from "./components/CheckpointMarker";
+import { PresenceClient } from "./components/PresenceClient";
+import { RemoteCars } from "./components/RemoteCars";
+import { PlayerStore, SessionResult, createSessionId } from "./components/PlayerStore";
+import { LocalPlayerStore } from "./components/LocalPlayerStore";
+import { RestPlayerStore } from "./components/RestPlayerStore";
+import { LeaderboardScreen } from "./components/LeaderboardScreen";
+import { AchievementEngine, AchievementEvent, loadAchievementConfig } from "./components/Achievements";
+import { AchievementStore } from "./components/AchievementStore";
+import { TrophyCase } from "./components/TrophyCase";
+import { QuestionTriggerEngine, TriggerFired, loadTriggerConfig } from "./components/QuestionTriggers";
+import { InputManager } from "./components/InputManager";
+import { KeyboardInput, loadKeyBindings } from "./components/KeyboardInput";
+import { GamepadInput } from "./components/GamepadInput";
+import { TouchInput, isTouchDevice } from "./components/TouchInput";
+import { KeyBindingScreen } from "./components/KeyBindingScreen";
+import { SettingsStore, GameSettings, DIFFICULTY_PRESETS, formatChoice } from "./components/Settings";
+import { SettingsScreen } from "./components/SettingsScreen";
+import { GameStateMachine } from "./components/GameStateMachine";
+import { AudioEngine, loadMixerState } from "./components/AudioEngine";
+import { EngineSound } from "./components/EngineSound";
+import { MusicPlayer, loadSong } from "./components/MusicPlayer";
+import { playSoundEffect } from "./components/SoundEffects";
+import { AudioMixerScreen } from "./components/AudioMixerScreen";
+import { Minimap } from "./components/Minimap";
+import { CameraRig, CAMERA_MODES } from "./components/CameraRig";
+import { PauseMenu } from "./components/PauseMenu";
+import { VehiclePhysics, VehicleInput, NO_INPUT, Gear, VEHICLE_PRESETS, DEFAULT_PRESET } from "./components/VehiclePhysics";
+import { gameEvents, GameEventMap } from "./components/GameEvents";
 import { CONFIG, validateApiKey } from "./config";
 import { gameBoyDialog } from "./components/GameBoyDialog";
 // Import the modular Auth0 functions
@@ -27,6 +70,7 @@ import {
     logout, 
     isAuthenticated as checkIsAuthenticated, 
     getUser, 
+    getAccessToken,
     handleRedirectCallback 
 } from './auth'; 
 
@@ -39,6 +83,12 @@ let userProfile: any = null;
 const userStatusElement = document.getElementById('user-status');
 const loginButton = document.getElementById('login-btn');
 const logoutButton = document.getElementById('logout-btn');
+const missionsButton = document.getElementById('missions-btn');
+const leaderboardButton = document.getElementById('leaderboard-btn');
+const trophiesButton = document.getElementById('trophies-btn');
+const controlsButton = document.getElementById('controls-btn');
+const settingsButton = document.getElementById('settings-btn');
+const soundButton = document.getElementById('sound-btn');
 // Reference for the welcome message element
 const welcomeMessageElement = document.getElementById('welcome-message');
 const controlMessageElement = document.getElementById('control-message'); // NEW
@@ -50,11 +100,15 @@ let carPlaceholder: Car;
 let threeJsOverlay: ThreeJSOverlayView | undefined;
 let colorDetector: ColorDetector;
 let pointSystem: PointSystem; 
+let roadProvider: RoadProvider | undefined;
+
+// Saved player settings, with any overrides from the page URL
+const settingsStore = new SettingsStore();
 
 const mapOptions = {
-  tilt: 70, 
+  tilt: settingsStore.get().cameraTilt, 
   heading: 0,
-  zoom: 20,
+  zoom: settingsStore.get().cameraZoom,
   center: { lat: 29.651634, lng: -82.324829},
   mapId: "15431d2b469f209e",
   disableDefaultUI: true,
@@ -63,157 +117,902 @@ const mapOptions = {
 };
 
 // ----------------------------------------------------------------------
-// VEHICLE STATE AND PHYSICS CONSTANTS
+// VEHICLE STATE
 // ----------------------------------------------------------------------
 let vehicleState = {
   lat: mapOptions.center.lat,
   lng: mapOptions.center.lng,
   heading: 0, 
   speed: 0,   
-  tilt: mapOptions.tilt,
-  zoom: mapOptions.zoom,
+  steeringAngle: 0,
+  gear: 'drive' as Gear,
 };
 
-const ACCELERATION_RATE = 2.0; 
-const DECELERATION_RATE = 4.0; 
-const COASTING_RATE = 1.0;     
-const MAX_SPEED = 25;          
-const TURN_RATE = 60;          
-const TIME_STEP = 1000 / 60;   
-const keysPressed: { [key: string]: boolean } = {};
+const vehiclePreset = VEHICLE_PRESETS[CONFIG.VEHICLE.PRESET] || DEFAULT_PRESET;
+const vehiclePhysics = new VehiclePhysics(
+  {
+    lat: vehicleState.lat,
+    lng: vehicleState.lng,
+    heading: vehicleState.heading,
+    speed: vehicleState.speed,
+    steeringAngle: vehicleState.steeringAngle,
+    gear: vehicleState.gear,
+  },
+  vehiclePreset
+);
+let lastInput: VehicleInput = NO_INPUT;
+let lastOnRoad = false;
+const inputManager = new InputManager();
+let keyboardInput: KeyboardInput | undefined;
+// Owns the game loop, which only runs while Playing
+const gameState = new GameStateMachine(tick);
 
 
 // ----------------------------------------------------------------------
 // HELPER & INPUT FUNCTIONS
 // ----------------------------------------------------------------------
-const degToRad = (degrees: number) => degrees * (Math.PI / 180);
-const METERS_TO_LAT = 1 / 111111;
+// Keyboard (rebindable), gamepad and on-screen touch controls all feed the physics
 function setupInputHandling() {
-  document.addEventListener("keydown", (event) => {
-    // Use toLowerCase for consistent key checks (w, a, s, d)
-    const key = event.key.toLowerCase();
-    if (["arrowup", "arrowdown", "arrowleft", "arrowright", "w", "a", "s", "d"].includes(key)) {
-        event.preventDefault();
+  if (keyboardInput) return;
+
+  keyboardInput = new KeyboardInput(loadKeyBindings());
+  inputManager.addSource(keyboardInput);
+  inputManager.addSource(new GamepadInput());
+
+  const touchInput = new TouchInput();
+  inputManager.addSource(touchInput);
+  const touchSetting = CONFIG.INPUT.TOUCH_CONTROLS;
+  touchInput.setVisible(touchSetting === 'on' || (touchSetting === 'auto' && isTouchDevice()));
+
+  const keyBindingScreen = new KeyBindingScreen(keyboardInput);
+  if (controlsButton) controlsButton.addEventListener('click', () => keyBindingScreen.show());
+}
+
+// Combined analog input from every input source
+function readVehicleInput(): VehicleInput {
+  return inputManager.read();
+}
+
+// ----------------------------------------------------------------------
+// PAUSE MENU
+// ----------------------------------------------------------------------
+let pauseMenu: PauseMenu | undefined;
+
+function setupPauseMenu(): void {
+  if (pauseMenu) return;
+
+  pauseMenu = new PauseMenu({
+    onResume: resumeGame,
+    onRestart: restartGame,
+    onSettings: () => settingsScreen?.show(),
+    onQuit: quitGame,
+  });
+
+  document.addEventListener('keydown', (event) => {
+    if (event.key !== 'Escape') return;
+    if (gameState.is('Playing')) {
+      pauseGame();
+    } else if (gameState.is('Paused') && pauseMenu?.isVisible()) {
+      resumeGame();
     }
-    keysPressed[key] = true;
   });
+  // Nobody is driving while the tab is in the background
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden' && gameState.is('Playing')) pauseGame();
+  });
+}
+
+function pauseGame(): void {
+  if (gameState.transition('Paused')) pauseMenu?.show();
+}
+
+function resumeGame(): void {
+  settingsScreen?.hide();
+  pauseMenu?.hide();
+  if (gameState.is('Paused')) gameState.transition('Playing');
+}
 
-  document.addEventListener("keyup", (event) => {
-    keysPressed[event.key.toLowerCase()] = false;
+// Start the drive over from the start position with a fresh score
+async function restartGame(): Promise<void> {
+  pauseMenu?.hide();
+  if (replayPlayer) {
+    replayPlayer = null;
+    tripControls?.setReplaying(false);
+  }
+  endMission();
+
+  await gameEvents.emit('SessionEnded', { playerId: currentPlayerId(), timestamp: Date.now() });
+  vehiclePhysics.reset({
+    lat: mapOptions.center.lat,
+    lng: mapOptions.center.lng,
+    heading: 0,
+    speed: 0,
+    steeringAngle: 0,
+    gear: 'drive',
   });
+  vehicleState = { ...vehicleState, ...vehiclePhysics.getState() };
+  pointSystem?.reset();
+  // The car is back inside the start area without having driven there
+  questionTriggers.reset();
+  startSession();
+
+  if (gameState.is('Paused')) gameState.transition('Playing');
+}
+
+async function quitGame(): Promise<void> {
+  pauseMenu?.hide();
+  const confirmed = await gameBoyDialog.showConfirm("QUIT", "End this drive and log out?");
+  if (!confirmed) {
+    pauseMenu?.show();
+    return;
+  }
+  await endSessionAndLogout();
 }
 
+// ----------------------------------------------------------------------
+// SETTINGS
+// ----------------------------------------------------------------------
+let settingsScreen: SettingsScreen | undefined;
+
+function setupSettingsScreen(): void {
+  if (settingsScreen) return;
+
+  settingsScreen = new SettingsScreen(settingsStore, settings => {
+    gameEvents.emit('SettingsChanged', { settings });
+  });
+  if (settingsButton) settingsButton.addEventListener('click', () => settingsScreen?.show());
+}
+
+// Push the settings into the systems that were built with CONFIG defaults
+function applySettings(settings: GameSettings): void {
+  cameraRig.setBaseView(settings.cameraTilt, settings.cameraZoom);
+  cameraRig.setMode(settings.cameraMode);
+  roadProvider?.setRoadTolerance?.(settings.roadTolerance);
+  pointSystem?.setPenaltyScale(DIFFICULTY_PRESETS[settings.difficulty].penaltyScale);
+  questionTriggers.setMinGap(settings.questionGap * 1000);
+}
+
+gameEvents.on('SettingsChanged', ({ settings }) => applySettings(settings));
+
+// ----------------------------------------------------------------------
+// AUDIO
+// ----------------------------------------------------------------------
+const audioEngine = new AudioEngine(loadMixerState());
+const engineSound = new EngineSound(audioEngine);
+const musicPlayer = new MusicPlayer(audioEngine);
+let audioMixerScreen: AudioMixerScreen | undefined;
+
+function setupAudioSystem(): void {
+  if (audioMixerScreen) return;
+
+  audioMixerScreen = new AudioMixerScreen(audioEngine);
+  if (soundButton) soundButton.addEventListener('click', () => audioMixerScreen?.show());
+}
+
+// Background music loops for the whole session, silently skipped if the song is broken
+function startMusic(): void {
+  if (musicPlayer.isPlaying()) return;
+  loadSong(CONFIG.AUDIO.MUSIC_URL)
+    .then(song => musicPlayer.play(song))
+    .catch(error => console.error('Could not load music:', error));
+}
+
+gameEvents.on('SettingsChanged', ({ settings }) => audioEngine.setMasterVolume(settings.volume / 100));
+gameEvents.on('SessionStarted', startMusic);
+gameEvents.on('GameStateChanged', ({ to }) => {
+  engineSound.setRunning(to === 'Playing');
+  if (to === 'LoggedOut') musicPlayer.stop();
+});
+gameEvents.on('VehicleUpdated', ({ speed, input }) => engineSound.update(speed, input.throttle));
+gameEvents.on('QuestionAnswered', ({ correct }) => playSoundEffect(audioEngine, correct ? 'correct' : 'wrong'));
+gameEvents.on('RoadStateChanged', ({ isOnRoad }) => {
+  if (!isOnRoad) playSoundEffect(audioEngine, 'offRoad');
+});
+gameEvents.on('LaneStateChanged', ({ status }) => {
+  if (status !== 'wrongSide') return;
+  playSoundEffect(audioEngine, 'offRoad');
+  gameEvents.emit('NotificationRequested', { message: 'WRONG SIDE OF THE ROAD!', duration: 2000 });
+});
+gameEvents.on('PointsAwarded', ({ reason }) => {
+  if (reason === 'checkpoint') playSoundEffect(audioEngine, 'checkpoint');
+});
+gameEvents.on('AchievementUnlocked', () => playSoundEffect(audioEngine, 'achievement'));
+gameEvents.on('MissionFinished', ({ completed }) => playSoundEffect(audioEngine, completed ? 'missionComplete' : 'missionFailed'));
+
+// ----------------------------------------------------------------------
+// CAMERA
+// ----------------------------------------------------------------------
+const cameraRig = new CameraRig(mapOptions.tilt, mapOptions.zoom);
+let cameraControlsReady = false;
+
+function setupCameraControls(): void {
+  if (cameraControlsReady) return;
+  cameraControlsReady = true;
+
+  document.addEventListener('keydown', (event) => {
+    if (event.key.toLowerCase() !== CONFIG.CAMERA.SWITCH_KEY || !gameState.is('Playing')) return;
+    const next = CAMERA_MODES[(CAMERA_MODES.indexOf(cameraRig.getMode()) + 1) % CAMERA_MODES.length];
+    const settings = settingsStore.set('cameraMode', next);
+    gameEvents.emit('SettingsChanged', { settings });
+    gameEvents.emit('NotificationRequested', { message: `CAMERA: ${formatChoice(settings.cameraMode)}`, duration: 1500 });
+  });
+
+  // Free look drags on the map itself, which lets pointer events through to the page
+  document.addEventListener('pointerdown', (event) => {
+    if (event.target === document.body || event.target === document.documentElement) {
+      cameraRig.startDrag(event.clientX, event.clientY);
+    }
+  });
+  document.addEventListener('pointermove', (event) => cameraRig.drag(event.clientX, event.clientY));
+  document.addEventListener('pointerup', () => cameraRig.endDrag());
+  document.addEventListener('pointercancel', () => cameraRig.endDrag());
+}
+
+// ----------------------------------------------------------------------
+// MINIMAP
+// ----------------------------------------------------------------------
+let minimap: Minimap | undefined;
+
+function setupMinimap(): void {
+  if (minimap) return;
+  minimap = new Minimap({ lat: vehicleState.lat, lng: vehicleState.lng });
+}
+
+gameEvents.on('SessionStarted', () => minimap?.clearTrace());
+gameEvents.on('VehicleUpdated', ({ lat, lng, heading }) => minimap?.updateCar({ lat, lng }, heading));
+// Same positions and road status the score was calculated from
+gameEvents.on('ScoreChanged', ({ lat, lng, isOnRoad }) => minimap?.addTracePoint({ lat, lng }, isOnRoad));
+
 // ----------------------------------------------------------------------
 // BACKEND COORDINATE SYNC SYSTEM 
 // ----------------------------------------------------------------------
 
 let lastBackendSync = 0;
-const BACKEND_SYNC_INTERVAL = 1000;
+let telemetrySync: TelemetrySync | undefined;
 
-async function sendCarCoordinatesToBackend(lat: number, lng: number, heading: number, speed: number): Promise<void> {
-  if (!isAuthenticated) return;
+function sendCarCoordinatesToBackend(lat: number, lng: number, heading: number, speed: number): void {
+  if (!isAuthenticated || !telemetrySync) return;
 
   const now = Date.now();
-  if (now - lastBackendSync < BACKEND_SYNC_INTERVAL) return;
+  if (now - lastBackendSync < CONFIG.BACKEND.SAMPLE_INTERVAL) return;
   lastBackendSync = now;
   
-  const carData = {
+  // Samples are queued and uploaded in batches by TelemetrySync
+  telemetrySync.record({
     timestamp: now,
     coordinates: { latitude: lat, longitude: lng },
     heading: heading,
     speed: speed,
-    playerId: userProfile?.sub || "anonymous" 
+  });
+}
+
+function startTelemetrySession(playerId: string): void {
+  if (!telemetrySync) {
+    telemetrySync = new TelemetrySync(getAccessToken);
+
+    // Push out queued samples before the page goes away
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') telemetrySync?.flush();
+    });
+  }
+  telemetrySync.startSession(playerId);
+}
+
+gameEvents.on('SessionStarted', ({ playerId }) => startTelemetrySession(playerId));
+// Not awaited: with the server unreachable the final flush retries for
+// seconds, restart and logout only wait for local work
+gameEvents.on('SessionEnded', () => { telemetrySync?.endSession(); });
+gameEvents.on('VehicleUpdated', ({ lat, lng, heading, speed }) => {
+  if (speed !== 0) sendCarCoordinatesToBackend(lat, lng, heading, speed);
+});
+
+// ----------------------------------------------------------------------
+// MULTIPLAYER PRESENCE
+// ----------------------------------------------------------------------
+let presenceClient: PresenceClient | undefined;
+let remoteCars: RemoteCars | undefined;
+
+function startPresence(playerId: string, nickname: string): void {
+  if (!remoteCars && threeJsOverlay) {
+    const overlay = threeJsOverlay;
+    remoteCars = new RemoteCars(overlay.scene, position => overlay.latLngAltitudeToVector3(position));
+  }
+  if (!presenceClient) {
+    presenceClient = new PresenceClient({
+      onPlayers: players => remoteCars?.applyUpdate(players),
+      onPlayerLeft: playerId => remoteCars?.remove(playerId),
+      onStatusChange: connected => {
+        if (!connected) remoteCars?.clear();
+      },
+    }, getAccessToken);
+  }
+  presenceClient.connect(playerId, nickname);
+}
+
+gameEvents.on('SessionStarted', ({ playerId, nickname }) => startPresence(playerId, nickname));
+gameEvents.on('SessionEnded', () => {
+  presenceClient?.disconnect();
+  remoteCars?.clear();
+});
+gameEvents.on('VehicleUpdated', ({ lat, lng, heading, speed, deltaTime }) => {
+  presenceClient?.sendState({ lat, lng, heading, speed });
+  remoteCars?.update(deltaTime);
+});
+
+// ----------------------------------------------------------------------
+// TRIP RECORDING, REPLAY AND GHOST CAR
+// ----------------------------------------------------------------------
+const GHOST_OPACITY = 0.35;
+const tripRecorder = new TripRecorder();
+const tripStore = new TripStore();
+let tripControls: TripControls | undefined;
+let replayPlayer: TripPlayer | null = null;
+let ghostPlayer: TripPlayer | null = null;
+let ghostCar: Car | undefined;
+let ghostEnabled = false;
+
+function currentPlayerId(): string {
+  return userProfile?.sub || "anonymous";
+}
+
+function setupTripSystem(): void {
+  if (tripControls) return;
+
+  tripControls = new TripControls({
+    onReplay: () => (replayPlayer ? stopReplay() : startReplay()),
+    onToggleGhost: toggleGhost,
+    onExport: exportLastTrip,
+  });
+}
+
+// Save the trip being recorded and start a fresh one
+async function startNewTrip(): Promise<void> {
+  await finishTrip();
+  tripRecorder.start(currentPlayerId());
+  await loadGhost();
+}
+
+async function finishTrip(): Promise<void> {
+  const trip = tripRecorder.stop();
+  if (!trip) return;
+
+  if (await tripStore.saveTrip(trip)) {
+    gameBoyDialog.showNotification(`NEW BEST TRIP! ${trip.finalPoints} POINTS`, 3000);
+  }
+}
+
+function recordTripFrame(frame: GameEventMap['VehicleUpdated']): void {
+  tripRecorder.record({
+    lat: frame.lat,
+    lng: frame.lng,
+    heading: frame.heading,
+    speed: frame.speed,
+    throttle: frame.input.throttle,
+    brake: frame.input.brake,
+    steering: frame.input.steering,
+    isOnRoad: frame.isOnRoad,
+    points: pointSystem ? pointSystem.getPoints() : 0,
+  }, frame.deltaTime);
+}
+
+async function startReplay(): Promise<void> {
+  // The drive so far becomes the last trip, then it is played back
+  await finishTrip();
+  const trip = await tripStore.getLastTrip(currentPlayerId());
+  if (!trip) {
+    gameBoyDialog.showNotification("NO TRIP TO REPLAY YET!", 2000);
+    tripRecorder.start(currentPlayerId());
+    return;
+  }
+
+  replayPlayer = new TripPlayer(trip);
+  replayPlayer.start();
+  if (ghostCar) ghostCar.visible = false;
+  tripControls?.setReplaying(true);
+  gameBoyDialog.showNotification("REPLAY", 2000);
+}
+
+function stopReplay(): void {
+  replayPlayer = null;
+  tripControls?.setReplaying(false);
+  // Physics state was left untouched, so driving continues where it stopped
+  startNewTrip();
+}
+
+// Drive the player's car from the replay instead of physics
+function updateReplay(timeSeconds: number): void {
+  if (!replayPlayer) return;
+  replayPlayer.advance(timeSeconds);
+
+  if (replayPlayer.isFinished()) {
+    gameBoyDialog.showNotification("REPLAY FINISHED", 2000);
+    stopReplay();
+    return;
+  }
+
+  const frame = replayPlayer.sample();
+  vehicleState = {
+    ...vehicleState,
+    lat: frame.lat,
+    lng: frame.lng,
+    heading: frame.heading,
+    speed: frame.speed,
+    steeringAngle: frame.steering * vehiclePreset.maxSteeringAngle,
+  };
+  lastOnRoad = frame.isOnRoad;
+}
+
+async function loadGhost(): Promise<void> {
+  ghostPlayer = null;
+  if (!ghostEnabled) return;
+
+  const best = await tripStore.getBestTrip(currentPlayerId());
+  if (best) ghostPlayer = new TripPlayer(best);
+}
+
+async function toggleGhost(): Promise<void> {
+  ghostEnabled = !ghostEnabled;
+  tripControls?.setGhostEnabled(ghostEnabled);
+  await loadGhost();
+
+  if (ghostEnabled && !ghostPlayer) {
+    gameBoyDialog.showNotification("NO BEST TRIP TO RACE YET!", 2000);
+  }
+  if (!ghostEnabled && ghostCar) ghostCar.visible = false;
+}
+
+// Place the ghost where the best trip was at the same driving time (pauses
+// and questions excluded) into the drive
+function updateGhost(): void {
+  if (!threeJsOverlay || !ghostPlayer || replayPlayer) return;
+
+  if (!ghostCar) {
+    ghostCar = new Car();
+    ghostCar.setOpacity(GHOST_OPACITY);
+    threeJsOverlay.scene.add(ghostCar);
+  }
+
+  const elapsed = tripRecorder.getElapsed();
+  if (ghostPlayer.isFinished(elapsed)) {
+    ghostCar.visible = false;
+    return;
+  }
+
+  const ghost = ghostPlayer.sample(elapsed);
+  ghostCar.visible = true;
+  ghostCar.position.copy(threeJsOverlay.latLngAltitudeToVector3({ lat: ghost.lat, lng: ghost.lng, altitude: 1 }));
+  ghostCar.updateHeading(ghost.heading);
+}
+
+gameEvents.on('SessionStarted', startNewTrip);
+gameEvents.on('SessionEnded', finishTrip);
+gameEvents.on('VehicleUpdated', frame => {
+  // Recording first moves the trip clock on to this frame
+  recordTripFrame(frame);
+  updateGhost();
+});
+
+async function exportLastTrip(format: 'json' | 'gpx'): Promise<void> {
+  // Export what has been driven so far and keep recording afterwards
+  await startNewTrip();
+  const trip: Trip | undefined = await tripStore.getLastTrip(currentPlayerId());
+  if (trip) {
+    downloadTrip(trip, format);
+  } else {
+    gameBoyDialog.showNotification("NO TRIP TO EXPORT YET!", 2000);
+  }
+}
+
+// ----------------------------------------------------------------------
+// PLAYER PROFILES, SCORE HISTORY AND LEADERBOARD
+// ----------------------------------------------------------------------
+const playerStore: PlayerStore = CONFIG.PLAYERS.STORAGE === 'rest'
+  ? new RestPlayerStore(getAccessToken)
+  : new LocalPlayerStore();
+let leaderboardScreen: LeaderboardScreen | undefined;
+let playerSession: {
+  sessionId: string;
+  playerId: string;
+  nickname: string;
+  startedAt: number;
+  questionsAnswered: number;
+  questionsCorrect: number;
+} | null = null;
+let lastSessionSave = 0;
+
+function setupPlayerSystem(): void {
+  if (leaderboardScreen) return;
+
+  leaderboardScreen = new LeaderboardScreen(playerStore, CONFIG.PLAYERS.LEADERBOARD_SIZE);
+  if (leaderboardButton) {
+    leaderboardButton.addEventListener('click', () => leaderboardScreen?.show(currentPlayerId()));
+  }
+
+  // Keep the result of a session that ends by closing the tab
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') saveSessionResult();
+  });
+}
+
+// Create or refresh the player's profile and start counting a new session
+async function startPlayerSession(playerId: string, nickname: string): Promise<void> {
+  const now = Date.now();
+
+  playerSession = { sessionId: createSessionId(), playerId, nickname, startedAt: now, questionsAnswered: 0, questionsCorrect: 0 };
+  lastSessionSave = now;
+
+  try {
+    const profile = await playerStore.getProfile(playerId);
+    await playerStore.saveProfile({ playerId, nickname, createdAt: profile?.createdAt ?? now, lastSeenAt: now });
+  } catch (error) {
+    console.warn('Could not save player profile:', error);
+  }
+}
+
+function buildSessionResult(): SessionResult | null {
+  if (!playerSession || !pointSystem) return null;
+
+  const now = Date.now();
+  return {
+    sessionId: playerSession.sessionId,
+    playerId: playerSession.playerId,
+    nickname: playerSession.nickname,
+    score: pointSystem.getPoints(),
+    distance: pointSystem.getDistanceOnRoad(),
+    questionsAnswered: playerSession.questionsAnswered,
+    questionsCorrect: playerSession.questionsCorrect,
+    duration: (now - playerSession.startedAt) / 1000,
+    endedAt: now,
   };
+}
 
+async function saveSessionResult(): Promise<void> {
+  const result = buildSessionResult();
+  // Sessions where nothing happened stay off the leaderboard
+  if (!result || (result.score === 0 && result.distance < 1 && result.questionsAnswered === 0)) return;
+
+  lastSessionSave = Date.now();
   try {
-    await dummyBackendSync(carData);
+    await playerStore.saveSession(result);
   } catch (error) {
-    console.error("Backend sync failed:", error);
+    console.warn('Could not save session result:', error);
+  }
+}
+
+// Save the running session now and then so a crash loses little
+function updatePlayerSession(): void {
+  if (playerSession && Date.now() - lastSessionSave >= CONFIG.PLAYERS.SAVE_INTERVAL) {
+    saveSessionResult();
+    achievementEngine.save();
+  }
+}
+
+function recordQuestionResult(isCorrect: boolean): void {
+  if (!playerSession) return;
+  playerSession.questionsAnswered++;
+  if (isCorrect) playerSession.questionsCorrect++;
+}
+
+async function endPlayerSession(): Promise<void> {
+  await saveSessionResult();
+  playerSession = null;
+}
+
+gameEvents.on('SessionStarted', ({ playerId, nickname }) => startPlayerSession(playerId, nickname));
+gameEvents.on('SessionEnded', endPlayerSession);
+gameEvents.on('VehicleUpdated', updatePlayerSession);
+gameEvents.on('QuestionAnswered', ({ correct }) => recordQuestionResult(correct));
+
+// ----------------------------------------------------------------------
+// ACHIEVEMENTS
+// ----------------------------------------------------------------------
+const achievementEngine = new AchievementEngine(new AchievementStore());
+let achievementsLoaded: Promise<void> | null = null;
+let trophyCase: TrophyCase | undefined;
+let lastDistanceOnRoad = 0;
+
+function setupAchievementSystem(): void {
+  if (!achievementsLoaded) {
+    achievementsLoaded = loadAchievementConfig(CONFIG.ACHIEVEMENTS.URL)
+      .then(config => achievementEngine.setAchievements(config.achievements))
+      .catch(error => console.error('Could not load achievements:', error));
   }
+  if (trophyCase) return;
+
+  trophyCase = new TrophyCase(achievementEngine);
+  if (trophiesButton) {
+    trophiesButton.addEventListener('click', async () => {
+      await achievementsLoaded;
+      trophyCase?.show();
+    });
+  }
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') achievementEngine.save();
+  });
+}
+
+// Feed a game event to the achievement rules and announce new unlocks
+function trackAchievements(event: AchievementEvent): void {
+  achievementEngine.handle(event).forEach(achievement => {
+    gameEvents.emit('AchievementUnlocked', { id: achievement.id, name: achievement.name });
+    gameEvents.emit('NotificationRequested', { message: `ACHIEVEMENT UNLOCKED: ${achievement.name}!`, duration: 4000 });
+  });
 }
 
-async function dummyBackendSync(carData: any): Promise<void> {
-  console.log("DUMMY BACKEND SYNC:", {
-    playerId: carData.playerId,
-    lat: carData.coordinates.latitude.toFixed(6),
-    lng: carData.coordinates.longitude.toFixed(6),
-    speed: carData.speed.toFixed(2),
+// Called after every scoring update with the on-road distance driven since the last one
+function trackDrivingAchievements(score: GameEventMap['ScoreChanged']): void {
+  // The distance drops back to 0 when the points are reset
+  const driven = Math.max(0, score.distanceOnRoad - lastDistanceOnRoad);
+  lastDistanceOnRoad = score.distanceOnRoad;
+
+  trackAchievements({
+    type: 'drive',
+    distanceOnRoad: driven,
+    offRoad: !score.isOnRoad && score.speed !== 0,
+    points: score.points,
   });
-  await new Promise(resolve => setTimeout(resolve, 50));
+}
+
+gameEvents.on('SessionStarted', ({ playerId }) => {
+  achievementEngine.loadPlayer(playerId);
+  lastDistanceOnRoad = pointSystem ? pointSystem.getDistanceOnRoad() : 0;
+});
+gameEvents.on('SessionEnded', () => achievementEngine.save());
+gameEvents.on('ScoreChanged', trackDrivingAchievements);
+gameEvents.on('QuestionAnswered', ({ correct }) => trackAchievements({ type: 'question', correct }));
+gameEvents.on('MissionFinished', ({ completed, underPar }) => trackAchievements({ type: 'mission', completed, underPar }));
+
+// ----------------------------------------------------------------------
+// MISSIONS
+// ----------------------------------------------------------------------
+let missions: Mission[] = [];
+let missionsLoaded: Promise<void> | null = null;
+let missionHud: MissionHud | undefined;
+let missionRunner: MissionRunner | null = null;
+let checkpointMarker: CheckpointMarker | undefined;
+
+function setupMissionSystem(): void {
+  if (missionHud) return;
+
+  missionHud = new MissionHud(startMission);
+  if (missionsButton) {
+    missionsButton.addEventListener('click', async () => {
+      await loadMissionList();
+      missionHud?.showMenu(missions);
+    });
+  }
+}
+
+function loadMissionList(): Promise<void> {
+  if (!missionsLoaded) {
+    missionsLoaded = loadMissions(CONFIG.MISSIONS.URLS).then(loaded => {
+      missions = loaded;
+    });
+  }
+  return missionsLoaded;
+}
+
+async function startMission(mission: Mission): Promise<void> {
+  if (replayPlayer) stopReplay();
+  // Paused without the menu while the briefing is shown
+  pauseMenu?.hide();
+  if (!gameState.transition('Paused')) return;
+
+  // Put the car on the start line, standing still
+  vehiclePhysics.reset({
+    lat: mission.start.lat,
+    lng: mission.start.lng,
+    heading: mission.start.heading,
+    speed: 0,
+    steeringAngle: 0,
+    gear: 'drive',
+  });
+  vehicleState = { ...vehicleState, ...vehiclePhysics.getState() };
+  pointSystem?.resetPosition();
+
+  await gameBoyDialog.showAlert(mission.name, mission.description || `Reach all ${mission.checkpoints.length} checkpoints in time!`);
+  missionRunner = new MissionRunner(mission);
+
+  if (gameState.is('Paused')) gameState.transition('Playing');
+}
+
+function endMission(): void {
+  missionRunner = null;
+  minimap?.setCheckpoints(null);
+  missionHud?.hide();
+  if (checkpointMarker) checkpointMarker.visible = false;
+}
+
+async function handleMissionEvent(event: MissionEvent): Promise<void> {
+  switch (event.type) {
+    case 'checkpoint':
+      gameEvents.emit('PointsAwarded', { amount: event.points, reason: 'checkpoint' });
+      gameEvents.emit('NotificationRequested', { message: `CHECKPOINT ${event.index + 1}! +${event.points}`, duration: 2000 });
+      break;
+    case 'completed': {
+      const mission = missionRunner?.getMission();
+      gameEvents.emit('PointsAwarded', { amount: event.points, reason: 'mission' });
+      gameEvents.emit('MissionFinished', { missionId: mission?.id || '', completed: true, underPar: event.underPar, points: event.points });
+      endMission();
+      gameState.transition('MissionComplete');
+      await gameBoyDialog.showAlert(
+        "MISSION COMPLETE!",
+        `${mission?.name || ''} finished in ${Math.round(event.elapsed)}s. +${event.points} points${event.underPar ? ' (under par!)' : ''}`
+      );
+      if (gameState.is('MissionComplete')) gameState.transition('Playing');
+      break;
+    }
+    case 'failed':
+      gameEvents.emit('MissionFinished', { missionId: missionRunner?.getMission().id || '', completed: false, underPar: false, points: 0 });
+      endMission();
+      gameState.transition('GameOver');
+      await gameBoyDialog.showAlert("MISSION FAILED", event.reason);
+      if (gameState.is('GameOver')) gameState.transition('Playing');
+      break;
+  }
+}
+
+gameEvents.on('VehicleUpdated', ({ deltaTime }) => updateMission(deltaTime));
+
+// Advance the mission and place the checkpoint marker and HUD arrow
+function updateMission(timeSeconds: number): void {
+  if (!missionRunner) return;
+
+  const position = { lat: vehicleState.lat, lng: vehicleState.lng };
+  const event = missionRunner.update(position, timeSeconds);
+  if (event) handleMissionEvent(event);
+  if (!missionRunner || missionRunner.isFinished()) return;
+
+  const checkpoint = missionRunner.getCurrentCheckpoint();
+  const direction = missionRunner.getDirectionToCheckpoint(position);
+  if (!checkpoint || !direction) return;
+
+  minimap?.setCheckpoints(missionRunner.getMission().checkpoints, missionRunner.getCheckpointIndex());
+
+  if (threeJsOverlay) {
+    if (!checkpointMarker) {
+      checkpointMarker = new CheckpointMarker();
+      threeJsOverlay.scene.add(checkpointMarker);
+    }
+    checkpointMarker.visible = true;
+    checkpointMarker.setRadius(checkpoint.radius);
+    checkpointMarker.position.copy(threeJsOverlay.latLngAltitudeToVector3({ lat: checkpoint.lat, lng: checkpoint.lng, altitude: 0 }));
+    checkpointMarker.animate(timeSeconds);
+  }
+
+  // Screen up is the camera heading, which only follows the car in some modes
+  missionHud?.update(
+    direction.bearing - cameraRig.getHeading(),
+    direction.distance,
+    missionRunner.getCheckpointIndex() + 1,
+    missionRunner.getMission().checkpoints.length,
+    missionRunner.getRemainingTime()
+  );
 }
 
 // ----------------------------------------------------------------------
 // QUESTION SYSTEM
 // ----------------------------------------------------------------------
-const QUESTION_INTERVAL = 15000; 
 const FEEDBACK_DELAY = 2000;     
+const EXPLANATION_DELAY = 3000;
 let questionOverlay: HTMLElement;
 let questionText: HTMLElement;
 let answerButtonsContainer: HTMLElement;
 let feedbackText: HTMLElement;
-const QUESTIONS = [
-  {
-    question: "What is the speed limit in a typical US residential area unless otherwise posted?",
-    answers: [
-      { text: "25 mph", correct: true },
-      { text: "35 mph", correct: false },
-      { text: "15 mph", correct: false },
-      { text: "45 mph", correct: false },
-    ],
-  },
-  {
-    question: "A flashing red traffic light at an intersection means:",
-    answers: [
-      { text: "Stop and proceed when safe.", correct: true },
-      { text: "Slow down and proceed with caution.", correct: false },
-      { text: "Speed up to clear the intersection.", correct: false },
-      { text: "The traffic light is broken.", correct: false },
-    ],
-  },
-  {
-    question: "What does a solid yellow line on your side of the road mean?",
-    answers: [
-      { text: "Do not pass.", correct: true },
-      { text: "Passing is allowed.", correct: false },
-      { text: "Upcoming merge.", correct: false },
-      { text: "School zone ahead.", correct: false },
-    ],
-  },
-];
+const questionScheduler = new QuestionScheduler(CONFIG.QUESTIONS.WRONG_ANSWER_WEIGHT);
+let questionPacksLoaded: Promise<void> | null = null;
+let questionImage: HTMLImageElement;
+let questionTitle: HTMLElement | null;
+let triggerConfigLoaded: Promise<void> | null = null;
+const questionTriggers = new QuestionTriggerEngine(
+  (lat, lng, radius) => roadProvider?.findIntersections?.(lat, lng, radius) || [],
+  settingsStore.get().questionGap * 1000
+);
+
+// Load the trigger rules once; without them fall back to a plain timer
+function loadQuestionTriggers(): Promise<void> {
+  if (!triggerConfigLoaded) {
+    triggerConfigLoaded = loadTriggerConfig(CONFIG.QUESTIONS.TRIGGERS_URL)
+      .then(config => questionTriggers.setConfig(config))
+      .catch(error => {
+        console.error('Could not load question triggers, using a timer instead:', error);
+        questionTriggers.setConfig({
+          version: 1,
+          geofences: [],
+          rules: [{ id: 'idle', event: 'idle', categories: [], after: CONFIG.QUESTIONS.MIN_GAP }],
+        });
+      });
+  }
+  return triggerConfigLoaded;
+}
 
-let currentQuestionIndex = -1;
-let isGamePaused = false;
+// Load the configured packs once, keeping questions for the player's locale
+function loadQuestions(): Promise<void> {
+  if (!questionPacksLoaded) {
+    questionPacksLoaded = loadQuestionPacks(CONFIG.QUESTIONS.PACKS).then(packs => {
+      const questions = packs.flatMap(pack => pack.questions);
+      const localized = questions.filter(question => localeMatches(question.locale, CONFIG.QUESTIONS.LOCALE));
+      questionScheduler.setQuestions(localized.length > 0 ? localized : questions);
+
+      if (!questionScheduler.hasQuestions()) {
+        console.warn('No question packs could be loaded, questions are disabled');
+      }
+    });
+  }
+  return questionPacksLoaded;
+}
 
 function setupQuestionSystem() {
+    if (questionOverlay) return;
+
     // Note: We assume the DOM elements for questions are set up in index.html
     questionOverlay = document.getElementById('question-overlay')!;
     questionText = document.getElementById('question-text')!;
     answerButtonsContainer = document.getElementById('answer-buttons')!;
     feedbackText = document.getElementById('feedback-text')!;
+    questionImage = document.getElementById('question-image') as HTMLImageElement;
+    questionTitle = document.getElementById('question-title');
 
     gameBoyDialog.addScanLineEffect();
-    setTimeout(askQuestion, QUESTION_INTERVAL);
+    loadQuestions();
+    // Questions are asked from driving events, see checkQuestionTriggers
+    loadQuestionTriggers();
     // Removed the old 'CONTROLS' alert since we added a permanent UI element
 }
 
-function askQuestion() {
-    isGamePaused = true;
-    currentQuestionIndex = (currentQuestionIndex + 1) % QUESTIONS.length;
-    const question = QUESTIONS[currentQuestionIndex];
+// Ask a question when a driving event rule fires
+function checkQuestionTriggers(frame: GameEventMap['VehicleUpdated']) {
+    if (!questionScheduler.hasQuestions()) return;
+
+    const trigger = questionTriggers.update({
+        timestamp: frame.timestamp,
+        lat: frame.lat,
+        lng: frame.lng,
+        heading: frame.heading,
+        speed: frame.speed,
+        isOnRoad: frame.isOnRoad,
+    });
+    if (trigger) askQuestion(trigger);
+}
 
+gameEvents.on('VehicleUpdated', checkQuestionTriggers);
+gameEvents.on('QuestionAnswered', ({ question, correct }) => {
+    questionScheduler.recordAnswer(question, correct);
+    if (correct) gameEvents.emit('PointsAwarded', { amount: CONFIG.POINTS.CORRECT_ANSWER_POINTS, reason: 'question' });
+});
+
+function askQuestion(trigger: TriggerFired) {
+    // Only draw a question that will be shown, e.g. not while paused
+    if (!gameState.canTransition('Question')) return;
+    const question = questionScheduler.next(trigger.categories);
+    if (!question || !gameState.transition('Question')) return;
+
+    if (questionTitle) questionTitle.textContent = trigger.reason;
     questionText.textContent = question.question;
     feedbackText.textContent = '';
     answerButtonsContainer.innerHTML = '';
 
-    question.answers.forEach(answer => {
+    if (questionImage) {
+        if (question.image) {
+            questionImage.src = question.image;
+            questionImage.style.display = 'block';
+        } else {
+            questionImage.removeAttribute('src');
+            questionImage.style.display = 'none';
+        }
+    }
+
+    // Each button carries its own answer, so the correct one is followed through the shuffle
+    shuffleAnswers(question.answers).forEach(answer => {
         const button = document.createElement('button');
         button.textContent = answer.text;
         button.classList.add('answer-btn');
-        button.addEventListener('click', () => selectAnswer(answer.correct));
+        button.addEventListener('click', () => selectAnswer(question, answer.correct));
         answerButtonsContainer.appendChild(button);
     });
 
     questionOverlay.style.display = 'flex';
+    gameEvents.emit('QuestionAsked', { question, reason: trigger.reason });
     
     // Dim the point system and warning when question is active
     const pointsDisplay = document.getElementById('points-display');
@@ -226,25 +1025,31 @@ function askQuestion() {
     }
 }
 
-function selectAnswer(isCorrect: boolean) {
+function selectAnswer(question: Question, isCorrect: boolean) {
     const buttons = answerButtonsContainer.querySelectorAll('button');
     buttons.forEach(button => button.disabled = true);
+    // Scheduling, points, stats and achievements all subscribe to this
+    gameEvents.emit('QuestionAnswered', { question, correct: isCorrect });
 
     if (isCorrect) {
         feedbackText.textContent = 'CORRECT!';
         feedbackText.className = 'correct';
-        gameBoyDialog.showNotification("CORRECT! +10 POINTS", 2000);
-        // Assuming pointSystem.addPoints exists in PointSystem.ts
-        if (pointSystem && 'addPoints' in pointSystem) {
-             (pointSystem as any).addPoints(100); 
-        }
+        gameEvents.emit('NotificationRequested', { message: `CORRECT! +${CONFIG.POINTS.CORRECT_ANSWER_POINTS} POINTS`, duration: 2000 });
     } else {
         feedbackText.textContent = 'INCORRECT.';
         feedbackText.className = 'incorrect';
-        gameBoyDialog.showNotification("WRONG ANSWER! TRY AGAIN", 2000);
+        gameEvents.emit('NotificationRequested', { message: "WRONG ANSWER! TRY AGAIN", duration: 2000 });
     }
 
-    setTimeout(hideQuestion, FEEDBACK_DELAY);
+    // Give the player time to read the explanation when there is one
+    let delay = FEEDBACK_DELAY;
+    if (question.explanation) {
+        feedbackText.textContent += ` ${question.explanation}`;
+        delay += EXPLANATION_DELAY;
+    }
+
+    // Cancelled if the player logs out in the meantime
+    gameState.setTimer(hideQuestion, delay);
 }
 
 function hideQuestion() {
@@ -260,11 +1065,9 @@ function hideQuestion() {
         warningElement.classList.remove('dimmed');
     }
     
-    isGamePaused = false;
-    // Call tick to ensure the game loop restarts
-    requestAnimationFrame(tick);
-
-    setTimeout(askQuestion, QUESTION_INTERVAL);
+    // The minimum gap to the next question starts once this one is closed
+    questionTriggers.notifyQuestionAsked(performance.now());
+    gameState.transition('Playing');
 }
 // ----------------------------------------------------------------------
 
@@ -272,105 +1075,99 @@ function hideQuestion() {
 // ----------------------------------------------------------------------
 // GAME LOOP (TICK FUNCTION)
 // ----------------------------------------------------------------------
-function tick() {
-  // If game is paused by a question, exit the frame loop
-  if (isGamePaused) return;
-
-  const timeSeconds = TIME_STEP / 1000;
+// Called by gameState once per frame while Playing. timeSeconds is the real
+// time since the previous frame (0 on the first frame after a pause).
+function tick(timeSeconds: number, timestamp: number) {
+  if (replayPlayer) {
+    // Replays only move the camera and model, nothing is scored or recorded
+    updateReplay(timeSeconds);
+    updateCameraAndModel(timeSeconds);
+  } else {
+    updateVehicle(timeSeconds);
+    updateCameraAndModel(timeSeconds);
+    updateSpeedLimit();
+    updateScoring(timeSeconds);
+    // Trips, missions, questions, telemetry etc. subscribe to this
+    gameEvents.emit('VehicleUpdated', {
+      lat: vehicleState.lat,
+      lng: vehicleState.lng,
+      heading: vehicleState.heading,
+      speed: vehicleState.speed,
+      input: lastInput,
+      isOnRoad: lastOnRoad,
+      deltaTime: timeSeconds,
+      timestamp,
+    });
+  }
+}
 
-  // 1. UPDATE VEHICLE STATE (Physics) 
-  let userAcceleration = 0;
-  
-  // Check for movement input
-  const isMovingKey = (keysPressed["arrowup"] || keysPressed["w"] || keysPressed["arrowdown"] || keysPressed["s"]);
+// 1. UPDATE VEHICLE STATE (Physics) 
+function updateVehicle(timeSeconds: number) {
+  const input = readVehicleInput();
 
-  if (isMovingKey) {
-      userAcceleration = ACCELERATION_RATE;
-  }
-  
   // NEW: Check for input and hide controls
-  if (controlsShown && isMovingKey) {
+  if (controlsShown && (input.throttle > 0 || input.brake > 0)) {
     if (controlMessageElement) {
       controlMessageElement.style.display = 'none';
     }
     controlsShown = false; // Never show it again
   }
-  
-  // Physics logic (continues regardless of control message)
-  if (keysPressed["arrowdown"] || keysPressed["s"]) userAcceleration = -DECELERATION_RATE; 
 
-  let friction = 0;
-  if (userAcceleration === 0 && Math.abs(vehicleState.speed) > 0.01) {
-    friction = -Math.sign(vehicleState.speed) * COASTING_RATE;
-  }
-  
-  vehicleState.speed += (userAcceleration + friction) * timeSeconds;
-  
-  if (Math.abs(vehicleState.speed) < 0.1 && userAcceleration === 0) vehicleState.speed = 0;
-  vehicleState.speed = Math.min(Math.max(vehicleState.speed, 0), MAX_SPEED);
-
-  if (Math.abs(vehicleState.speed) > 0.1) {
-    const turningEffect = TURN_RATE * timeSeconds;
-    if (keysPressed["arrowleft"] || keysPressed["a"]) vehicleState.heading -= turningEffect;
-    if (keysPressed["arrowright"] || keysPressed["d"]) vehicleState.heading += turningEffect;
-    vehicleState.heading %= 360;
-  }
-
-  const distance = vehicleState.speed * timeSeconds;
-  const headingRad = degToRad(vehicleState.heading);
-  const dLat = distance * Math.cos(headingRad) * METERS_TO_LAT;
-  vehicleState.lat += dLat;
-  const dLng = (distance * Math.sin(headingRad) * METERS_TO_LAT) / Math.cos(degToRad(vehicleState.lat));
-  vehicleState.lng += dLng;
-
-  // 2. UPDATE CAMERA & 3D MODEL
-  map.moveCamera({
-    tilt: vehicleState.tilt,
-    heading: vehicleState.heading,
-    zoom: vehicleState.zoom,
-    center: { lat: vehicleState.lat, lng: vehicleState.lng },
-  });
+  lastInput = input;
+  vehiclePhysics.advance(timeSeconds, input);
+  vehicleState = { ...vehicleState, ...vehiclePhysics.getInterpolatedState() };
+}
+
+// 2. UPDATE CAMERA & 3D MODEL
+function updateCameraAndModel(timeSeconds: number) {
+  map.moveCamera(cameraRig.update(vehicleState, timeSeconds));
 
   if (threeJsOverlay) {
     threeJsOverlay.setAnchor({ lat: vehicleState.lat, lng: vehicleState.lng, altitude: 1 });
     carPlaceholder.updateHeading(vehicleState.heading);
     carPlaceholder.updateWheelRotation(vehicleState.speed);
+    carPlaceholder.updateSteering(vehicleState.steeringAngle);
     carPlaceholder.animateWheels(timeSeconds);
   }
+}
 
-  // 3. POINT SYSTEM UPDATE 
-  if (colorDetector && pointSystem) {
-    colorDetector.isOnRoad(vehicleState.lat, vehicleState.lng).then(isOnRoad => {
-      pointSystem.update(
-        { lat: vehicleState.lat, lng: vehicleState.lng }, 
-        isOnRoad, 
-        vehicleState.speed, 
-        timeSeconds
-      );
-      if (colorDetector.isInFallbackMode()) {
-        pointSystem.updateApiStatus('Fallback Mode', '#FF6B6B');
-      } else {
-        pointSystem.updateApiStatus('Real Roads API', '#4CAF50');
-      }
-    }).catch(error => {
-      console.warn('Road detection failed:', error);
-      pointSystem.updateApiStatus('API Error', '#FF6B6B');
-      pointSystem.update(
-        { lat: vehicleState.lat, lng: vehicleState.lng }, 
-        false, 
-        vehicleState.speed, 
-        timeSeconds
-      );
-    });
-  }
+// 3. POINT SYSTEM UPDATE 
+function updateScoring(timeSeconds: number) {
+  if (!colorDetector || !pointSystem) return;
 
-  // 4. BACKEND COORDINATE SYNC 
-  if (vehicleState.speed > 0) {
-    sendCarCoordinatesToBackend(vehicleState.lat, vehicleState.lng, vehicleState.heading, vehicleState.speed);
-  }
-  
-  // Request next frame
-  requestAnimationFrame(tick);
+  // Answered from road data already fetched, so frames are scored in order
+  const isOnRoad = colorDetector.isOnRoadNow(vehicleState.lat, vehicleState.lng, vehicleState.heading, vehicleState.speed);
+  if (isOnRoad === null) return; // No road data yet
+
+  lastOnRoad = isOnRoad;
+  const lane = isOnRoad
+    ? colorDetector.getLanePosition(vehicleState.lat, vehicleState.lng, vehicleState.heading, vehicleState.speed)
+    : null;
+  pointSystem.update(
+    { lat: vehicleState.lat, lng: vehicleState.lng }, 
+    isOnRoad, 
+    vehicleState.speed, 
+    timeSeconds,
+    lane
+  );
+  // Shows the cause while road lookups fail, e.g. "Fallback: Key rejected"
+  pointSystem.updateApiStatus(colorDetector.getStatus(), colorDetector.isInFallbackMode() ? '#FF6B6B' : '#4CAF50');
+}
+
+// Look up the posted limit of the current road every few seconds
+let lastSpeedLimitCheck = 0;
+function updateSpeedLimit() {
+  if (!pointSystem || !roadProvider?.getSpeedLimit) return;
+
+  const now = Date.now();
+  if (vehicleState.speed === 0 || now - lastSpeedLimitCheck < CONFIG.SPEED_LIMITS.REFRESH_INTERVAL) return;
+  lastSpeedLimitCheck = now;
+
+  roadProvider.getSpeedLimit(vehicleState.lat, vehicleState.lng).then(limit => {
+    pointSystem.setSpeedLimit(limit ?? CONFIG.SPEED_LIMITS.DEFAULT_MPH * MPH_TO_MPS);
+  }).catch(error => {
+    console.warn('Speed limit lookup failed:', error);
+  });
 }
 
 // ----------------------------------------------------------------------
@@ -386,6 +1183,12 @@ async function updateAuthStatus(): Promise<void> {
     userStatusElement!.textContent = `Status: Logged in as ${userProfile?.nickname || 'User'}`;
     loginButton!.style.display = 'none';
     logoutButton!.style.display = 'block';
+    if (missionsButton) missionsButton.style.display = 'block';
+    if (leaderboardButton) leaderboardButton.style.display = 'block';
+    if (trophiesButton) trophiesButton.style.display = 'block';
+    if (controlsButton) controlsButton.style.display = 'block';
+    if (settingsButton) settingsButton.style.display = 'block';
+    if (soundButton) soundButton.style.display = 'block';
     
     // HIDE: Hide the welcome message when logged in
     if (welcomeMessageElement) {
@@ -400,6 +1203,12 @@ async function updateAuthStatus(): Promise<void> {
     userStatusElement!.textContent = "Status: Logged out";
     loginButton!.style.display = 'block';
     logoutButton!.style.display = 'none';
+    if (missionsButton) missionsButton.style.display = 'none';
+    if (leaderboardButton) leaderboardButton.style.display = 'none';
+    if (trophiesButton) trophiesButton.style.display = 'none';
+    if (controlsButton) controlsButton.style.display = 'none';
+    if (settingsButton) settingsButton.style.display = 'none';
+    if (soundButton) soundButton.style.display = 'none';
     
     // SHOW: Ensure the welcome message is visible when logged out
     if (welcomeMessageElement) {
@@ -407,6 +1216,7 @@ async function updateAuthStatus(): Promise<void> {
     }
     
     // If logged out, only show the map shell
+    gameState.transition('LoggedOut');
     initMapShell();
     
     // Only show login prompt when we confirm the user is logged out
@@ -417,7 +1227,14 @@ async function updateAuthStatus(): Promise<void> {
 function setupAuthEventListeners(): void {
     // Attach imported functions to DOM buttons
     if (loginButton) loginButton.addEventListener('click', login);
-    if (logoutButton) logoutButton.addEventListener('click', logout);
+    if (logoutButton) logoutButton.addEventListener('click', endSessionAndLogout);
+}
+
+async function endSessionAndLogout(): Promise<void> {
+    gameState.transition('LoggedOut');
+    // Save and upload the rest of the session before leaving the page
+    await gameEvents.emit('SessionEnded', { playerId: currentPlayerId(), timestamp: Date.now() });
+    await logout();
 }
 
 // ----------------------------------------------------------------------
@@ -450,6 +1267,35 @@ function initMapShell(): void {
 }
 
 
+// ----------------------------------------------------------------------
+// ROAD PROVIDER SELECTION
+// ----------------------------------------------------------------------
+function createRoadProvider(hasApiKey: boolean): RoadProvider {
+  // Local road network for offline development, no Roads API quota used
+  if (CONFIG.ROADS_API.PROVIDER === 'geojson') {
+    return new GeoJsonRoadProvider(CONFIG.ROADS_API.GEOJSON_URL);
+  }
+  // Gray pixels of a road tile layer, works without an API key
+  if (CONFIG.ROADS_API.PROVIDER === 'tiles') {
+    console.warn('Map tiles have no road graph, intersection questions are disabled');
+    return new TileRoadProvider(CONFIG.ROADS_API.TILES.URL);
+  }
+  return new RealRoadDetector(map, hasApiKey ? CONFIG.GOOGLE_MAPS_API_KEY : 'fallback');
+}
+
+// Brief retries show in the HUD, only a lasting outage gets a notification
+let roadDataLost = false;
+gameEvents.on('RoadDetectionChanged', ({ state }) => {
+  if (state === 'down' && !roadDataLost) {
+    roadDataLost = true;
+    gameEvents.emit('NotificationRequested', { message: 'ROAD DATA LOST! NO OFF-ROAD PENALTIES', duration: 3000 });
+  } else if (state === 'healthy' && roadDataLost) {
+    roadDataLost = false;
+    gameEvents.emit('NotificationRequested', { message: 'ROAD DATA IS BACK', duration: 2000 });
+  }
+});
+
+
 // ----------------------------------------------------------------------
 // initGameSystems - Starts all game features only after login
 // ----------------------------------------------------------------------
@@ -462,13 +1308,13 @@ function initGameSystems(): void {
     }
     
     // Initialize required components
-    if (validateApiKey()) {
-      colorDetector = new ColorDetector(map, CONFIG.GOOGLE_MAPS_API_KEY);
-      pointSystem = new PointSystem();
-      pointSystem.updateApiStatus('✅ Real Roads API', '#4CAF50');
+    const hasApiKey = validateApiKey();
+    roadProvider = createRoadProvider(hasApiKey);
+    colorDetector = new ColorDetector(map, roadProvider);
+    pointSystem = new PointSystem();
+    if (hasApiKey || roadProvider instanceof GeoJsonRoadProvider || roadProvider instanceof TileRoadProvider) {
+      pointSystem.updateApiStatus(`✅ ${roadProvider.name}`, '#4CAF50');
     } else {
-      colorDetector = new ColorDetector(map, 'fallback');
-      pointSystem = new PointSystem();
       pointSystem.updateApiStatus('⚠️ Fallback Mode', '#FF6B6B');
     }
   } else {
@@ -482,14 +1328,35 @@ function initGameSystems(): void {
     controlsShown = true;
   }
 
+  setupPlayerSystem();
+  setupAchievementSystem();
+  setupTripSystem();
+  setupMissionSystem();
+  setupSettingsScreen();
+  setupPauseMenu();
+  setupAudioSystem();
+  setupMinimap();
+  setupCameraControls();
+  // Road tolerance, penalties etc. start from the saved settings
+  gameEvents.emit('SettingsChanged', { settings: settingsStore.get() });
+
+  startSession();
+
   // Start input and question systems
   setupInputHandling();
   setupQuestionSystem(); 
   
-  // Start the main game loop if it's not already running
-  if (!isGamePaused) {
-      requestAnimationFrame(tick);
-  }
+  // Starts the game loop, there is only ever one
+  gameState.transition('Playing');
+}
+
+// Telemetry, score history, achievements and trip recording start from this
+function startSession(): void {
+  gameEvents.emit('SessionStarted', {
+    playerId: currentPlayerId(),
+    nickname: userProfile?.nickname || 'Driver',
+    timestamp: Date.now(),
+  });
 }
 
 
@@ -0,0 +1,161 @@
+/**
+ * Reference Presence Server
+ * WebSocket server that relays each driver's position to the other drivers
+ * nearby, so everyone sees each other on the map. Meant for local
+ * development only.
+ *
+ *   npm run presence-server
+ *
+ * Environment:
+ *   PORT                Port to listen on (default 8788)
+ *   NEARBY_RADIUS       Only send drivers within this many meters (default 2000)
+ *   BROADCAST_INTERVAL  Milliseconds between position broadcasts (default 100)
+ *   STALE_TIMEOUT       Stop sending drivers quiet for this many milliseconds (default 3000)
+ *   ALLOW_ANONYMOUS     Set to 1 to accept drivers without a bearer token
+ *
+ * Protocol (JSON text frames):
+ *   client -> server  { type: 'hello', version, playerId, nickname, token? }
+ *                     { type: 'state', lat, lng, heading, speed }
+ *   server -> client  { type: 'welcome', playerId }
+ *                     { type: 'players', players: [{ playerId, nickname, lat, lng, heading, speed, updatedAt }] }
+ *                     { type: 'left', playerId }
+ *                     { type: 'error', error }
+ */
+
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.PORT) || 8788;
+const NEARBY_RADIUS = Number(process.env.NEARBY_RADIUS) || 2000;
+const BROADCAST_INTERVAL = Number(process.env.BROADCAST_INTERVAL) || 100;
+const STALE_TIMEOUT = Number(process.env.STALE_TIMEOUT) || 3000;
+const ALLOW_ANONYMOUS = process.env.ALLOW_ANONYMOUS === '1';
+const PROTOCOL_VERSION = 1;
+const MAX_MESSAGE_BYTES = 4096;
+
+// Connected drivers by socket: { playerId, nickname, state }
+const drivers = new Map();
+
+const isNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+
+// Read the subject from a JWT without verifying it. A production backend must
+// verify the signature against the Auth0 JWKS instead.
+function tokenSubject(token) {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf8'));
+    return typeof payload.sub === 'string' ? payload.sub : null;
+  } catch {
+    return null;
+  }
+}
+
+function distanceMeters(a, b) {
+  const metersPerDegree = 111320;
+  const x = (b.lng - a.lng) * metersPerDegree * Math.cos(a.lat * Math.PI / 180);
+  const y = (b.lat - a.lat) * metersPerDegree;
+  return Math.hypot(x, y);
+}
+
+function send(socket, message) {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+}
+
+function handleHello(socket, message) {
+  if (message.version !== PROTOCOL_VERSION) {
+    send(socket, { type: 'error', error: `unsupported protocol version ${message.version}` });
+    socket.close(4000, 'bad version');
+    return;
+  }
+  if (typeof message.playerId !== 'string' || message.playerId === '') {
+    send(socket, { type: 'error', error: 'playerId must be a non-empty string' });
+    socket.close(4000, 'bad hello');
+    return;
+  }
+  if (!message.token && !ALLOW_ANONYMOUS) {
+    send(socket, { type: 'error', error: 'missing bearer token' });
+    socket.close(4001, 'unauthorized');
+    return;
+  }
+  const subject = message.token && tokenSubject(message.token);
+  if (subject && subject !== message.playerId) {
+    send(socket, { type: 'error', error: 'playerId does not match token subject' });
+    socket.close(4003, 'forbidden');
+    return;
+  }
+
+  // A second tab of the same player replaces the first
+  for (const [other, driver] of drivers) {
+    if (other !== socket && driver.playerId === message.playerId) other.close(4009, 'replaced');
+  }
+
+  drivers.set(socket, {
+    playerId: message.playerId,
+    nickname: typeof message.nickname === 'string' ? message.nickname.slice(0, 24) : 'Driver',
+    state: null,
+  });
+  send(socket, { type: 'welcome', playerId: message.playerId });
+  console.log(`${message.playerId} joined (${drivers.size} online)`);
+}
+
+function handleState(socket, message) {
+  const driver = drivers.get(socket);
+  if (!driver) return;
+  if (![message.lat, message.lng, message.heading, message.speed].every(isNumber)) return;
+
+  driver.state = {
+    lat: message.lat,
+    lng: message.lng,
+    heading: message.heading,
+    speed: message.speed,
+    updatedAt: Date.now(),
+  };
+}
+
+// Tell every driver where the drivers near them are. Drivers that went quiet
+// (paused, or a tab in the background) are left out until they send again
+function broadcast() {
+  const now = Date.now();
+  const active = [...drivers.values()].filter((driver) => driver.state && now - driver.state.updatedAt <= STALE_TIMEOUT);
+
+  for (const [socket, driver] of drivers) {
+    if (!driver.state) continue;
+    const nearby = active
+      .filter((other) => other !== driver && distanceMeters(driver.state, other.state) <= NEARBY_RADIUS)
+      .map((other) => ({ playerId: other.playerId, nickname: other.nickname, ...other.state }));
+    send(socket, { type: 'players', players: nearby });
+  }
+}
+
+const server = new WebSocketServer({ port: PORT, maxPayload: MAX_MESSAGE_BYTES });
+
+server.on('connection', (socket) => {
+  socket.on('message', (data) => {
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      send(socket, { type: 'error', error: 'invalid JSON' });
+      return;
+    }
+
+    if (message?.type === 'hello') handleHello(socket, message);
+    else if (message?.type === 'state') handleState(socket, message);
+  });
+
+  socket.on('close', () => {
+    const driver = drivers.get(socket);
+    if (!driver) return;
+    drivers.delete(socket);
+    // Not gone if this connection was replaced by a newer one
+    const replaced = [...drivers.values()].some((other) => other.playerId === driver.playerId);
+    if (!replaced) {
+      for (const other of drivers.keys()) send(other, { type: 'left', playerId: driver.playerId });
+    }
+    console.log(`${driver.playerId} left (${drivers.size} online)`);
+  });
+});
+
+setInterval(broadcast, BROADCAST_INTERVAL);
+server.on('listening', () => {
+  console.log(`Presence server listening on ws://localhost:${PORT}`);
+  if (ALLOW_ANONYMOUS) console.log('Accepting drivers without a bearer token');
+});
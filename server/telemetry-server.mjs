@@ -0,0 +1,327 @@
+/**
+ * Reference Telemetry Server
+ * Small dependency-free Node server that accepts TelemetrySync batches and
+ * stores one JSON file per driving session. It also serves the player API
+ * used by RestPlayerStore (profiles, session results and leaderboards).
+ * Meant for local development only.
+ *
+ *   npm run telemetry-server
+ *
+ * Environment:
+ *   PORT             Port to listen on (default 8787)
+ *   DATA_DIR         Where session files are written (default server/data)
+ *   ALLOW_ANONYMOUS  Set to 1 to accept uploads without a bearer token
+ */
+
+import { createServer } from 'node:http';
+import { mkdir, readFile, readdir, writeFile } from 'node:fs/promises';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_DIR = process.env.DATA_DIR || join(dirname(fileURLToPath(import.meta.url)), 'data');
+const ALLOW_ANONYMOUS = process.env.ALLOW_ANONYMOUS === '1';
+const SCHEMA_VERSION = 1;
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Sessions are kept in memory and written through to disk
+const sessions = new Map();
+const PLAYER_DIR = join(DATA_DIR, 'players');
+const profiles = new Map();
+const results = new Map();
+
+// ----------------------------------------------------------------------
+// STORAGE
+// ----------------------------------------------------------------------
+const sessionFile = (sessionId) => join(DATA_DIR, `${encodeURIComponent(sessionId)}.json`);
+
+async function loadSessions() {
+  await mkdir(DATA_DIR, { recursive: true });
+  for (const file of await readdir(DATA_DIR)) {
+    if (!file.endsWith('.json')) continue;
+    const session = JSON.parse(await readFile(join(DATA_DIR, file), 'utf8'));
+    sessions.set(session.sessionId, session);
+  }
+  console.log(`Loaded ${sessions.size} sessions from ${DATA_DIR}`);
+}
+
+async function saveSession(session) {
+  await writeFile(sessionFile(session.sessionId), JSON.stringify(session));
+}
+
+async function loadPlayers() {
+  await mkdir(PLAYER_DIR, { recursive: true });
+  for (const [file, map, key] of [['profiles.json', profiles, 'playerId'], ['results.json', results, 'sessionId']]) {
+    try {
+      const list = JSON.parse(await readFile(join(PLAYER_DIR, file), 'utf8'));
+      list.forEach((item) => map.set(item[key], item));
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+  console.log(`Loaded ${profiles.size} player profiles and ${results.size} session results`);
+}
+
+async function savePlayers(file, map) {
+  await writeFile(join(PLAYER_DIR, file), JSON.stringify([...map.values()]));
+}
+
+const summarize = (session) => ({
+  sessionId: session.sessionId,
+  playerId: session.playerId,
+  startedAt: session.startedAt,
+  lastSampleAt: session.lastSampleAt,
+  sampleCount: session.samples.length,
+});
+
+// ----------------------------------------------------------------------
+// VALIDATION
+// ----------------------------------------------------------------------
+const isNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+
+function validateBatch(batch) {
+  if (!batch || typeof batch !== 'object') return 'body must be a JSON object';
+  if (batch.schemaVersion !== SCHEMA_VERSION) return `unsupported schemaVersion ${batch.schemaVersion}`;
+  for (const field of ['batchId', 'sessionId', 'playerId']) {
+    if (typeof batch[field] !== 'string' || batch[field] === '') return `${field} must be a non-empty string`;
+  }
+  if (!Array.isArray(batch.samples)) return 'samples must be an array';
+
+  for (const [index, sample] of batch.samples.entries()) {
+    const valid = sample &&
+      isNumber(sample.timestamp) &&
+      isNumber(sample.coordinates?.latitude) &&
+      isNumber(sample.coordinates?.longitude) &&
+      isNumber(sample.heading) &&
+      isNumber(sample.speed);
+    if (!valid) return `samples[${index}] is malformed`;
+  }
+  return null;
+}
+
+function validateProfile(profile) {
+  if (!profile || typeof profile !== 'object') return 'body must be a JSON object';
+  if (typeof profile.playerId !== 'string' || profile.playerId === '') return 'playerId must be a non-empty string';
+  if (typeof profile.nickname !== 'string') return 'nickname must be a string';
+  if (!isNumber(profile.createdAt) || !isNumber(profile.lastSeenAt)) return 'createdAt and lastSeenAt must be numbers';
+  return null;
+}
+
+function validateResult(result) {
+  if (!result || typeof result !== 'object') return 'body must be a JSON object';
+  for (const field of ['sessionId', 'playerId']) {
+    if (typeof result[field] !== 'string' || result[field] === '') return `${field} must be a non-empty string`;
+  }
+  if (typeof result.nickname !== 'string') return 'nickname must be a string';
+  for (const field of ['score', 'distance', 'questionsAnswered', 'questionsCorrect', 'duration', 'endedAt']) {
+    if (!isNumber(result[field])) return `${field} must be a number`;
+  }
+  return null;
+}
+
+// Read the subject from a JWT without verifying it. A production backend must
+// verify the signature against the Auth0 JWKS instead.
+function tokenSubject(token) {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf8'));
+    return typeof payload.sub === 'string' ? payload.sub : null;
+  } catch {
+    return null;
+  }
+}
+
+// ----------------------------------------------------------------------
+// HTTP
+// ----------------------------------------------------------------------
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+// Parse and validate an authenticated upload, sends the error response and
+// returns null when it is rejected
+async function readUpload(req, res, validate) {
+  const auth = req.headers.authorization || '';
+  const token = auth.startsWith('Bearer ') ? auth.slice(7) : null;
+  if (!token && !ALLOW_ANONYMOUS) {
+    send(res, 401, { error: 'missing bearer token' });
+    return null;
+  }
+
+  let body;
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch (error) {
+    send(res, 400, { error: `invalid body: ${error.message}` });
+    return null;
+  }
+
+  const problem = validate(body);
+  if (problem) {
+    send(res, 400, { error: problem });
+    return null;
+  }
+
+  const subject = token && tokenSubject(token);
+  if (subject && subject !== body.playerId) {
+    send(res, 403, { error: 'playerId does not match token subject' });
+    return null;
+  }
+  return body;
+}
+
+async function handleTelemetry(req, res) {
+  const batch = await readUpload(req, res, validateBatch);
+  if (!batch) return;
+
+  let session = sessions.get(batch.sessionId);
+  if (!session) {
+    session = {
+      sessionId: batch.sessionId,
+      playerId: batch.playerId,
+      startedAt: batch.samples[0]?.timestamp ?? batch.sentAt,
+      lastSampleAt: null,
+      batchIds: [],
+      samples: [],
+    };
+    sessions.set(session.sessionId, session);
+  } else if (session.playerId !== batch.playerId) {
+    send(res, 403, { error: 'session belongs to another player' });
+    return;
+  }
+
+  // Retried uploads carry the same batchId, accept them only once
+  if (session.batchIds.includes(batch.batchId)) {
+    send(res, 200, { accepted: 0, duplicate: true });
+    return;
+  }
+
+  session.batchIds.push(batch.batchId);
+  session.samples.push(...batch.samples);
+  session.samples.sort((a, b) => a.timestamp - b.timestamp);
+  session.lastSampleAt = session.samples[session.samples.length - 1]?.timestamp ?? session.lastSampleAt;
+  await saveSession(session);
+
+  send(res, 202, { accepted: batch.samples.length });
+}
+
+// Best result per player since `since`, highest score first
+function leaderboard(since, limit) {
+  const best = new Map();
+  for (const result of results.values()) {
+    if (result.endedAt < since) continue;
+    const current = best.get(result.playerId);
+    if (!current || result.score > current.score) best.set(result.playerId, result);
+  }
+
+  return [...best.values()]
+    .sort((a, b) => b.score - a.score || a.endedAt - b.endedAt)
+    .slice(0, limit)
+    .map((result, index) => ({
+      rank: index + 1,
+      playerId: result.playerId,
+      nickname: result.nickname,
+      score: result.score,
+      distance: result.distance,
+      accuracy: result.questionsAnswered > 0 ? result.questionsCorrect / result.questionsAnswered : null,
+      endedAt: result.endedAt,
+    }));
+}
+
+async function handlePlayers(req, res, url) {
+  const [, playerId, sub] = url.pathname.match(/^\/api\/players\/([^/]+)(\/results)?$/) || [];
+  const limit = Number(url.searchParams.get('limit')) || 50;
+
+  if (req.method === 'POST' && url.pathname === '/api/results') {
+    const result = await readUpload(req, res, validateResult);
+    if (!result) return;
+    // Results are re-sent during a session, the latest one wins
+    results.set(result.sessionId, result);
+    await savePlayers('results.json', results);
+    send(res, 202, { saved: true });
+  } else if (req.method === 'GET' && url.pathname === '/api/leaderboard') {
+    send(res, 200, leaderboard(Number(url.searchParams.get('since')) || 0, limit));
+  } else if (playerId && sub && req.method === 'GET') {
+    const id = decodeURIComponent(playerId);
+    const history = [...results.values()]
+      .filter((result) => result.playerId === id)
+      .sort((a, b) => b.endedAt - a.endedAt)
+      .slice(0, limit);
+    send(res, 200, history);
+  } else if (playerId && !sub && req.method === 'GET') {
+    const profile = profiles.get(decodeURIComponent(playerId));
+    if (profile) send(res, 200, profile);
+    else send(res, 404, { error: 'player not found' });
+  } else if (playerId && !sub && req.method === 'PUT') {
+    const profile = await readUpload(req, res, validateProfile);
+    if (!profile) return;
+    if (profile.playerId !== decodeURIComponent(playerId)) {
+      send(res, 400, { error: 'playerId does not match the URL' });
+      return;
+    }
+    profiles.set(profile.playerId, profile);
+    await savePlayers('profiles.json', profiles);
+    send(res, 204);
+  } else {
+    send(res, 404, { error: 'not found' });
+  }
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+
+  try {
+    if (req.method === 'OPTIONS') {
+      send(res, 204);
+    } else if (req.method === 'POST' && url.pathname === '/api/telemetry') {
+      await handleTelemetry(req, res);
+    } else if (req.method === 'GET' && url.pathname === '/api/sessions') {
+      const playerId = url.searchParams.get('playerId');
+      const list = [...sessions.values()]
+        .filter((session) => !playerId || session.playerId === playerId)
+        .map(summarize);
+      send(res, 200, list);
+    } else if (req.method === 'GET' && url.pathname.startsWith('/api/sessions/')) {
+      const session = sessions.get(decodeURIComponent(url.pathname.slice('/api/sessions/'.length)));
+      if (session) send(res, 200, { ...summarize(session), samples: session.samples });
+      else send(res, 404, { error: 'session not found' });
+    } else if (url.pathname.startsWith('/api/players/') || url.pathname === '/api/results' || url.pathname === '/api/leaderboard') {
+      await handlePlayers(req, res, url);
+    } else {
+      send(res, 404, { error: 'not found' });
+    }
+  } catch (error) {
+    console.error('Request failed:', error);
+    send(res, 500, { error: 'internal error' });
+  }
+});
+
+await loadSessions();
+await loadPlayers();
+server.listen(PORT, () => {
+  console.log(`Telemetry server listening on http://localhost:${PORT}`);
+  if (ALLOW_ANONYMOUS) console.log('Accepting uploads without a bearer token');
+});
@@ -0,0 +1,180 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CONFIG } from '../config';
+import { ColorDetector } from '../components/ColorDetector';
+import { RealRoadDetector } from '../components/RealRoadDetector';
+import { RoadProvider, RoadProviderError } from '../components/RoadProvider';
+import { moveAlongHeading } from '../components/RoadGeometry';
+import { createFakeMap } from './fakes/googleMaps';
+import { FakeRoadsApi } from './fakes/roadsApi';
+
+const CENTER = { lat: 29.651634, lng: -82.324829 };
+
+function createProvider(isOnRoad: RoadProvider['isOnRoad']): RoadProvider {
+  return {
+    name: 'Test roads',
+    isOnRoad: vi.fn(isOnRoad),
+    getCacheStats: () => ({ size: 3, hitRate: 0.5 }),
+  };
+}
+
+describe('ColorDetector', () => {
+  let map: google.maps.Map;
+
+  beforeEach(() => {
+    map = createFakeMap({ center: CENTER, zoom: 18 });
+  });
+
+  describe('fallback switching', () => {
+    it('uses the road provider while it answers', async () => {
+      const provider = createProvider(async () => false);
+      const detector = new ColorDetector(map, provider);
+
+      expect(await detector.isOnRoad(CENTER.lat, CENTER.lng)).toBe(false);
+      expect(provider.isOnRoad).toHaveBeenCalledWith(CENTER.lat, CENTER.lng);
+      expect(detector.isInFallbackMode()).toBe(false);
+    });
+
+    it('switches to the simulated street grid when the provider throws', async () => {
+      const detector = new ColorDetector(map, createProvider(async () => { throw new Error('quota exceeded'); }));
+
+      // The map center always lies on a simulated main road
+      expect(await detector.isOnRoad(CENTER.lat, CENTER.lng)).toBe(true);
+      expect(detector.isInFallbackMode()).toBe(true);
+      expect(console.warn).toHaveBeenCalled();
+    });
+
+    it('uses the simulation until the retry is due, then recovers', async () => {
+      vi.useFakeTimers();
+      let failing = true;
+      const provider = createProvider(async () => {
+        if (failing) throw new Error('offline');
+        return false;
+      });
+      const detector = new ColorDetector(map, provider);
+
+      await detector.isOnRoad(CENTER.lat, CENTER.lng);
+      failing = false;
+
+      expect(await detector.isOnRoad(CENTER.lat, CENTER.lng)).toBe(true);
+      expect(provider.isOnRoad).toHaveBeenCalledTimes(1);
+      expect(detector.isInFallbackMode()).toBe(true);
+
+      vi.advanceTimersByTime(CONFIG.ROADS_API.RETRY_DELAY);
+      expect(await detector.isOnRoad(CENTER.lat, CENTER.lng)).toBe(false);
+      expect(provider.isOnRoad).toHaveBeenCalledTimes(2);
+      expect(detector.isInFallbackMode()).toBe(false);
+    });
+
+    it('shows the cause of the failure', async () => {
+      const detector = new ColorDetector(map, createProvider(async () => {
+        throw new RoadProviderError('auth', 'Roads API error: 403 Forbidden');
+      }));
+
+      expect(detector.getStatus()).toBe('Test roads');
+      await detector.isOnRoad(CENTER.lat, CENTER.lng);
+      expect(detector.getStatus()).toBe('Fallback: Key rejected');
+    });
+
+    it('is off the road in fallback mode until the map has a center', async () => {
+      const detector = new ColorDetector(createFakeMap(), createProvider(async () => { throw new Error('offline'); }));
+
+      expect(await detector.isOnRoad(CENTER.lat, CENTER.lng)).toBe(false);
+    });
+
+    it('falls back when the Roads API rejects the key instead of reporting off road', async () => {
+      const api = new FakeRoadsApi();
+      api.failWith(403);
+      vi.stubGlobal('fetch', api.fetch);
+      const detector = new ColorDetector(map, new RealRoadDetector(map, 'test-key'));
+
+      expect(await detector.isOnRoad(CENTER.lat, CENTER.lng)).toBe(true);
+      expect(detector.isInFallbackMode()).toBe(true);
+      expect(detector.getStatus()).toBe('Fallback: Key rejected');
+    });
+
+    it('simulates roads per frame where nothing is cached while the Roads API fails', async () => {
+      const api = new FakeRoadsApi();
+      api.failWith('network');
+      vi.stubGlobal('fetch', api.fetch);
+      const detector = new ColorDetector(map, new RealRoadDetector(map, 'test-key'));
+
+      expect(detector.isOnRoadNow(CENTER.lat, CENTER.lng, 0, 4)).toBeNull();
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(detector.isOnRoadNow(CENTER.lat, CENTER.lng, 0, 4)).toBe(true);
+      expect(detector.getStatus()).toBe('Retrying: Offline');
+    });
+  });
+
+  describe('isOnRoadNow', () => {
+    it('uses the provider\'s own synchronous check when it has one', () => {
+      const provider = { ...createProvider(async () => false), isOnRoadNow: vi.fn(() => true) };
+      const detector = new ColorDetector(map, provider);
+
+      expect(detector.isOnRoadNow(CENTER.lat, CENTER.lng, 90, 10)).toBe(true);
+      expect(provider.isOnRoadNow).toHaveBeenCalledWith(CENTER.lat, CENTER.lng, 90, 10);
+      expect(provider.isOnRoad).not.toHaveBeenCalled();
+    });
+
+    it('otherwise runs one lookup at a time and returns the latest answer', async () => {
+      const provider = createProvider(async () => true);
+      const detector = new ColorDetector(map, provider);
+
+      expect(detector.isOnRoadNow(CENTER.lat, CENTER.lng, 0, 10)).toBeNull();
+      expect(detector.isOnRoadNow(CENTER.lat, CENTER.lng, 0, 10)).toBeNull();
+      expect(provider.isOnRoad).toHaveBeenCalledTimes(1);
+
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(detector.isOnRoadNow(CENTER.lat, CENTER.lng, 0, 10)).toBe(true);
+      expect(provider.isOnRoad).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getLanePosition', () => {
+    it('has no lane position from the Roads API, which does not know one-way roads', async () => {
+      vi.stubGlobal('fetch', new FakeRoadsApi().fetch);
+      const roads = new RealRoadDetector(map, 'test-key');
+      const detector = new ColorDetector(map, roads);
+      await roads.checkMultiplePoints([0, 4, 8, 12].map(meters => moveAlongHeading(CENTER, meters, 0)));
+
+      // 3 m west of the snapped road, left of its centreline
+      const point = moveAlongHeading(moveAlongHeading(CENTER, 6, 0), 3, 270);
+      expect(await detector.isOnRoad(point.lat, point.lng)).toBe(true);
+      expect(detector.getLanePosition(point.lat, point.lng, 0, 10)).toBeNull();
+    });
+
+    it('measures the lane on roads whose direction is known', () => {
+      const provider = {
+        ...createProvider(async () => true),
+        getRoadSegment: () => ({ a: CENTER, b: moveAlongHeading(CENTER, 100, 0), lanes: 2, oneway: false }),
+      };
+      const detector = new ColorDetector(map, provider);
+      const point = moveAlongHeading(moveAlongHeading(CENTER, 50, 0), 1.75, 270);
+
+      expect(detector.getLanePosition(point.lat, point.lng, 0, 10)?.status).toBe('wrongSide');
+      expect(detector.getLanePosition(point.lat, point.lng, 0, -10)?.status).toBe('inLane');
+    });
+  });
+
+  it('passes the provider name and cache statistics through', () => {
+    const detector = new ColorDetector(map, createProvider(async () => true));
+
+    expect(detector.getProviderName()).toBe('Test roads');
+    expect(detector.getCacheStats()).toEqual({ size: 3, hitRate: 0.5 });
+  });
+
+  describe('isGrayColor', () => {
+    const detector = () => new ColorDetector(map, createProvider(async () => true));
+
+    it('accepts mid greys', () => {
+      expect(detector().isGrayColor({ r: 150, g: 150, b: 150 })).toBe(true);
+      expect(detector().isGrayColor({ r: 120, g: 130, b: 140 })).toBe(true);
+    });
+
+    it('rejects colours and greys that are too dark or too light', () => {
+      expect(detector().isGrayColor({ r: 34, g: 139, b: 34 })).toBe(false);
+      expect(detector().isGrayColor({ r: 40, g: 40, b: 40 })).toBe(false);
+      expect(detector().isGrayColor({ r: 230, g: 230, b: 230 })).toBe(false);
+    });
+  });
+});
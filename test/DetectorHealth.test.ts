@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CONFIG } from '../config';
+import { DetectorHealth } from '../components/DetectorHealth';
+import { EventBus, GameEventMap } from '../components/GameEvents';
+import { RoadProviderError } from '../components/RoadProvider';
+
+const failure = (kind: RoadProviderError['kind']) => new RoadProviderError(kind, `${kind} failure`);
+
+describe('DetectorHealth', () => {
+  let events: EventBus<GameEventMap>;
+  let changes: GameEventMap['RoadDetectionChanged'][];
+  let health: DetectorHealth;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    events = new EventBus<GameEventMap>();
+    changes = [];
+    events.on('RoadDetectionChanged', change => { changes.push(change); });
+    health = new DetectorHealth(events);
+  });
+
+  it('lets every request through while healthy', () => {
+    expect(health.allowRequest()).toBe(true);
+    expect(health.allowRequest()).toBe(true);
+    expect(health.isReliable()).toBe(true);
+  });
+
+  it('retries transient failures with a doubling delay', () => {
+    health.recordFailure(failure('timeout'));
+    expect(health.getState()).toBe('retrying');
+    expect(health.allowRequest()).toBe(false);
+
+    vi.advanceTimersByTime(CONFIG.ROADS_API.RETRY_DELAY);
+    expect(health.allowRequest()).toBe(true);
+    // Only one retry at a time
+    expect(health.allowRequest()).toBe(false);
+
+    health.recordFailure(failure('timeout'));
+    vi.advanceTimersByTime(CONFIG.ROADS_API.RETRY_DELAY);
+    expect(health.allowRequest()).toBe(false);
+    vi.advanceTimersByTime(CONFIG.ROADS_API.RETRY_DELAY);
+    expect(health.allowRequest()).toBe(true);
+  });
+
+  it('is down after MAX_RETRIES failed retries and probes on the probe interval', () => {
+    for (let attempt = 0; attempt <= CONFIG.ROADS_API.MAX_RETRIES; attempt++) {
+      health.recordFailure(failure('network'));
+    }
+    expect(health.getState()).toBe('down');
+
+    vi.advanceTimersByTime(CONFIG.ROADS_API.HEALTH_PROBE_INTERVAL - 1);
+    expect(health.allowRequest()).toBe(false);
+    vi.advanceTimersByTime(1);
+    expect(health.allowRequest()).toBe(true);
+  });
+
+  it('goes down straight away when the key is rejected', () => {
+    health.recordFailure(failure('auth'));
+
+    expect(health.getState()).toBe('down');
+    expect(changes).toEqual([{ state: 'down', reliable: false, cause: 'auth' }]);
+  });
+
+  it('recovers on the first success', () => {
+    health.recordFailure(failure('quota'));
+    health.recordSuccess();
+
+    expect(health.isReliable()).toBe(true);
+    expect(health.getLastError()).toBeNull();
+    expect(changes.map(change => change.state)).toEqual(['retrying', 'healthy']);
+  });
+
+  it('describes the cause for the HUD', () => {
+    expect(health.describe('Real Roads API')).toBe('Real Roads API');
+
+    health.recordFailure(failure('quota'));
+    expect(health.describe('Real Roads API')).toBe('Retrying: Quota exceeded');
+
+    health.recordFailure(failure('auth'));
+    expect(health.describe('Real Roads API')).toBe('Fallback: Key rejected');
+  });
+});
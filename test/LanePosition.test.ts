@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { CONFIG } from '../config';
+import { measureLanePosition } from '../components/LanePosition';
+import { GeoJsonRoadProvider } from '../components/GeoJsonRoadProvider';
+import { RoadSegmentInfo } from '../components/RoadProvider';
+import { moveAlongHeading } from '../components/RoadGeometry';
+
+const START = { lat: 29.651634, lng: -82.324829 };
+const END = moveAlongHeading(START, 100, 0);
+const MIDDLE = moveAlongHeading(START, 50, 0);
+// A point on the middle of the road, `meters` east of the centreline (negative is west)
+const across = (meters: number) => moveAlongHeading(MIDDLE, meters, 90);
+
+const twoWay = (lanes: number | null = null): RoadSegmentInfo => ({ a: START, b: END, lanes, oneway: false });
+const oneWay = (lanes: number | null = null): RoadSegmentInfo => ({ a: START, b: END, lanes, oneway: true });
+
+describe('measureLanePosition', () => {
+  it('keeps to the right half of a two-way road', () => {
+    const position = measureLanePosition(across(1.75), 0, twoWay());
+
+    expect(position).toMatchObject({ lane: 1, lanes: 1, status: 'inLane' });
+    expect(position!.offset).toBeCloseTo(1.75, 1);
+  });
+
+  it('flags crossing the centre line', () => {
+    expect(measureLanePosition(across(-1.75), 0, twoWay())?.status).toBe('wrongSide');
+  });
+
+  it('measures from the direction of travel, whichever way the segment points', () => {
+    expect(measureLanePosition(across(-1.75), 180, twoWay())?.status).toBe('inLane');
+    expect(measureLanePosition(across(1.75), 180, twoWay())?.status).toBe('wrongSide');
+  });
+
+  it('treats the lines and the road edge as straddling', () => {
+    expect(measureLanePosition(across(0.3), 0, twoWay())?.status).toBe('straddling');
+    expect(measureLanePosition(across(3.5), 0, twoWay(4))?.status).toBe('straddling');
+    expect(measureLanePosition(across(6), 0, twoWay())?.status).toBe('straddling');
+  });
+
+  it('splits the lanes of a two-way road between both directions', () => {
+    expect(measureLanePosition(across(5.25), 0, twoWay(4))).toMatchObject({ lane: 2, lanes: 2, status: 'inLane' });
+  });
+
+  it('uses every lane of a one-way road and flags driving against it', () => {
+    expect(measureLanePosition(across(-1.75), 0, oneWay(2))).toMatchObject({ lane: 1, lanes: 2, status: 'inLane' });
+    expect(measureLanePosition(across(1.75), 0, oneWay(2))).toMatchObject({ lane: 2, lanes: 2, status: 'inLane' });
+    expect(measureLanePosition(across(1.75), 180, oneWay(2))?.status).toBe('wrongSide');
+  });
+
+  it('follows the side traffic keeps to', () => {
+    const lanes = CONFIG.LANES;
+    const driveOn = lanes.DRIVE_ON;
+
+    lanes.DRIVE_ON = 'left';
+    try {
+      expect(measureLanePosition(across(-1.75), 0, twoWay())?.status).toBe('inLane');
+      expect(measureLanePosition(across(1.75), 0, twoWay())?.status).toBe('wrongSide');
+    } finally {
+      lanes.DRIVE_ON = driveOn;
+    }
+  });
+
+  it('has no answer for a segment without length', () => {
+    expect(measureLanePosition(START, 0, { a: START, b: START, lanes: 2, oneway: false })).toBeNull();
+  });
+});
+
+describe('GeoJsonRoadProvider.getRoadSegment', () => {
+  const line = (properties: Record<string, unknown>, from = START, to = END) => ({
+    type: 'Feature',
+    properties,
+    geometry: { type: 'LineString', coordinates: [[from.lng, from.lat], [to.lng, to.lat]] },
+  });
+
+  function providerWith(feature: ReturnType<typeof line>): GeoJsonRoadProvider {
+    const provider = new GeoJsonRoadProvider('/roads.geojson');
+    provider.indexFeatures({ type: 'FeatureCollection', features: [feature] });
+    return provider;
+  }
+
+  it('reads lanes and oneway from OSM tags', () => {
+    const segment = providerWith(line({ highway: 'primary', lanes: '4', oneway: 'yes' })).getRoadSegment(MIDDLE.lat, MIDDLE.lng);
+
+    expect(segment).toMatchObject({ lanes: 4, oneway: true });
+  });
+
+  it('points reversed one-way segments the way traffic drives', () => {
+    const segment = providerWith(line({ oneway: '-1' })).getRoadSegment(MIDDLE.lat, MIDDLE.lng);
+
+    expect(segment).toMatchObject({ a: END, b: START, lanes: null, oneway: true });
+  });
+
+  it('makes roundabouts one-way and leaves other highways two-way', () => {
+    expect(providerWith(line({ junction: 'roundabout' })).getRoadSegment(MIDDLE.lat, MIDDLE.lng)?.oneway).toBe(true);
+    expect(providerWith(line({ highway: 'residential' })).getRoadSegment(MIDDLE.lat, MIDDLE.lng)?.oneway).toBe(false);
+  });
+
+  it('has no segment away from the roads', () => {
+    const far = moveAlongHeading(MIDDLE, 200, 90);
+    expect(providerWith(line({ highway: 'residential' })).getRoadSegment(far.lat, far.lng)).toBeNull();
+  });
+
+  it('has no segment for lines without tags, which could be one carriageway of a divided road', () => {
+    expect(providerWith(line({})).getRoadSegment(MIDDLE.lat, MIDDLE.lng)).toBeNull();
+  });
+});
@@ -0,0 +1,168 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PointSystem } from '../components/PointSystem';
+import { EventBus, GameEventMap } from '../components/GameEvents';
+import { LanePosition } from '../components/LanePosition';
+import { MPH_TO_MPS } from '../components/RoadProvider';
+import { moveAlongHeading } from '../components/RoadGeometry';
+
+const START = { lat: 29.651634, lng: -82.324829 };
+// Points along a straight road north of the start, about 10.09 m apart
+const STEP = 10.1;
+const north = (steps: number) => moveAlongHeading(START, steps * STEP, 0);
+const mph = (value: number) => value * MPH_TO_MPS;
+const IN_LANE: LanePosition = { offset: 1.75, lane: 1, lanes: 1, status: 'inLane' };
+const WRONG_SIDE: LanePosition = { offset: -1.75, lane: 1, lanes: 1, status: 'wrongSide' };
+
+describe('PointSystem', () => {
+  let events: EventBus<GameEventMap>;
+  let points: PointSystem;
+
+  // Drive `steps` steps north at a constant speed, starting from the start
+  function drive(steps: number, isOnRoad: boolean, speed: number, deltaTime = 0.5, lane: LanePosition | null = null): void {
+    points.update(START, isOnRoad, speed, 0, lane);
+    for (let step = 1; step <= steps; step++) points.update(north(step), isOnRoad, speed, deltaTime, lane);
+  }
+
+  beforeEach(() => {
+    events = new EventBus<GameEventMap>();
+    points = new PointSystem(events);
+  });
+
+  it('earns points per meter with the compliance bonus at or under the limit', () => {
+    drive(1, true, mph(20));
+
+    // 10.09 m * 5 points * 1.5 bonus
+    expect(points.getPoints()).toBe(75);
+    expect(points.getDistanceOnRoad()).toBeCloseTo(10.09, 1);
+  });
+
+  it('drops the bonus inside the speeding grace', () => {
+    drive(1, true, mph(27));
+
+    expect(points.getPoints()).toBe(50);
+  });
+
+  it('takes points by the highest speeding tier that matches', () => {
+    const penalties: GameEventMap['PenaltyApplied'][] = [];
+    events.on('PenaltyApplied', penalty => { penalties.push(penalty); });
+    points.addPoints(1000);
+
+    // 12 mph over the limit is the 3 points per meter tier
+    drive(1, true, mph(37));
+
+    expect(points.getPoints()).toBe(970);
+    expect(points.getSpeedingPenaltyTotal()).toBe(30);
+    expect(penalties).toEqual([{ amount: 30, reason: 'speeding' }]);
+  });
+
+  it('follows the posted limit of the current road', () => {
+    points.setSpeedLimit(mph(45));
+    drive(1, true, mph(40));
+
+    expect(points.isSpeeding()).toBe(false);
+    expect(points.getPoints()).toBe(75);
+  });
+
+  it('adds the lane-keeping bonus inside a lane', () => {
+    drive(1, true, mph(20), 0.5, IN_LANE);
+
+    // 10.09 m * 5 points * 1.5 compliance * 1.25 lane keeping
+    expect(points.getPoints()).toBe(94);
+    expect(document.getElementById('lane-status')?.textContent).toBe('1/1');
+  });
+
+  it('takes points on the wrong side instead of awarding them', () => {
+    const penalties: GameEventMap['PenaltyApplied'][] = [];
+    events.on('PenaltyApplied', penalty => { penalties.push(penalty); });
+    points.addPoints(1000);
+
+    drive(1, true, mph(20), 0.5, WRONG_SIDE);
+
+    // 10.09 m * 8 points
+    expect(points.getPoints()).toBe(920);
+    expect(points.getWrongSidePenaltyTotal()).toBe(80);
+    expect(penalties).toEqual([{ amount: 80, reason: 'wrong-side' }]);
+    expect(document.getElementById('lane-status')?.textContent).toBe('WRONG SIDE !');
+  });
+
+  it('reports lane changes once each', () => {
+    const laneChanges = vi.fn();
+    events.on('LaneStateChanged', laneChanges);
+
+    drive(2, true, mph(20), 0.5, IN_LANE);
+    points.update(north(3), true, mph(20), 0.5, WRONG_SIDE);
+    points.update(north(4), false, mph(20), 0.5, WRONG_SIDE);
+
+    expect(laneChanges.mock.calls.map(([change]) => change.status)).toEqual(['inLane', 'wrongSide', null]);
+  });
+
+  it('scales the off-road penalty and resets the multiplier', () => {
+    points.addPoints(1000);
+    points.setPenaltyScale(0.5);
+
+    drive(1, false, mph(20));
+
+    // 10.09 m * 5 points * 0.5
+    expect(points.getPoints()).toBe(975);
+    expect(points.getDistanceOnRoad()).toBe(0);
+  });
+
+  it('takes no off-road penalty while road detection is unreliable', () => {
+    points.addPoints(1000);
+    events.emit('RoadDetectionChanged', { state: 'down', reliable: false, cause: 'auth' });
+
+    drive(1, false, mph(20));
+    expect(points.getPoints()).toBe(1000);
+    expect(document.getElementById('off-road-warning-text')?.textContent).toBe('OFF ROAD? NO ROAD DATA');
+
+    events.emit('RoadDetectionChanged', { state: 'healthy', reliable: true, cause: null });
+    points.update(north(2), false, mph(20), 0.5);
+    expect(points.getPoints()).toBe(950);
+  });
+
+  it('never goes below zero', () => {
+    drive(3, false, mph(20));
+
+    expect(points.getPoints()).toBe(0);
+  });
+
+  it('raises the multiplier after driving on the road for a while', () => {
+    // The first step takes 9 s, past the 8 s it takes to grow the multiplier
+    points.update(START, true, mph(20), 0);
+    points.update(north(1), true, mph(20), 9);
+    points.update(north(2), true, mph(20), 0.5);
+
+    // 75 at 1.0x, then 10.09 m * 5 * 1.1 * 1.5 = 83
+    expect(points.getPoints()).toBe(75 + 83);
+  });
+
+  it('does not score a teleport after resetPosition', () => {
+    points.update(START, true, mph(20), 0);
+    points.resetPosition();
+    points.update(north(100), true, mph(20), 0.5);
+
+    expect(points.getPoints()).toBe(0);
+  });
+
+  it('reports road changes and every score update', () => {
+    const roadChanges = vi.fn();
+    const scores = vi.fn();
+    events.on('RoadStateChanged', roadChanges);
+    events.on('ScoreChanged', scores);
+
+    points.update(START, true, mph(20), 0);
+    points.update(north(1), true, mph(20), 0.5);
+    points.update(north(2), false, mph(20), 0.5);
+
+    expect(roadChanges.mock.calls.map(([change]) => change.isOnRoad)).toEqual([true, false]);
+    expect(scores).toHaveBeenCalledTimes(3);
+    expect(scores).toHaveBeenLastCalledWith(expect.objectContaining({ isOnRoad: false, points: 75 - 50, ...north(2) }));
+  });
+
+  it('adds bonus points from PointsAwarded events', () => {
+    events.emit('PointsAwarded', { amount: 100, reason: 'question' });
+
+    expect(points.getPoints()).toBe(100);
+    expect(document.getElementById('points-value')?.textContent).toBe('100');
+  });
+});
@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CONFIG } from '../config';
+import { EventBus, GameEventMap } from '../components/GameEvents';
+import { GameStateMachine } from '../components/GameStateMachine';
+import { PointSystem } from '../components/PointSystem';
+import { loadQuestionPacks, Question, shuffleAnswers } from '../components/QuestionPack';
+import { QuestionScheduler } from '../components/QuestionScheduler';
+import { DrivingSnapshot, loadTriggerConfig, QuestionTriggerEngine, TriggerFired } from '../components/QuestionTriggers';
+import { Intersection } from '../components/RoadProvider';
+import { moveAlongHeading } from '../components/RoadGeometry';
+import { createPublicFilesFetch } from './fakes/publicFiles';
+
+// Away from the "start-area" geofence in the default triggers
+const POSITION = { lat: 29.645, lng: -82.33 };
+const TICK = 500;
+
+/**
+ * The question flow as index.ts wires it: driving snapshots go through the
+ * trigger rules, a fired rule picks a question from its categories and moves
+ * the game into the Question state, and answers feed back into the scheduler
+ * and the score. Packs and rules are the ones shipped in public/.
+ */
+describe('question flow', () => {
+  let events: EventBus<GameEventMap>;
+  let gameState: GameStateMachine;
+  let points: PointSystem;
+  let scheduler: QuestionScheduler;
+  let triggers: QuestionTriggerEngine;
+  let intersections: Intersection[];
+
+  function snapshot(timestamp: number, overrides: Partial<DrivingSnapshot> = {}): DrivingSnapshot {
+    return { timestamp, ...POSITION, heading: 0, speed: 10, isOnRoad: true, ...overrides };
+  }
+
+  // Feed a snapshot every tick until a rule fires or time runs out
+  function driveUntilTrigger(from: number, to: number, overrides: Partial<DrivingSnapshot> = {}): TriggerFired & { timestamp: number } | null {
+    for (let timestamp = from; timestamp <= to; timestamp += TICK) {
+      const fired = triggers.update(snapshot(timestamp, overrides));
+      if (fired) return { ...fired, timestamp };
+    }
+    return null;
+  }
+
+  function askQuestion(trigger: TriggerFired): Question | null {
+    if (!gameState.canTransition('Question')) return null;
+    const question = scheduler.next(trigger.categories);
+    if (!question || !gameState.transition('Question')) return null;
+    events.emit('QuestionAsked', { question, reason: trigger.reason });
+    return question;
+  }
+
+  function answer(question: Question, correct: boolean): void {
+    events.emit('QuestionAnswered', { question, correct });
+    gameState.transition('Playing');
+  }
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal('fetch', createPublicFilesFetch());
+
+    events = new EventBus<GameEventMap>();
+    gameState = new GameStateMachine(() => {}, events);
+    points = new PointSystem(events);
+    scheduler = new QuestionScheduler(CONFIG.QUESTIONS.WRONG_ANSWER_WEIGHT, () => 0);
+    intersections = [];
+    triggers = new QuestionTriggerEngine(() => intersections, CONFIG.QUESTIONS.MIN_GAP);
+
+    const packs = await loadQuestionPacks(['/questions/us-general.json']);
+    scheduler.setQuestions(packs.flatMap(pack => pack.questions));
+    triggers.setConfig(await loadTriggerConfig('/triggers/default.json'));
+
+    events.on('QuestionAnswered', ({ question, correct }) => {
+      scheduler.recordAnswer(question, correct);
+      if (correct) events.emit('PointsAwarded', { amount: CONFIG.POINTS.CORRECT_ANSWER_POINTS, reason: 'question' });
+    });
+    gameState.transition('Playing');
+  });
+
+  it('asks a speed question after speeding past the minimum gap and scores the answer', () => {
+    const trigger = driveUntilTrigger(0, 60_000, { speed: 20 });
+
+    expect(trigger).toMatchObject({ reason: 'SLOW DOWN!', timestamp: CONFIG.QUESTIONS.MIN_GAP });
+    const question = askQuestion(trigger!);
+    expect(trigger!.categories).toContain(question!.category);
+    expect(gameState.getState()).toBe('Question');
+
+    answer(question!, true);
+
+    expect(points.getPoints()).toBe(CONFIG.POINTS.CORRECT_ANSWER_POINTS);
+    expect(gameState.getState()).toBe('Playing');
+  });
+
+  it('waits out the minimum gap and rule cooldowns before asking again', () => {
+    const first = driveUntilTrigger(0, 60_000, { speed: 20 });
+    const second = driveUntilTrigger(first!.timestamp + TICK, 120_000, { speed: 20 });
+
+    // The speeding rule has a 30 s cooldown
+    expect(second).toMatchObject({ rule: { id: 'speeding' }, timestamp: first!.timestamp + 30_000 });
+  });
+
+  it('asks about an intersection ahead once', () => {
+    intersections = [{ id: 'main-and-1st', ...moveAlongHeading(POSITION, 30, 0) }];
+
+    const first = driveUntilTrigger(0, 60_000);
+    const second = driveUntilTrigger(first!.timestamp + TICK, first!.timestamp + 20_000);
+
+    expect(first).toMatchObject({ reason: 'INTERSECTION AHEAD!', timestamp: CONFIG.QUESTIONS.MIN_GAP });
+    expect(second).toBeNull();
+  });
+
+  it('does not greet a car that starts inside the start area until it comes back', () => {
+    const spawn = { lat: 29.651634, lng: -82.324829 };
+    const away = moveAlongHeading(spawn, 100, 0);
+
+    // Well past the minimum gap, short of the idle rule
+    expect(driveUntilTrigger(0, 50_000, { ...spawn, speed: 0 })).toBeNull();
+    expect(driveUntilTrigger(50_000, 51_000, { ...away, speed: 0 })).toBeNull();
+    expect(driveUntilTrigger(51_000, 52_000, { ...spawn, speed: 0 })).toMatchObject({ reason: 'BACK AT THE START' });
+
+    // Moved back to the start by a restart, not driven there
+    driveUntilTrigger(52_000, 53_000, { ...away, speed: 0 });
+    triggers.reset();
+    expect(driveUntilTrigger(100_000, 110_000, { ...spawn, speed: 0 })).toBeNull();
+  });
+
+  it('does not ask while the game is paused', () => {
+    gameState.transition('Paused');
+    const trigger = driveUntilTrigger(0, 60_000, { speed: 20 });
+
+    const next = vi.spyOn(scheduler, 'next');
+
+    expect(askQuestion(trigger!)).toBeNull();
+    expect(gameState.getState()).toBe('Paused');
+    // The question is not used up
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('favours categories the player gets wrong', () => {
+    const trigger = driveUntilTrigger(0, 60_000, { speed: 20 });
+    const question = askQuestion(trigger!)!;
+
+    answer(question, false);
+
+    expect(points.getPoints()).toBe(0);
+    expect(scheduler.getCategoryWeight(question.category)).toBeGreaterThan(scheduler.getCategoryWeight('signals'));
+  });
+
+  it('does not keep the correct answer in a fixed position', async () => {
+    const [pack] = await loadQuestionPacks(['/questions/us-general.json']);
+    const correctIndex = (answers: Question['answers']) => answers.findIndex(answer => answer.correct);
+
+    // Neither in the shipped pack nor once shown
+    expect(new Set(pack.questions.map(question => correctIndex(question.answers))).size).toBeGreaterThan(1);
+    const question = pack.questions[0];
+    const shown = [0, 0.3, 0.6, 0.99].map(roll => correctIndex(shuffleAnswers(question.answers, () => roll)));
+    expect(new Set(shown).size).toBeGreaterThan(1);
+    expect(shuffleAnswers(question.answers).filter(answer => answer.correct)).toHaveLength(1);
+  });
+
+  it('asks every question of a category before repeating one', () => {
+    const asked = [0, 1, 2, 3].map(() => scheduler.next(['right-of-way'])!.id);
+
+    expect(new Set(asked.slice(0, 3)).size).toBe(3);
+    expect(asked.slice(0, 3)).toContain(asked[3]);
+    expect(asked[3]).not.toBe(asked[2]);
+  });
+
+  it('skips packs that cannot be loaded', async () => {
+    const packs = await loadQuestionPacks(['/questions/us-general.json', '/questions/missing.json']);
+
+    expect(packs.map(pack => pack.id)).toEqual(['us-general']);
+    expect(console.error).toHaveBeenCalledWith('Could not load question pack /questions/missing.json:', expect.any(Error));
+  });
+});
@@ -0,0 +1,338 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CONFIG } from '../config';
+import { RealRoadDetector } from '../components/RealRoadDetector';
+import { MPH_TO_MPS, RoadProviderError } from '../components/RoadProvider';
+import { moveAlongHeading } from '../components/RoadGeometry';
+import { createFakeMap } from './fakes/googleMaps';
+import { FakeRoadsApi } from './fakes/roadsApi';
+
+// Positions with recorded responses, see test/fixtures/roads-api.json
+const ON_ROAD = { lat: 29.651634, lng: -82.324829 };     // Snaps ~2 m away
+const NEAR_ROAD = { lat: 29.652, lng: -82.326 };         // Snaps ~29 m away
+const NO_ROAD = { lat: 29.66, lng: -82.34 };             // Nothing nearby
+
+// Lets pending fetches and their handlers finish
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('RealRoadDetector', () => {
+  let api: FakeRoadsApi;
+  let detector: RealRoadDetector;
+
+  beforeEach(() => {
+    api = new FakeRoadsApi();
+    vi.stubGlobal('fetch', api.fetch);
+    detector = new RealRoadDetector(createFakeMap(), 'test-key');
+  });
+
+  describe('isOnRoad', () => {
+    it('is on the road when the snapped point is within tolerance', async () => {
+      expect(await detector.isOnRoad(ON_ROAD.lat, ON_ROAD.lng)).toBe(true);
+      expect(api.requests).toHaveLength(1);
+      expect(api.requests[0].pathname).toBe('/v1/nearestRoads');
+      expect(api.requests[0].searchParams.get('key')).toBe('test-key');
+    });
+
+    it('is off the road when the nearest road is past the tolerance', async () => {
+      expect(await detector.isOnRoad(NEAR_ROAD.lat, NEAR_ROAD.lng)).toBe(false);
+
+      // The cached road geometry answers for the new tolerance without asking again
+      detector.setRoadTolerance(50);
+      expect(await detector.isOnRoad(NEAR_ROAD.lat, NEAR_ROAD.lng)).toBe(true);
+      expect(api.requests).toHaveLength(1);
+    });
+
+    it('is off the road when no road is found', async () => {
+      expect(await detector.isOnRoad(NO_ROAD.lat, NO_ROAD.lng)).toBe(false);
+    });
+  });
+
+  describe('caching', () => {
+    it('answers repeated checks in the same ~1 m cell from the cache', async () => {
+      await detector.isOnRoad(ON_ROAD.lat, ON_ROAD.lng);
+      expect(await detector.isOnRoad(ON_ROAD.lat - 0.000002, ON_ROAD.lng)).toBe(true);
+
+      expect(api.requests).toHaveLength(1);
+      expect(detector.getCacheStats()).toMatchObject({ hits: 1, misses: 1, hitRate: 0.5 });
+    });
+
+    it('answers points along a snapped road without asking again', async () => {
+      await detector.checkMultiplePoints([0, 4, 8, 12].map(meters => moveAlongHeading(ON_ROAD, meters, 0)));
+
+      expect(await detector.isOnRoad(moveAlongHeading(ON_ROAD, 6, 0).lat, ON_ROAD.lng)).toBe(true);
+      expect(api.requests).toHaveLength(1);
+    });
+
+    it('caches "no road" answers too', async () => {
+      await detector.isOnRoad(NO_ROAD.lat, NO_ROAD.lng);
+      await detector.isOnRoad(NO_ROAD.lat, NO_ROAD.lng);
+
+      expect(api.requests).toHaveLength(1);
+    });
+
+    it('asks again once the cache entry expires', async () => {
+      vi.useFakeTimers();
+      await detector.isOnRoad(ON_ROAD.lat, ON_ROAD.lng);
+
+      vi.advanceTimersByTime(CONFIG.ROADS_API.SEGMENT_CACHE.MAX_AGE - 1_000);
+      await detector.isOnRoad(ON_ROAD.lat, ON_ROAD.lng);
+      expect(api.requests).toHaveLength(1);
+
+      vi.advanceTimersByTime(1_000);
+      await detector.isOnRoad(ON_ROAD.lat, ON_ROAD.lng);
+      expect(api.requests).toHaveLength(2);
+    });
+
+    it('does not cache failures', async () => {
+      vi.useFakeTimers();
+      api.failWith(500);
+      await expect(detector.isOnRoad(ON_ROAD.lat, ON_ROAD.lng)).rejects.toThrow(RoadProviderError);
+
+      api.restore();
+      vi.advanceTimersByTime(CONFIG.ROADS_API.RETRY_DELAY);
+      expect(await detector.isOnRoad(ON_ROAD.lat, ON_ROAD.lng)).toBe(true);
+      expect(api.requests).toHaveLength(2);
+    });
+  });
+
+  describe('errors', () => {
+    it.each([
+      [403, 'auth'],
+      [400, 'auth'],
+      [429, 'quota'],
+      [503, 'server'],
+    ] as const)('reports HTTP %i as a %s failure instead of off the road', async (status, kind) => {
+      api.failWith(status);
+
+      await expect(detector.isOnRoad(ON_ROAD.lat, ON_ROAD.lng)).rejects.toMatchObject({ kind });
+      expect(console.warn).toHaveBeenCalledWith(`Road detection failed (${kind}):`, `Roads API error: ${status} Server Error`);
+      expect(detector.health.getLastError()?.kind).toBe(kind);
+    });
+
+    it('reports a network error', async () => {
+      api.failWith('network');
+
+      await expect(detector.isOnRoad(ON_ROAD.lat, ON_ROAD.lng)).rejects.toMatchObject({ kind: 'network' });
+    });
+
+    it('gives up on a request after 5 seconds', async () => {
+      vi.useFakeTimers();
+      api.failWith('hang');
+
+      const result = detector.isOnRoad(ON_ROAD.lat, ON_ROAD.lng);
+      const rejected = expect(result).rejects.toMatchObject({ kind: 'timeout' });
+      await vi.advanceTimersByTimeAsync(5_000);
+
+      await rejected;
+    });
+
+    it('holds requests back until the retry is due', async () => {
+      vi.useFakeTimers();
+      api.failWith(503);
+      await expect(detector.isOnRoad(ON_ROAD.lat, ON_ROAD.lng)).rejects.toThrow();
+
+      await expect(detector.isOnRoad(ON_ROAD.lat, ON_ROAD.lng)).rejects.toMatchObject({ kind: 'server' });
+      expect(api.requests).toHaveLength(1);
+
+      api.restore();
+      vi.advanceTimersByTime(CONFIG.ROADS_API.RETRY_DELAY);
+      expect(await detector.isOnRoad(ON_ROAD.lat, ON_ROAD.lng)).toBe(true);
+      expect(detector.health.isReliable()).toBe(true);
+    });
+  });
+
+  describe('checkMultiplePoints', () => {
+    it('checks several points in one request', async () => {
+      const results = await detector.checkMultiplePoints([ON_ROAD, NO_ROAD, NEAR_ROAD]);
+
+      expect(results).toEqual([true, false, false]);
+      expect(api.requests).toHaveLength(1);
+    });
+
+    it('caches every answer of the batch', async () => {
+      await detector.checkMultiplePoints([ON_ROAD, NO_ROAD, NEAR_ROAD]);
+
+      expect(await detector.isOnRoad(ON_ROAD.lat, ON_ROAD.lng)).toBe(true);
+      expect(await detector.isOnRoad(NEAR_ROAD.lat, NEAR_ROAD.lng)).toBe(false);
+      expect(api.requests).toHaveLength(1);
+    });
+
+    it('skips the request for an empty list', async () => {
+      expect(await detector.checkMultiplePoints([])).toEqual([]);
+      expect(api.requests).toHaveLength(0);
+    });
+
+    it('rejects when the request fails', async () => {
+      api.failWith(500);
+
+      await expect(detector.checkMultiplePoints([ON_ROAD, NEAR_ROAD])).rejects.toMatchObject({ kind: 'server' });
+    });
+  });
+
+  describe('request budget', () => {
+    // Failed requests count towards the budget without the retry delay getting in the way
+    const ignoreHealth = () => vi.spyOn(detector.health, 'allowRequest').mockReturnValue(true);
+
+    it('shares a lookup of the same spot that is still on its way', async () => {
+      const results = await Promise.all([
+        detector.isOnRoad(ON_ROAD.lat, ON_ROAD.lng),
+        detector.isOnRoad(ON_ROAD.lat, ON_ROAD.lng),
+      ]);
+
+      expect(results).toEqual([true, true]);
+      expect(api.requests).toHaveLength(1);
+    });
+
+    it('stops asking once the budget for this second is used up', async () => {
+      vi.useFakeTimers();
+      ignoreHealth();
+      api.failWith(500);
+      for (let step = 0; step < 6; step++) {
+        await detector.isOnRoad(ON_ROAD.lat + step * 0.0001, ON_ROAD.lng).catch(() => undefined);
+      }
+      expect(api.requests).toHaveLength(5);
+
+      vi.advanceTimersByTime(1_000);
+      await detector.isOnRoad(ON_ROAD.lat, ON_ROAD.lng).catch(() => undefined);
+      expect(api.requests).toHaveLength(6);
+    });
+
+    it('answers over budget with the latest completed answer', async () => {
+      detector.isOnRoadNow(ON_ROAD.lat, ON_ROAD.lng, 0, 4);
+      await settle();
+      expect(detector.isOnRoadNow(ON_ROAD.lat, ON_ROAD.lng, 0, 4)).toBe(true);
+
+      ignoreHealth();
+      api.failWith(500);
+      for (let step = 0; step < 4; step++) {
+        await detector.isOnRoad(NO_ROAD.lat, NO_ROAD.lng + step * 0.0001).catch(() => undefined);
+      }
+      expect(await detector.isOnRoad(NO_ROAD.lat, NO_ROAD.lng + 0.001)).toBe(true);
+      expect(api.requests).toHaveLength(5);
+    });
+
+    it('has no answer over budget before the first lookup completes', async () => {
+      ignoreHealth();
+      api.failWith(500);
+      for (let step = 0; step < 5; step++) {
+        await detector.isOnRoad(NO_ROAD.lat, NO_ROAD.lng + step * 0.0001).catch(() => undefined);
+      }
+
+      expect(await detector.isOnRoad(NO_ROAD.lat, NO_ROAD.lng + 0.001)).toBeNull();
+      expect(await detector.checkMultiplePoints([ON_ROAD, NO_ROAD])).toEqual([null, null]);
+      expect(api.requests).toHaveLength(5);
+    });
+  });
+
+  describe('isOnRoadNow', () => {
+    it('has no answer until the first lookup completes', async () => {
+      expect(detector.isOnRoadNow(ON_ROAD.lat, ON_ROAD.lng, 0, 4)).toBeNull();
+      await settle();
+
+      expect(detector.isOnRoadNow(ON_ROAD.lat, ON_ROAD.lng, 0, 4)).toBe(true);
+    });
+
+    it('looks up the path ahead in one request', async () => {
+      detector.isOnRoadNow(ON_ROAD.lat, ON_ROAD.lng, 0, 4);
+      await settle();
+
+      // 4 m/s for 3 seconds: the car and three points 4 m apart
+      expect(api.requests).toHaveLength(1);
+      expect(api.requests[0].searchParams.get('points')?.split('|')).toHaveLength(4);
+
+      // Driving along the path is answered without asking again
+      const ahead = moveAlongHeading(ON_ROAD, 5, 0);
+      expect(detector.isOnRoadNow(ahead.lat, ahead.lng, 0, 4)).toBe(true);
+      expect(api.requests).toHaveLength(1);
+    });
+
+    it('looks behind the car when reversing', async () => {
+      detector.isOnRoadNow(ON_ROAD.lat, ON_ROAD.lng, 180, -4);
+      await settle();
+
+      expect(detector.isOnRoadNow(ON_ROAD.lat, ON_ROAD.lng, 180, -4)).toBe(true);
+      expect(api.requests).toHaveLength(1);
+    });
+
+    it('fetches the next stretch once the road ahead is unknown, skipping points it knows', async () => {
+      detector.isOnRoadNow(ON_ROAD.lat, ON_ROAD.lng, 0, 4);
+      await settle();
+
+      // The known road ends 12 m ahead, 6 m past this point is still covered
+      detector.isOnRoadNow(moveAlongHeading(ON_ROAD, 8, 0).lat, ON_ROAD.lng, 0, 4);
+      expect(api.requests).toHaveLength(1);
+
+      const further = moveAlongHeading(ON_ROAD, 17, 0);
+      detector.isOnRoadNow(further.lat, further.lng, 0, 4);
+
+      expect(api.requests).toHaveLength(2);
+      expect(api.requests[1].searchParams.get('points')?.split('|')).toHaveLength(2);
+    });
+
+    it('keeps the latest answer while a lookup is on its way', async () => {
+      detector.isOnRoadNow(ON_ROAD.lat, ON_ROAD.lng, 0, 4);
+      await settle();
+
+      api.failWith('hang');
+      expect(detector.isOnRoadNow(NO_ROAD.lat, NO_ROAD.lng, 0, 4)).toBe(true);
+      expect(detector.isOnRoadNow(NO_ROAD.lat, NO_ROAD.lng, 0, 4)).toBe(true);
+      // One request for the new path, not one per frame
+      expect(api.requests).toHaveLength(2);
+    });
+  });
+
+  describe('health', () => {
+    it('only gives cached answers while lookups fail', async () => {
+      detector.isOnRoadNow(ON_ROAD.lat, ON_ROAD.lng, 0, 4);
+      await settle();
+
+      api.failWith(403);
+      expect(detector.isOnRoadNow(NO_ROAD.lat, NO_ROAD.lng, 0, 4)).toBe(true);
+      await settle();
+
+      expect(detector.health.getState()).toBe('down');
+      expect(detector.isOnRoadNow(NO_ROAD.lat, NO_ROAD.lng, 0, 4)).toBeNull();
+      expect(detector.isOnRoadNow(ON_ROAD.lat, ON_ROAD.lng, 0, 4)).toBe(true);
+    });
+
+    it('probes for recovery while down', async () => {
+      vi.useFakeTimers();
+      api.failWith(403);
+      detector.isOnRoadNow(ON_ROAD.lat, ON_ROAD.lng, 0, 4);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(detector.health.getState()).toBe('down');
+
+      api.restore();
+      await vi.advanceTimersByTimeAsync(CONFIG.ROADS_API.HEALTH_PROBE_INTERVAL - 1);
+      detector.isOnRoadNow(ON_ROAD.lat, ON_ROAD.lng, 0, 4);
+      expect(api.requests).toHaveLength(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      detector.isOnRoadNow(ON_ROAD.lat, ON_ROAD.lng, 0, 4);
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(api.requests).toHaveLength(2);
+      expect(detector.health.isReliable()).toBe(true);
+      expect(detector.isOnRoadNow(ON_ROAD.lat, ON_ROAD.lng, 0, 4)).toBe(true);
+    });
+  });
+
+  describe('getSpeedLimit', () => {
+    it('converts the posted limit to meters per second', async () => {
+      expect(await detector.getSpeedLimit(ON_ROAD.lat, ON_ROAD.lng)).toBeCloseTo(30 * MPH_TO_MPS);
+      expect(api.requests[0].searchParams.get('units')).toBe('MPH');
+    });
+
+    it('reuses a limit within the same ~10 m cell', async () => {
+      await detector.getSpeedLimit(ON_ROAD.lat, ON_ROAD.lng);
+      await detector.getSpeedLimit(ON_ROAD.lat + 0.00001, ON_ROAD.lng);
+
+      expect(api.requests).toHaveLength(1);
+    });
+
+    it('is unknown when the request fails', async () => {
+      api.failWith('network');
+
+      expect(await detector.getSpeedLimit(ON_ROAD.lat, ON_ROAD.lng)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { CONFIG } from '../config';
+import { RemoteCars } from '../components/RemoteCars';
+import { RemotePlayerState } from '../components/PresenceClient';
+
+const player = (updatedAt: number): RemotePlayerState => ({
+  playerId: 'driver-2',
+  nickname: 'Ghost',
+  lat: 29.651634,
+  lng: -82.324829,
+  heading: 90,
+  speed: 10,
+  updatedAt,
+});
+
+describe('RemoteCars', () => {
+  it('does not bring back a car that went quiet when the server repeats its last state', () => {
+    const cars = new RemoteCars(new THREE.Scene(), () => new THREE.Vector3());
+    cars.applyUpdate([player(1000)], 0);
+
+    cars.update(0.1, CONFIG.PRESENCE.STALE_TIMEOUT + 1);
+    expect(cars.getCount()).toBe(0);
+
+    cars.applyUpdate([player(1000)], CONFIG.PRESENCE.STALE_TIMEOUT + 100);
+    expect(cars.getCount()).toBe(0);
+
+    // Driving again
+    cars.applyUpdate([player(9000)], CONFIG.PRESENCE.STALE_TIMEOUT + 200);
+    expect(cars.getCount()).toBe(1);
+  });
+});
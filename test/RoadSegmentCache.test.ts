@@ -0,0 +1,170 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CONFIG } from '../config';
+import { IndexedDbStore } from '../components/IndexedDbStore';
+import { RoadCacheEntry, RoadQuery, RoadSegmentCache } from '../components/RoadSegmentCache';
+import { moveAlongHeading } from '../components/RoadGeometry';
+
+const ORIGIN = { lat: 29.651634, lng: -82.324829 };
+const PLACE_ID = 'ChIJ3Sx2UOWj6IgR6sKfQ8WnvnY';
+
+// Points every 4 m heading north, each snapped onto a road running 3 m east of them
+function roadQueries(count: number, start = ORIGIN): RoadQuery[] {
+  return Array.from({ length: count }, (_, index) => {
+    const point = moveAlongHeading(start, index * 4, 0);
+    const snapped = moveAlongHeading(point, 3, 90);
+    return { ...point, snapped: [{ ...snapped, placeId: PLACE_ID }] };
+  });
+}
+
+const createStore = () => new IndexedDbStore<RoadCacheEntry>('dura-road-cache', 'entries');
+
+describe('RoadSegmentCache', () => {
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+  });
+
+  it('answers from snapped road geometry by distance', async () => {
+    const cache = new RoadSegmentCache(null);
+    await cache.addResults(roadQueries(4));
+
+    // Between two queried points, 2 m from the traced road
+    const between = moveAlongHeading(moveAlongHeading(ORIGIN, 6, 0), 1, 90);
+    expect(cache.lookup(between.lat, between.lng, 10)).toBe(true);
+    // The probes saw no road within 3 m
+    expect(cache.lookup(ORIGIN.lat, ORIGIN.lng, 2)).toBe(false);
+    // Far from anything we asked about
+    const elsewhere = moveAlongHeading(ORIGIN, 500, 0);
+    expect(cache.lookup(elsewhere.lat, elsewhere.lng, 10)).toBeNull();
+  });
+
+  it('keeps points with no road nearby clear for the no-road radius', async () => {
+    const cache = new RoadSegmentCache(null);
+    await cache.addResults([{ ...ORIGIN, snapped: [] }]);
+
+    const near = moveAlongHeading(ORIGIN, 20, 45);
+    const far = moveAlongHeading(ORIGIN, CONFIG.ROADS_API.SEGMENT_CACHE.NO_ROAD_RADIUS, 45);
+    expect(cache.peek(near.lat, near.lng, 10)).toBe(false);
+    expect(cache.peek(far.lat, far.lng, 10)).toBeNull();
+  });
+
+  it('does not join snapped points too far apart into one road', async () => {
+    const cache = new RoadSegmentCache(null);
+    const queries = roadQueries(2);
+    queries[1] = roadQueries(1, moveAlongHeading(ORIGIN, 100, 0))[0];
+    await cache.addResults(queries);
+
+    const gap = moveAlongHeading(moveAlongHeading(ORIGIN, 50, 0), 3, 90);
+    expect(cache.peek(gap.lat, gap.lng, 10)).toBeNull();
+    expect(cache.getStats()).toMatchObject({ roads: 2, probes: 2 });
+  });
+
+  it('counts hits and misses of lookups but not of peeks', async () => {
+    const cache = new RoadSegmentCache(null);
+    await cache.addResults(roadQueries(2));
+
+    cache.lookup(ORIGIN.lat, ORIGIN.lng, 10);
+    cache.lookup(ORIGIN.lat + 0.01, ORIGIN.lng, 10);
+    cache.lookup(ORIGIN.lat, ORIGIN.lng, 10);
+    cache.peek(ORIGIN.lat + 0.01, ORIGIN.lng, 10);
+
+    expect(cache.getStats()).toEqual({ roads: 1, probes: 2, hits: 2, misses: 1, hitRate: 2 / 3 });
+  });
+
+  it('finds intersections where roads of two places meet', async () => {
+    const cache = new RoadSegmentCache(null);
+    await cache.addResults(roadQueries(4));
+    // A street heading east, crossing 6 m north of the start
+    const crossing = moveAlongHeading(ORIGIN, 6, 0);
+    await cache.addResults([-8, -2, 4, 10].map(meters => {
+      const point = moveAlongHeading(crossing, meters, 90);
+      return { ...point, snapped: [{ ...point, placeId: 'cross-street' }] };
+    }));
+
+    const [intersection, ...others] = cache.findIntersections(ORIGIN.lat, ORIGIN.lng, 35);
+    expect(others).toEqual([]);
+    expect(intersection.id).toBe(['cross-street', PLACE_ID].sort().join('|'));
+    expect(cache.lookup(intersection.lat, intersection.lng, 2)).toBe(true);
+
+    const elsewhere = moveAlongHeading(ORIGIN, 100, 0);
+    expect(cache.findIntersections(elsewhere.lat, elsewhere.lng, 35)).toEqual([]);
+  });
+
+  it('does not take parallel roads for an intersection', async () => {
+    const cache = new RoadSegmentCache(null);
+    await cache.addResults(roadQueries(4));
+    // The other carriageway of a divided road, 15 m east
+    await cache.addResults(roadQueries(4, moveAlongHeading(ORIGIN, 15, 90)).map(query => ({
+      ...query,
+      snapped: query.snapped.map(point => ({ ...point, placeId: 'southbound' })),
+    })));
+
+    expect(cache.findIntersections(ORIGIN.lat, ORIGIN.lng, 35)).toEqual([]);
+  });
+
+  it('survives a reload', async () => {
+    await new RoadSegmentCache(createStore()).addResults(roadQueries(4));
+
+    const reloaded = new RoadSegmentCache(createStore());
+    expect(reloaded.lookup(ORIGIN.lat, ORIGIN.lng, 10)).toBeNull();
+
+    await reloaded.load();
+    expect(reloaded.lookup(ORIGIN.lat, ORIGIN.lng, 10)).toBe(true);
+    expect(reloaded.getStats()).toMatchObject({ roads: 1, probes: 4 });
+  });
+
+  it('drops entries older than the maximum age', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const cache = new RoadSegmentCache(createStore());
+    await cache.addResults(roadQueries(2));
+
+    vi.setSystemTime(Date.now() + CONFIG.ROADS_API.SEGMENT_CACHE.MAX_AGE);
+    expect(cache.lookup(ORIGIN.lat, ORIGIN.lng, 10)).toBeNull();
+
+    const store = createStore();
+    await new RoadSegmentCache(store).load();
+    expect(await store.count()).toBe(0);
+  });
+
+  it('evicts the oldest entries past the limit', async () => {
+    const limits = CONFIG.ROADS_API.SEGMENT_CACHE;
+    const maxEntries = limits.MAX_ENTRIES;
+    const store = createStore();
+    const cache = new RoadSegmentCache(store);
+
+    limits.MAX_ENTRIES = 3;
+    try {
+      await cache.addResults([{ ...ORIGIN, snapped: [] }]);
+      await cache.addResults(roadQueries(2, moveAlongHeading(ORIGIN, 200, 0)));
+    } finally {
+      limits.MAX_ENTRIES = maxEntries;
+    }
+
+    expect(cache.peek(ORIGIN.lat, ORIGIN.lng, 10)).toBeNull();
+    expect(cache.getStats()).toMatchObject({ roads: 1, probes: 2 });
+    expect(await store.count()).toBe(3);
+  });
+
+  it('clears memory, storage and statistics', async () => {
+    const store = createStore();
+    const cache = new RoadSegmentCache(store);
+    await cache.addResults(roadQueries(2));
+    cache.lookup(ORIGIN.lat, ORIGIN.lng, 10);
+
+    await cache.clear();
+
+    expect(cache.getStats()).toEqual({ roads: 0, probes: 0, hits: 0, misses: 0, hitRate: 0 });
+    expect(await store.count()).toBe(0);
+  });
+
+  it('keeps working in memory when storage fails', async () => {
+    const store = createStore();
+    vi.spyOn(store, 'put').mockRejectedValue(new Error('quota exceeded'));
+    const cache = new RoadSegmentCache(store);
+
+    await cache.addResults(roadQueries(2));
+
+    expect(cache.lookup(ORIGIN.lat, ORIGIN.lng, 10)).toBe(true);
+    expect(console.warn).toHaveBeenCalledWith('Could not save to the road cache:', expect.any(Error));
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { DIFFICULTY_PRESETS, readUrlOverrides, SettingsStore } from '../components/Settings';
+
+describe('readUrlOverrides', () => {
+  it('applies the whole preset of a difficulty, like the menu does', () => {
+    const { roadTolerance, questionGap } = DIFFICULTY_PRESETS.easy;
+
+    expect(readUrlOverrides('?difficulty=Easy')).toEqual({ difficulty: 'easy', roadTolerance, questionGap });
+  });
+
+  it('lets values given alongside the difficulty win', () => {
+    expect(readUrlOverrides('?difficulty=hard&questionGap=60')).toMatchObject({ difficulty: 'hard', questionGap: 60 });
+  });
+});
+
+describe('SettingsStore', () => {
+  it('plays a URL difficulty the same as one picked in the menu', () => {
+    const fromUrl = new SettingsStore('?difficulty=hard', window.localStorage, window.sessionStorage).get();
+    window.sessionStorage.clear();
+    const fromMenu = new SettingsStore('', window.localStorage, window.sessionStorage).setDifficulty('hard');
+
+    expect(fromUrl).toEqual(fromMenu);
+  });
+});
@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { TelemetryBatch, TelemetrySample, TelemetrySync } from '../components/TelemetrySync';
+
+const sample = (timestamp: number): TelemetrySample => ({
+  timestamp,
+  coordinates: { latitude: 29.651634, longitude: -82.324829 },
+  heading: 0,
+  speed: 10,
+});
+
+describe('TelemetrySync', () => {
+  let batches: TelemetryBatch[];
+  let telemetry: TelemetrySync;
+
+  beforeEach(() => {
+    batches = [];
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+      batches.push(JSON.parse(String(init.body)));
+      return new Response(null, { status: 204 });
+    }));
+    telemetry = new TelemetrySync(async () => 'token', '/telemetry');
+  });
+
+  it('keeps recording a session started while the previous one is still flushing', async () => {
+    telemetry.startSession('player-1');
+    telemetry.record(sample(1));
+
+    // The first session's final flush is still uploading
+    telemetry.startSession('player-1');
+    telemetry.record(sample(2));
+    await telemetry.flush();
+    // Recorded after the first session's flush is done
+    telemetry.record(sample(3));
+    await telemetry.flush();
+
+    expect(batches.map(batch => batch.samples.map(s => s.timestamp))).toEqual([[1], [2], [3]]);
+    expect(batches[0].sessionId).not.toBe(batches[1].sessionId);
+    expect(batches[2].sessionId).toBe(batches[1].sessionId);
+  });
+
+  it('stops recording once the session has ended', async () => {
+    telemetry.startSession('player-1');
+    await telemetry.endSession();
+    telemetry.record(sample(1));
+    await telemetry.flush();
+
+    expect(batches).toEqual([]);
+  });
+});
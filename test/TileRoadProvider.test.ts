@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ColorDetector } from '../components/ColorDetector';
+import { moveAlongHeading } from '../components/RoadGeometry';
+import { TileRoadProvider } from '../components/TileRoadProvider';
+import { createFakeMap } from './fakes/googleMaps';
+import { TILE_URL, createTilesFetch, decodePng } from './fakes/mapTiles';
+
+// The fixture tile under this point has a gray road running north-south
+// through it, about 8.5 m wide; the tile to the east is all grass
+const ON_ROAD = { lat: 29.651634, lng: -82.324829 };
+const NEAR_ROAD = moveAlongHeading(ON_ROAD, 8, 90);
+const OFF_ROAD = moveAlongHeading(ON_ROAD, 20, 90);
+const NO_TILES = { lat: 29.7, lng: -82.3 };
+
+describe('TileRoadProvider', () => {
+  let fetch: ReturnType<typeof vi.fn>;
+  let provider: TileRoadProvider;
+
+  beforeEach(() => {
+    fetch = vi.fn(createTilesFetch());
+    vi.stubGlobal('fetch', fetch);
+    provider = new TileRoadProvider(TILE_URL, decodePng);
+  });
+
+  it('is on the road over gray pixels', async () => {
+    expect(await provider.isOnRoad(ON_ROAD.lat, ON_ROAD.lng)).toBe(true);
+    expect(fetch).toHaveBeenCalledWith('/tiles/18/71124/108446.png');
+  });
+
+  it('looks for road pixels within the tolerance, across tile edges', async () => {
+    expect(await provider.isOnRoad(NEAR_ROAD.lat, NEAR_ROAD.lng)).toBe(true);
+    expect(await provider.isOnRoad(OFF_ROAD.lat, OFF_ROAD.lng)).toBe(false);
+
+    provider.setRoadTolerance(1);
+    expect(await provider.isOnRoad(NEAR_ROAD.lat, NEAR_ROAD.lng)).toBe(false);
+  });
+
+  it('downloads and classifies each tile once', async () => {
+    await Promise.all([
+      provider.isOnRoad(ON_ROAD.lat, ON_ROAD.lng),
+      provider.isOnRoad(ON_ROAD.lat, ON_ROAD.lng),
+    ]);
+    await provider.isOnRoad(OFF_ROAD.lat, OFF_ROAD.lng);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(provider.getCacheStats()).toEqual({ size: 2, hitRate: 0.5 });
+  });
+
+  it('rejects when a tile is missing and asks again next time', async () => {
+    await expect(provider.isOnRoad(NO_TILES.lat, NO_TILES.lng)).rejects.toMatchObject({ kind: 'server' });
+    const downloads = fetch.mock.calls.length;
+    await expect(provider.isOnRoad(NO_TILES.lat, NO_TILES.lng)).rejects.toThrow('Map tile error: 404 Not Found');
+
+    expect(fetch).toHaveBeenCalledTimes(downloads * 2);
+  });
+
+  it('gives ColorDetector the real map color once the tile is loaded', async () => {
+    const detector = new ColorDetector(createFakeMap({ center: ON_ROAD, zoom: 18 }), provider);
+    expect(provider.getColorAt(ON_ROAD.lat, ON_ROAD.lng)).toBeNull();
+
+    await detector.isOnRoad(ON_ROAD.lat, ON_ROAD.lng);
+
+    const roadside = moveAlongHeading(ON_ROAD, 10, 270);
+    expect(detector.getColorAtPosition(ON_ROAD.lat, ON_ROAD.lng)).toEqual({ r: 150, g: 150, b: 150 });
+    expect(detector.getColorAtPosition(roadside.lat, roadside.lng)).toEqual({ r: 34, g: 139, b: 34 });
+    expect(detector.isInFallbackMode()).toBe(false);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TripRecorder, TripSample } from '../components/TripRecorder';
+import { TripPlayer } from '../components/TripPlayer';
+
+const sample = (lat: number): TripSample => ({
+  lat, lng: -82.324829, heading: 0, speed: 10, throttle: 1, brake: 0, steering: 0, isOnRoad: true, points: 0,
+});
+
+describe('trip time', () => {
+  it('counts only the time of driven frames, not pauses', () => {
+    vi.useFakeTimers();
+    const recorder = new TripRecorder();
+    recorder.start('player-1');
+
+    recorder.record(sample(29.65), 0);
+    recorder.record(sample(29.651), 0.5);
+    // Paused for a minute: no frames
+    vi.advanceTimersByTime(60_000);
+    recorder.record(sample(29.652), 0.5);
+
+    expect(recorder.getElapsed()).toBe(1000);
+    expect(recorder.stop()?.frames.map(frame => frame[0])).toEqual([0, 500, 1000]);
+  });
+
+  it('plays back at the pace of the frames it is advanced by', () => {
+    vi.useFakeTimers();
+    const recorder = new TripRecorder();
+    recorder.start('player-1');
+    recorder.record(sample(29.65), 0);
+    recorder.record(sample(29.652), 1);
+    const player = new TripPlayer(recorder.stop()!);
+
+    player.start();
+    player.advance(0.5);
+    vi.advanceTimersByTime(60_000);
+
+    expect(player.sample().lat).toBeCloseTo(29.651, 6);
+    expect(player.isFinished()).toBe(false);
+    player.advance(0.5);
+    expect(player.isFinished()).toBe(true);
+  });
+});
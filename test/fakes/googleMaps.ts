@@ -0,0 +1,108 @@
+/**
+ * Google Maps fake
+ * Just enough of the google.maps namespace for game code to run in jsdom:
+ * maps keep their camera in plain fields so tests can read it back.
+ */
+
+type LatLngInput = google.maps.LatLng | google.maps.LatLngLiteral;
+
+export class FakeLatLng {
+  private latitude: number;
+  private longitude: number;
+
+  constructor(latOrLiteral: number | google.maps.LatLngLiteral, lng?: number) {
+    if (typeof latOrLiteral === 'number') {
+      this.latitude = latOrLiteral;
+      this.longitude = lng ?? 0;
+    } else {
+      this.latitude = latOrLiteral.lat;
+      this.longitude = latOrLiteral.lng;
+    }
+  }
+
+  lat(): number {
+    return this.latitude;
+  }
+
+  lng(): number {
+    return this.longitude;
+  }
+
+  toJSON(): google.maps.LatLngLiteral {
+    return { lat: this.latitude, lng: this.longitude };
+  }
+}
+
+const toLatLng = (position: LatLngInput): FakeLatLng =>
+  position instanceof FakeLatLng
+    ? position
+    : typeof position.lat === 'function'
+      ? new FakeLatLng((position as google.maps.LatLng).lat(), (position as google.maps.LatLng).lng())
+      : new FakeLatLng(position as google.maps.LatLngLiteral);
+
+export class FakeMap {
+  center: FakeLatLng | undefined;
+  zoom: number | undefined;
+  heading = 0;
+  tilt = 0;
+  private div: HTMLElement;
+
+  constructor(div: HTMLElement, options: google.maps.MapOptions = {}) {
+    this.div = div;
+    this.setOptions(options);
+  }
+
+  setOptions(options: google.maps.MapOptions): void {
+    if (options.center) this.center = toLatLng(options.center);
+    if (options.zoom !== undefined && options.zoom !== null) this.zoom = options.zoom;
+    if (options.heading !== undefined && options.heading !== null) this.heading = options.heading;
+    if (options.tilt !== undefined && options.tilt !== null) this.tilt = options.tilt;
+  }
+
+  moveCamera(camera: google.maps.CameraOptions): void {
+    this.setOptions(camera);
+  }
+
+  getCenter(): FakeLatLng | undefined {
+    return this.center;
+  }
+
+  setCenter(center: LatLngInput): void {
+    this.center = toLatLng(center);
+  }
+
+  getZoom(): number | undefined {
+    return this.zoom;
+  }
+
+  setZoom(zoom: number): void {
+    this.zoom = zoom;
+  }
+
+  getHeading(): number {
+    return this.heading;
+  }
+
+  getTilt(): number {
+    return this.tilt;
+  }
+
+  getDiv(): HTMLElement {
+    return this.div;
+  }
+}
+
+// The namespace installed as the global `google` before each test
+export function createGoogleMapsFake() {
+  return {
+    maps: {
+      Map: FakeMap,
+      LatLng: FakeLatLng,
+    },
+  };
+}
+
+// A map typed like the real one, for code under test
+export function createFakeMap(options: google.maps.MapOptions = {}): google.maps.Map {
+  return new FakeMap(document.createElement('div'), options) as unknown as google.maps.Map;
+}
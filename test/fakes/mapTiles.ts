@@ -0,0 +1,62 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { inflateSync } from 'node:zlib';
+import { TileImage } from '../../components/TileRoadProvider';
+
+/**
+ * Map tile fakes
+ * jsdom has no canvas, so tiles are decoded here instead. Only the PNGs the
+ * fixtures use are supported: 8 bit RGB or RGBA without row filters.
+ * Tiles are served from test/fixtures/tiles/{z}/{x}/{y}.png.
+ */
+
+export const TILE_URL = '/tiles/{z}/{x}/{y}.png';
+
+export async function decodePng(image: Blob): Promise<TileImage> {
+  const bytes = Buffer.from(await image.arrayBuffer());
+  let offset = 8; // PNG signature
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const compressed: Buffer[] = [];
+
+  while (offset < bytes.length) {
+    const length = bytes.readUInt32BE(offset);
+    const type = bytes.toString('ascii', offset + 4, offset + 8);
+    const chunk = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      channels = chunk[9] === 6 ? 4 : 3;
+      if (chunk[8] !== 8 || (chunk[9] !== 2 && chunk[9] !== 6)) throw new Error('Unsupported PNG format');
+    } else if (type === 'IDAT') {
+      compressed.push(chunk);
+    }
+    offset += length + 12;
+  }
+
+  const raw = inflateSync(Buffer.concat(compressed));
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const row = y * (width * channels + 1);
+    if (raw[row] !== 0) throw new Error('Unsupported PNG row filter');
+    for (let x = 0; x < width; x++) {
+      const source = row + 1 + x * channels;
+      data.set([raw[source], raw[source + 1], raw[source + 2], channels === 4 ? raw[source + 3] : 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+}
+
+// A fetch replacement serving the fixture tiles, missing tiles answer 404
+export function createTilesFetch() {
+  return async (input: RequestInfo | URL): Promise<Response> => {
+    const url = new URL(input instanceof Request ? input.url : input.toString(), window.location.href);
+    try {
+      const body = readFileSync(resolve(__dirname, '../fixtures', `.${url.pathname}`));
+      return new Response(body, { status: 200, headers: { 'Content-Type': 'image/png' } });
+    } catch {
+      return new Response('Not Found', { status: 404, statusText: 'Not Found' });
+    }
+  };
+}
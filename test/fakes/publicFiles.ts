@@ -0,0 +1,19 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+/**
+ * A fetch replacement that serves files from public/, like the Vite dev
+ * server does, so loaders can be tested against the shipped content.
+ * Missing files answer 404.
+ */
+export function createPublicFilesFetch() {
+  return async (input: RequestInfo | URL): Promise<Response> => {
+    const url = new URL(input instanceof Request ? input.url : input.toString(), window.location.href);
+    try {
+      const body = readFileSync(resolve(__dirname, '../../public', `.${url.pathname}`), 'utf8');
+      return new Response(body, { status: 200, headers: { 'Content-Type': 'application/json' } });
+    } catch {
+      return new Response('Not Found', { status: 404, statusText: 'Not Found' });
+    }
+  };
+}
@@ -0,0 +1,70 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+/**
+ * Roads API fake
+ * A fetch replacement that replays recorded Roads API responses from
+ * test/fixtures/roads-api.json. Requests match a recording by URL with the
+ * API key removed; anything unrecorded fails loudly. Outages can be switched
+ * on to test error handling.
+ */
+
+export interface RecordedResponse {
+  url: string;
+  status: number;
+  body: unknown;
+}
+
+export type Outage = 'network' | 'hang' | number;
+
+export function loadRoadsApiRecordings(): RecordedResponse[] {
+  return JSON.parse(readFileSync(resolve(__dirname, '../fixtures/roads-api.json'), 'utf8'));
+}
+
+// Path plus decoded query without the API key, so "|" and "," compare as written
+function recordingKey(url: URL): string {
+  const params = [...url.searchParams].filter(([name]) => name !== 'key');
+  return `${url.origin}${url.pathname}?${params.map(([name, value]) => `${name}=${value}`).join('&')}`;
+}
+
+export class FakeRoadsApi {
+  readonly requests: URL[] = [];
+  private recordings: Map<string, RecordedResponse> = new Map();
+  private outage: Outage | null = null;
+
+  constructor(recordings: RecordedResponse[] = loadRoadsApiRecordings()) {
+    recordings.forEach(recording => this.recordings.set(recordingKey(new URL(recording.url)), recording));
+  }
+
+  // Fail every request until restore(): a network error, a request that
+  // never answers (until aborted) or an HTTP status
+  failWith(outage: Outage): void {
+    this.outage = outage;
+  }
+
+  restore(): void {
+    this.outage = null;
+  }
+
+  fetch = (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    this.requests.push(url);
+
+    if (this.outage === 'network') return Promise.reject(new TypeError('Failed to fetch'));
+    if (this.outage === 'hang') {
+      return new Promise((_, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted.', 'AbortError')));
+      });
+    }
+    if (typeof this.outage === 'number') {
+      return Promise.resolve(new Response(JSON.stringify({ error: { code: this.outage } }), {
+        status: this.outage,
+        statusText: 'Server Error',
+      }));
+    }
+
+    const recording = this.recordings.get(recordingKey(url));
+    if (!recording) return Promise.reject(new Error(`No recorded Roads API response for ${recordingKey(url)}`));
+    return Promise.resolve(new Response(JSON.stringify(recording.body), { status: recording.status }));
+  };
+}
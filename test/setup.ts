@@ -0,0 +1,19 @@
+import { afterEach, beforeEach, vi } from 'vitest';
+import { createGoogleMapsFake } from './fakes/googleMaps';
+
+// Every test starts with a fresh google.maps fake, an empty page and quiet
+// logging; the console spies are still there for assertions
+beforeEach(() => {
+  vi.stubGlobal('google', createGoogleMapsFake());
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  document.body.innerHTML = '';
+  window.localStorage.clear();
+});
@@ -0,0 +1,10 @@
+import { defineConfig } from "vitest/config";
+
+// https://vitest.dev/config/
+export default defineConfig({
+  test: {
+    environment: "jsdom",
+    include: ["test/**/*.test.ts"],
+    setupFiles: ["test/setup.ts"],
+  },
+});